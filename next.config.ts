@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // 로컬 임베딩(transformers.js)은 네이티브 ONNX 런타임을 사용하므로 번들하지 않고 Node에서 직접 불러옴
+  serverExternalPackages: ['@huggingface/transformers'],
 };
 
 export default nextConfig;
@@ -0,0 +1,230 @@
+/**
+ * 검색 품질 평가
+ *
+ * 고정된 인덱스 스냅샷에서 평가용 질문을 검색해 Recall@k, MRR, 키워드 일치율을 계산하고
+ * 이전 실행 결과와 비교합니다.
+ *
+ *   npm run eval -- --questions eval/golden-questions.yaml --index data/rag-data.json
+ *
+ * 쿼리는 스냅샷을 만든 임베딩 모델로 임베딩하므로, OpenAI 임베딩 스냅샷(기본값)은 OPENAI_API_KEY가 필요하고
+ * 로컬 임베딩으로 만든 스냅샷은 키 없이 평가할 수 있습니다.
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import { loadEnvConfig } from '@next/env';
+import { RAGSystem } from '@/lib/rag';
+import { resolveSecrets } from '@/lib/secret-store';
+import { createEmbeddingProvider, resolveEmbeddingConfig } from '@/lib/embeddings';
+import { formatEmbeddingModel } from '@/lib/embedding-providers';
+import { LLMProvider, createLLMProvider, resolveLLMConfig } from '@/lib/llm';
+import { RERANK_CANDIDATES, createReranker, rerankResults, resolveRerankSettings } from '@/lib/reranker';
+import {
+  EvaluationReport,
+  QuestionEvaluation,
+  SUMMARY_METRICS,
+  compareEvaluations,
+  evaluateQuestion,
+  loadGoldenQuestions,
+  summarizeEvaluation,
+} from '@/lib/evaluation';
+
+const { values: args } = parseArgs({
+  options: {
+    questions: { type: 'string', default: 'eval/golden-questions.yaml' },
+    index: { type: 'string', default: 'data/rag-data.json' },
+    vectors: { type: 'string' }, // 로컬 파일 벡터 저장소를 쓰는 스냅샷의 벡터 파일
+    k: { type: 'string', default: '5' },
+    reranker: { type: 'string' },
+    threshold: { type: 'string' },
+    'keyword-weight': { type: 'string' },
+    'multi-query': { type: 'boolean', default: false },
+    hyde: { type: 'boolean', default: false },
+    generate: { type: 'boolean', default: false },
+    baseline: { type: 'string' }, // 비교할 이전 결과 (생략하면 결과 디렉토리의 latest.json)
+    'out-dir': { type: 'string', default: 'eval/results' },
+  },
+});
+
+async function main() {
+  // Next.js와 같은 방식으로 .env 파일의 키를 불러옴
+  loadEnvConfig(process.cwd());
+
+  const k = Number(args.k);
+  const questions = loadGoldenQuestions(args.questions!);
+  const settings: Record<string, unknown> = {
+    reranker: args.reranker,
+    relevanceThreshold: args.threshold !== undefined ? Number(args.threshold) : undefined,
+  };
+  const { reranker: rerankerId, threshold } = resolveRerankSettings(settings);
+  const keywordWeight = args['keyword-weight'] !== undefined ? Number(args['keyword-weight']) : undefined;
+  const expansion = { multiQuery: args['multi-query'], hyde: args.hyde };
+
+  // 스냅샷을 바꾸지 않도록 벡터는 임시 디렉토리에 복사해 사용 (이전 형식의 인덱스는 여기로 옮겨짐)
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-eval-'));
+  process.env.RAG_DATA_PATH = path.resolve(args.index!);
+  process.env.VECTOR_STORE_PATH = path.join(workDir, 'rag-vectors.json');
+  if (args.vectors) {
+    fs.copyFileSync(args.vectors, process.env.VECTOR_STORE_PATH);
+  }
+
+  try {
+    const ragSystem = new RAGSystem();
+    if (!(await ragSystem.loadFromLocalStorage()) || !ragSystem.getStatus().isReady) {
+      throw new Error(`평가할 인덱스를 불러오지 못했습니다: ${args.index}`);
+    }
+
+    // 쿼리는 인덱스를 만든 임베딩 모델로 임베딩
+    const secrets = resolveSecrets();
+    const indexEmbedding = ragSystem.getEmbeddingInfo();
+    let embeddingConfig;
+    try {
+      embeddingConfig = resolveEmbeddingConfig({
+        embeddingProvider: indexEmbedding?.provider,
+        embeddingModel: indexEmbedding?.model,
+      }, secrets);
+    } catch (configError) {
+      const model = indexEmbedding ? formatEmbeddingModel(indexEmbedding.provider, indexEmbedding.model) : '알 수 없는 모델';
+      throw new Error(
+        `${configError instanceof Error ? configError.message : configError} ` +
+        `(스냅샷이 ${model} 임베딩으로 만들어졌습니다. .env.local에 OPENAI_API_KEY를 설정하거나 로컬 임베딩으로 만든 인덱스를 --index로 지정해주세요.)`
+      );
+    }
+    ragSystem.setEmbeddingProvider(createEmbeddingProvider(embeddingConfig));
+
+    // 채팅 모델은 답변 생성, LLM 재정렬, 질의 확장에만 필요 (LLM_PROVIDER 등 환경 변수 사용)
+    const needsLLM = args.generate || rerankerId === 'llm' || expansion.multiQuery || expansion.hyde;
+    const llm: LLMProvider | undefined = needsLLM ? createLLMProvider(resolveLLMConfig({}, secrets)) : undefined;
+    const reranker = createReranker(rerankerId, llm);
+
+    console.log(`${questions.length}개 질문 평가 중... (인덱스 ${args.index}, k=${k}, 재정렬 ${rerankerId})`);
+    const results: QuestionEvaluation[] = [];
+
+    for (const golden of questions) {
+      try {
+        // 채팅 API와 같은 순서: 질의 확장 → 후보 검색 → 재정렬
+        const { results: candidates, queries } = await ragSystem.searchWithExpansion(golden.question, RERANK_CANDIDATES, {
+          keywordWeight,
+          sources: golden.sources,
+          llm,
+          expansion,
+        });
+        const searchResults = await rerankResults(reranker, golden.question, candidates, { threshold });
+        const answer = args.generate && llm ? await generateAnswer(llm, ragSystem, golden.question, searchResults) : undefined;
+
+        results.push({
+          ...evaluateQuestion(golden, searchResults, k, answer),
+          ...(queries.length > 1 ? { queries } : {}),
+        });
+      } catch (error) {
+        // 실패한 질문은 아무것도 찾지 못한 것으로 채점
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`"${golden.question}" 평가 실패: ${message}`);
+        results.push({
+          ...evaluateQuestion(golden, [], k, args.generate ? '' : undefined),
+          error: message,
+        });
+      }
+    }
+
+    const report: EvaluationReport = {
+      createdAt: new Date().toISOString(),
+      config: {
+        questions: args.questions,
+        index: args.index,
+        embedding: indexEmbedding,
+        k,
+        reranker: rerankerId,
+        threshold,
+        keywordWeight,
+        ...expansion,
+        generate: args.generate,
+        llm: llm ? `${llm.id}/${llm.model}` : null,
+      },
+      summary: summarizeEvaluation(results),
+      results,
+    };
+
+    printReport(report);
+
+    const outDir = args['out-dir']!;
+    const baselinePath = args.baseline || path.join(outDir, 'latest.json');
+    if (fs.existsSync(baselinePath)) {
+      printComparison(report, JSON.parse(fs.readFileSync(baselinePath, 'utf-8')), baselinePath);
+    } else {
+      console.log('\n비교할 이전 결과가 없습니다.');
+    }
+
+    fs.mkdirSync(outDir, { recursive: true });
+    const reportPath = path.join(outDir, `${report.createdAt.replace(/[:.]/g, '-')}.json`);
+    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+    fs.writeFileSync(path.join(outDir, 'latest.json'), JSON.stringify(report, null, 2));
+    console.log(`\n결과를 저장했습니다: ${reportPath}`);
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+async function generateAnswer(
+  llm: LLMProvider,
+  ragSystem: RAGSystem,
+  question: string,
+  results: Parameters<RAGSystem['formatSearchResults']>[0]
+): Promise<string> {
+  const completion = await llm.chat([
+    {
+      role: 'system',
+      content: `다음 검색된 정보만 바탕으로 사용자의 질문에 한국어로 답하세요. 정보가 없으면 찾을 수 없다고 답하세요.\n\n${ragSystem.formatSearchResults(results)}`,
+    },
+    { role: 'user', content: question },
+  ], { temperature: 0, maxTokens: 500 });
+
+  return completion.content;
+}
+
+function printReport(report: EvaluationReport) {
+  console.log('\n질문별 결과');
+  for (const result of report.results) {
+    const parts = [
+      result.reciprocalRank !== null && `RR ${formatScore(result.reciprocalRank)}`,
+      result.recall !== null && `Recall ${formatScore(result.recall)}`,
+      result.contextMatch !== null && `컨텍스트 ${formatScore(result.contextMatch)}`,
+      result.answerMatch !== null && `답변 ${formatScore(result.answerMatch)}`,
+      result.error && `오류: ${result.error}`,
+    ].filter(Boolean);
+    console.log(`- [${result.id}] ${result.question} → ${parts.join(', ')}`);
+  }
+
+  console.log(`\n요약 (${report.summary.questions}개 질문, 오류 ${report.summary.errors}개)`);
+  for (const { key, label } of SUMMARY_METRICS) {
+    console.log(`  ${label}: ${formatScore(report.summary[key])}`);
+  }
+}
+
+function printComparison(current: EvaluationReport, previous: EvaluationReport, baselinePath: string) {
+  const comparison = compareEvaluations(current, previous);
+
+  console.log(`\n이전 결과와 비교 (${baselinePath}, ${previous.createdAt})`);
+  for (const metric of comparison.metrics) {
+    const delta = metric.delta === null ? '' : ` (${metric.delta >= 0 ? '+' : ''}${metric.delta.toFixed(3)})`;
+    console.log(`  ${metric.label}: ${formatScore(metric.previous)} → ${formatScore(metric.current)}${delta}`);
+  }
+
+  for (const [title, changes] of [['나빠진 질문', comparison.regressions], ['좋아진 질문', comparison.improvements]] as const) {
+    if (changes.length === 0) continue;
+    console.log(`\n${title}`);
+    for (const change of changes) {
+      console.log(`  - [${change.id}] ${change.question}: ${formatScore(change.previous)} → ${formatScore(change.current)}`);
+    }
+  }
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? '-' : value.toFixed(3);
+}
+
+main().catch(error => {
+  console.error('평가 오류:', error);
+  process.exit(1);
+});
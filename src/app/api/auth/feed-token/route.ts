@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { USER_ID_HEADER, USER_VERSION_HEADER, createFeedToken, isAuthEnabled } from '@/lib/session';
+import { authorizeRequest } from '@/lib/auth';
+
+/**
+ * 캘린더 구독 URL에 붙일 피드 토큰 (로그인을 쓰지 않으면 null)
+ *
+ * 토큰은 FEED_TOKEN_MAX_AGE 동안 유효하고, 계정을 삭제하거나 역할/비밀번호를 바꾸면 세션 버전이 달라져 무효화됩니다.
+ */
+export async function GET(request: NextRequest) {
+  const denied = authorizeRequest(request);
+  if (denied) return denied;
+
+  try {
+    const userId = request.headers.get(USER_ID_HEADER);
+    const version = request.headers.get(USER_VERSION_HEADER);
+    const token = isAuthEnabled() && userId ? await createFeedToken(userId, version ? Number(version) : undefined) : null;
+
+    return NextResponse.json({ success: true, token });
+  } catch (error) {
+    console.error('피드 토큰 발급 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    );
+  }
+}
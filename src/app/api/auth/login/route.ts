@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateLocal, setSessionCookie } from '@/lib/auth';
+import { isAuthEnabled } from '@/lib/session';
+
+/**
+ * 사용자 이름과 비밀번호로 로그인
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthEnabled()) {
+      return NextResponse.json(
+        { success: false, error: '로그인이 설정되지 않았습니다. (AUTH_SECRET 필요)' },
+        { status: 400 }
+      );
+    }
+
+    const { username, password } = await request.json();
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return NextResponse.json(
+        { success: false, error: '사용자 이름과 비밀번호가 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    const user = authenticateLocal(username.trim(), password);
+    if (!user) {
+      console.warn('로그인 실패:', username);
+      return NextResponse.json(
+        { success: false, error: '사용자 이름 또는 비밀번호가 올바르지 않습니다.' },
+        { status: 401 }
+      );
+    }
+
+    console.log('로그인:', user.id, user.role);
+    return setSessionCookie(NextResponse.json({ success: true, user }), user);
+  } catch (error) {
+    console.error('로그인 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    );
+  }
+}
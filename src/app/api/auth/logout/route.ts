@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/lib/auth';
+
+/**
+ * 세션 쿠키 삭제
+ */
+export async function POST() {
+  return clearSessionCookie(NextResponse.json({ success: true }));
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOidcProvider } from '@/lib/oidc';
+
+/**
+ * 개발용 목 OIDC 로그인 화면 (OIDC_MOCK=true일 때만)
+ *
+ * 입력한 사용자 정보를 인가 코드에 담아 콜백으로 돌려보내므로 실제 OIDC 서버 없이 로그인 흐름을 확인할 수 있습니다.
+ */
+export async function GET(request: NextRequest) {
+  if (getOidcProvider()?.id !== 'mock') {
+    return NextResponse.json({ error: '목 OIDC 제공자가 활성화되지 않았습니다.' }, { status: 404 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const hidden = ['redirect_uri', 'state', 'nonce']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name) || '')}">`)
+    .join('');
+
+  const html = `<!doctype html>
+<html lang="ko">
+<head><meta charset="utf-8"><title>Mock SSO</title></head>
+<body style="font-family: sans-serif; max-width: 360px; margin: 80px auto;">
+  <h1>Mock SSO</h1>
+  <p>개발용 로그인입니다. OIDC_ADMIN_EMAILS에 있는 이메일은 관리자로 로그인됩니다.</p>
+  <form method="post">
+    ${hidden}
+    <p><label>이름<br><input name="name" value="테스트 사용자" required></label></p>
+    <p><label>이메일<br><input name="email" type="email" value="member@example.com" required></label></p>
+    <button type="submit">로그인</button>
+  </form>
+</body>
+</html>`;
+
+  return new NextResponse(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+export async function POST(request: NextRequest) {
+  if (getOidcProvider()?.id !== 'mock') {
+    return NextResponse.json({ error: '목 OIDC 제공자가 활성화되지 않았습니다.' }, { status: 404 });
+  }
+
+  const form = await request.formData();
+  const field = (name: string) => String(form.get(name) || '');
+
+  // 같은 사이트의 콜백으로만 돌려보냄
+  const redirectUri = new URL(field('redirect_uri'), request.nextUrl.origin);
+  if (redirectUri.origin !== request.nextUrl.origin) {
+    return NextResponse.json({ error: '허용되지 않은 redirect_uri입니다.' }, { status: 400 });
+  }
+
+  const email = field('email');
+  const code = Buffer.from(JSON.stringify({
+    sub: email,
+    name: field('name'),
+    email,
+    email_verified: true, // 개발용 목 제공자는 입력한 이메일을 확인된 것으로 취급
+    nonce: field('nonce'),
+  })).toString('base64url');
+
+  redirectUri.searchParams.set('code', code);
+  redirectUri.searchParams.set('state', field('state'));
+  return NextResponse.redirect(redirectUri, 303);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
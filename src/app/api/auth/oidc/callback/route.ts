@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setSessionCookie } from '@/lib/auth';
+import { getOidcProvider, getOidcRole } from '@/lib/oidc';
+import { OIDC_STATE_COOKIE, SessionUser, verifyStateToken } from '@/lib/session';
+
+/**
+ * OIDC 제공자에서 돌아온 인가 코드로 로그인
+ */
+export async function GET(request: NextRequest) {
+  const origin = process.env.AUTH_URL || request.nextUrl.origin;
+  const loginUrl = (error: string) => new URL(`/login?error=${encodeURIComponent(error)}`, origin);
+
+  try {
+    const provider = getOidcProvider();
+    const code = request.nextUrl.searchParams.get('code');
+    const saved = await verifyStateToken(request.cookies.get(OIDC_STATE_COOKIE)?.value);
+
+    if (!provider || !code || !saved || saved.state !== request.nextUrl.searchParams.get('state')) {
+      return NextResponse.redirect(loginUrl('로그인 요청이 만료되었거나 올바르지 않습니다. 다시 시도해주세요.'));
+    }
+
+    const profile = await provider.exchangeCode({
+      code,
+      redirectUri: `${origin}/api/auth/oidc/callback`,
+      nonce: saved.nonce,
+    });
+
+    const user: SessionUser = {
+      id: `oidc:${profile.subject}`,
+      name: profile.name,
+      role: getOidcRole(profile),
+      provider: 'oidc',
+    };
+    console.log('OIDC 로그인:', user.id, user.role);
+
+    const response = NextResponse.redirect(new URL(saved.next || '/', origin));
+    response.cookies.set(OIDC_STATE_COOKIE, '', { maxAge: 0, path: '/api/auth/oidc' });
+    return setSessionCookie(response, user);
+  } catch (error) {
+    console.error('OIDC 로그인 오류:', error);
+    return NextResponse.redirect(loginUrl(error instanceof Error ? error.message : 'OIDC 로그인에 실패했습니다.'));
+  }
+}
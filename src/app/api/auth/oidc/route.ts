@@ -0,0 +1,50 @@
+import { randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getOidcProvider } from '@/lib/oidc';
+import { OIDC_STATE_COOKIE, createStateToken, safeRedirectPath } from '@/lib/session';
+
+/**
+ * OIDC 로그인 시작 (제공자의 로그인 화면으로 이동)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const provider = getOidcProvider();
+    if (!provider) {
+      return NextResponse.json(
+        { success: false, error: 'OIDC 로그인이 설정되지 않았습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const origin = process.env.AUTH_URL || request.nextUrl.origin;
+    const state = randomBytes(16).toString('base64url');
+    const nonce = randomBytes(16).toString('base64url');
+    const next = safeRedirectPath(request.nextUrl.searchParams.get('next'));
+
+    const authorizationUrl = await provider.getAuthorizationUrl({
+      origin,
+      redirectUri: `${origin}/api/auth/oidc/callback`,
+      state,
+      nonce,
+    });
+
+    const response = NextResponse.redirect(authorizationUrl);
+    response.cookies.set(OIDC_STATE_COOKIE, await createStateToken({ state, nonce, next }), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: 10 * 60,
+      path: '/api/auth/oidc',
+    });
+    return response;
+  } catch (error) {
+    console.error('OIDC 로그인 시작 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    );
+  }
+}
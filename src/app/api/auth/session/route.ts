@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isLocalLoginAvailable, resolveCurrentRole } from '@/lib/auth';
+import { getOidcProvider } from '@/lib/oidc';
+import { SESSION_COOKIE, isAuthEnabled, verifySessionToken } from '@/lib/session';
+
+/**
+ * 현재 로그인한 사용자와 사용할 수 있는 로그인 방법
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authEnabled = isAuthEnabled();
+    const session = authEnabled ? await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value) : null;
+    // 삭제되었거나 역할/비밀번호가 바뀐 계정의 세션은 로그아웃 상태로 보여줌
+    const role = session && resolveCurrentRole(session.id, session.role, session.version);
+    const user = session && role ? { id: session.id, name: session.name, role, provider: session.provider } : null;
+    const oidc = authEnabled ? getOidcProvider() : null;
+
+    return NextResponse.json({
+      success: true,
+      authEnabled,
+      user,
+      providers: {
+        local: authEnabled && isLocalLoginAvailable(),
+        oidc: oidc ? { id: oidc.id, name: oidc.name } : null,
+      },
+    });
+  } catch (error) {
+    console.error('세션 확인 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest, deleteUser, listUsers, saveUser } from '@/lib/auth';
+import { USER_ID_HEADER } from '@/lib/session';
+
+// 관리자만 호출할 수 있도록 미들웨어에서 역할을 확인하고, 삭제되거나 역할이 바뀐 계정은 authorizeRequest가 다시 확인
+
+/**
+ * 로컬 계정 목록
+ */
+export async function GET(request: NextRequest) {
+  const denied = authorizeRequest(request, 'admin');
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({
+      success: true,
+      users: listUsers(),
+    });
+  } catch (error) {
+    console.error('계정 목록 조회 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 계정 추가 또는 수정
+ */
+export async function POST(request: NextRequest) {
+  const denied = authorizeRequest(request, 'admin');
+  if (denied) return denied;
+
+  try {
+    const { username, name, password, role } = await request.json();
+
+    if (typeof username !== 'string' || (role !== 'admin' && role !== 'member')) {
+      return NextResponse.json(
+        { success: false, error: '사용자 이름과 역할(admin 또는 member)이 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    const user = saveUser({
+      username: username.trim(),
+      name: typeof name === 'string' ? name : undefined,
+      password: typeof password === 'string' && password ? password : undefined,
+      role,
+    });
+    console.log('계정 저장:', user.username, user.role);
+
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    console.error('계정 저장 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 400 }
+    );
+  }
+}
+
+/**
+ * 계정 삭제 (자기 자신은 삭제할 수 없음)
+ */
+export async function DELETE(request: NextRequest) {
+  const denied = authorizeRequest(request, 'admin');
+  if (denied) return denied;
+
+  try {
+    const username = request.nextUrl.searchParams.get('username');
+    if (!username) {
+      return NextResponse.json(
+        { success: false, error: '삭제할 사용자 이름이 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (username === request.headers.get(USER_ID_HEADER)) {
+      return NextResponse.json(
+        { success: false, error: '현재 로그인한 계정은 삭제할 수 없습니다.' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, deleted: deleteUser(username) });
+  } catch (error) {
+    console.error('계정 삭제 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    );
+  }
+}
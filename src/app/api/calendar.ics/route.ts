@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRAGSystem } from '@/lib/rag';
+import { buildCalendarEvents, buildICalendar } from '@/lib/calendar';
+import { authorizeRequest } from '@/lib/auth';
+
+/**
+ * 날짜 속성이 있는 Notion 페이지를 iCalendar 피드로 제공 (캘린더 앱에서 URL로 구독)
+ *
+ * `?dateProperty=속성이름`으로 일정 날짜로 사용할 속성을 지정할 수 있습니다.
+ */
+export async function GET(request: NextRequest) {
+  const denied = authorizeRequest(request);
+  if (denied) return denied;
+
+  try {
+    const dateProperty = request.nextUrl.searchParams.get('dateProperty') || undefined;
+
+    const ragSystem = await getRAGSystem();
+    const events = buildCalendarEvents(ragSystem.getChunks(), dateProperty);
+
+    return new NextResponse(buildICalendar(events), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="notion-schedule.ics"',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error) {
+    console.error('iCalendar 피드 생성 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    );
+  }
+}
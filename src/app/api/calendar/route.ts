@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRAGSystem } from '@/lib/rag';
+import { buildCalendarEvents, listDateProperties } from '@/lib/calendar';
+import { authorizeRequest } from '@/lib/auth';
+
+/**
+ * 동기화된 인덱스의 날짜 속성으로 만든 일정 목록 (Notion을 다시 조회하지 않음)
+ */
+export async function GET(request: NextRequest) {
+  const denied = authorizeRequest(request);
+  if (denied) return denied;
+
+  try {
+    const dateProperty = request.nextUrl.searchParams.get('dateProperty') || undefined;
+
+    const ragSystem = await getRAGSystem();
+    const chunks = ragSystem.getChunks();
+    const events = buildCalendarEvents(chunks, dateProperty);
+
+    return NextResponse.json({
+      success: true,
+      events,
+      dateProperties: listDateProperties(chunks),
+      lastUpdated: ragSystem.getStatus().lastUpdated,
+    });
+  } catch (error) {
+    console.error('캘린더 일정 조회 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,27 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
-import { RAGSystem } from '@/lib/rag';
-
-// 간단한 타입 정의
-interface SimpleNotionProperty {
-  type: string;
-  title?: Array<{ plain_text: string }>;
-  rich_text?: Array<{ plain_text: string }>;
-  date?: { start: string; end?: string } | null;
-  select?: { name: string } | null;
-  multi_select?: Array<{ name: string }>;
-  number?: number | null;
-  checkbox?: boolean;
-  url?: string | null;
-}
+import { Client } from '@notionhq/client';
+import { getRAGSystem, SearchSource } from '@/lib/rag';
+import type { SearchQuery } from '@/lib/query-expansion';
+import { ChatStreamEvent, encodeChatEvent } from '@/lib/chat-stream';
+import { prepareConversation, rewriteQuery, sanitizeHistory, sanitizeSummary } from '@/lib/conversation';
+import { formatDateInterval, parseDateRange } from '@/lib/date-range';
+import { describeSchema, retrieveDatabaseSchema } from '@/lib/notion';
+import { getDataSources, isExportSource, resolveSourceScope } from '@/lib/data-sources';
+import { getRequestSecrets } from '@/lib/secret-store';
+import { createEmbeddingProvider, resolveEmbeddingConfig } from '@/lib/embeddings';
+import { RERANK_CANDIDATES, createReranker, rerankResults, resolveRerankSettings } from '@/lib/reranker';
+import { getRerankerInfo } from '@/lib/reranker-providers';
+import { LLMMessage, LLMToolCall, createLLMProvider, resolveLLMConfig } from '@/lib/llm';
+import { formatQueryResults, getQuerySources, planDatabaseQuery, runQueryPlan } from '@/lib/query-planner';
+import { NOTION_ACTION_TOOLS, NotionActionProposal, prepareNotionAction, toolCallToAction } from '@/lib/notion-actions';
+import { authorizeRequest, getVerifiedRole } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
+  const denied = authorizeRequest(request);
+  if (denied) return denied;
+
   try {
     console.log('=== Chat API 호출 시작 ===');
     const body = await request.json();
     const { message, notionData, useRAG = true } = body;
+    const history = sanitizeHistory(body.history);
     
     console.log('받은 메시지:', message);
+    console.log('대화 기록 수:', history.length);
     console.log('Notion 데이터 길이:', notionData?.length || 0);
     console.log('RAG 사용 여부:', useRAG);
 
@@ -33,229 +39,137 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 클라이언트에서 전송된 설정 정보 확인
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader) {
-      console.log('ERROR: Authorization 헤더가 없음');
-      return NextResponse.json(
-        { error: '인증 정보가 필요합니다.' },
-        { status: 401 }
-      );
-    }
+    // API 키는 워크스페이스 키 저장소나 환경 변수에서 가져오고, 나머지 설정만 요청 본문으로 받음
+    const settings = body.settings && typeof body.settings === 'object' ? body.settings : {};
+    console.log('설정 항목:', Object.keys(settings));
 
-    // Authorization 헤더에서 설정 정보 추출 (Base64 디코딩)
-    console.log('Authorization 헤더 디코딩 시작');
-    const encodedSettings = authHeader.replace('Bearer ', '');
-    console.log('인코딩된 설정 길이:', encodedSettings.length);
-    
-    const decodedSettings = atob(encodedSettings);
-    console.log('Base64 디코딩 완료, 길이:', decodedSettings.length);
-    
-    const finalSettings = decodeURIComponent(decodedSettings);
-    console.log('URI 디코딩 완료, 길이:', finalSettings.length);
-    
-    const settings = JSON.parse(finalSettings);
-    console.log('설정 파싱 완료:', Object.keys(settings));
-    
-    const { openaiApiKey, openaiModel, systemPrompt } = settings;
+    const secrets = getRequestSecrets(request);
+    const { notionApiKey } = secrets;
+    const { systemPrompt } = settings;
+
+    // 일반 사용자(member)는 질문만 할 수 있으므로 Notion 편집 도구는 관리자에게만 제공
+    const canEdit = getVerifiedRole(request) === 'admin';
 
-    if (!openaiApiKey) {
-      console.log('ERROR: OpenAI API 키가 없음');
+    // 채팅 모델 제공자 구성 (Base URL은 서버가 요청을 보낼 주소이므로 관리자 설정만 따름)
+    let llmConfig;
+    try {
+      llmConfig = resolveLLMConfig(canEdit ? settings : { ...settings, llmBaseUrl: undefined }, secrets);
+    } catch (configError) {
+      console.log('ERROR: LLM 설정 오류');
       return NextResponse.json(
-        { error: 'OpenAI API 키가 설정되지 않았습니다.' },
+        { error: configError instanceof Error ? configError.message : 'LLM 설정이 올바르지 않습니다.' },
         { status: 400 }
       );
     }
 
-    console.log('OpenAI API 키 확인 완료');
-    console.log('사용할 모델:', openaiModel || 'gpt-4o-mini');
+    console.log('사용할 모델:', llmConfig.provider, llmConfig.model);
+    const llm = createLLMProvider(llmConfig);
 
-    // OpenAI 클라이언트 초기화
-    const openai = new OpenAI({
-      apiKey: openaiApiKey,
-    });
+    // 질문 범위의 데이터 소스 (지정하지 않으면 켜진 소스 전체, 설정이 없으면 NOTION_DATABASE_ID 환경 변수)
+    const dataSources = getDataSources({ notionDatabaseId: process.env.NOTION_DATABASE_ID, ...settings });
+    const scopedSources = resolveSourceScope(dataSources, body.sources);
+    const isScoped = Array.isArray(body.sources) && body.sources.length > 0;
+    console.log('데이터 소스 범위:', scopedSources.map(source => source.name));
+
+    // 속성 조회와 Notion 편집은 범위의 첫 번째 데이터 소스 데이터베이스를 대상으로 함
+    const targetSource = scopedSources[0];
+
+    // Notion 편집 도구는 데이터베이스 스키마를 알 수 있을 때만 제공 (올바른 속성 이름과 선택지로 호출하도록)
+    // 내보내기에서 가져온 소스는 인덱스 검색만 사용
+    const notion = notionApiKey ? new Client({ auth: notionApiKey }) : null;
+    const schema = notion && targetSource && !isExportSource(targetSource)
+      ? await retrieveDatabaseSchema(notion, targetSource.databaseId).catch(schemaError => {
+          console.warn('데이터베이스 스키마 조회 실패, Notion 편집 도구를 비활성화합니다:', schemaError);
+          return null;
+        })
+      : null;
+
+    // 대화 기록을 토큰 예산에 맞추고, 넘치는 앞쪽 대화는 요약
+    const conversation = await prepareConversation(llm, history, sanitizeSummary(body.summary));
+    console.log(`대화 기록: 최근 ${conversation.messages.length}개 유지, 요약 ${conversation.summary?.messageCount || 0}개`);
 
     let contextData = '';
     let searchInfo = '';
     let ragSuccess = false;
-
-    // RAG 시스템 사용 시도
-    if (useRAG && settings.notionApiKey && settings.notionDatabaseId) {
+    let sources: SearchSource[] = [];
+    let searchQueries: SearchQuery[] = [];
+    let planUsed = false;
+
+    // 후속 질문은 대화 맥락을 반영한 독립 질문으로 바꿔 조회/검색
+    const searchQuery = useRAG || schema
+      ? await rewriteQuery(llm, conversation.messages, conversation.summary, message)
+      : message;
+    console.log('검색 질문:', searchQuery);
+
+    // 재작성된 질문에서 날짜 범위를 다시 해석 ("그때" 같은 표현이 실제 날짜로 바뀌었을 수 있음)
+    const dateRange = parseDateRange(searchQuery) ?? parseDateRange(message);
+
+    // 속성 값만으로 정확히 답할 수 있는 질문은 데이터베이스를 직접 조회
+    // (조회 결과를 전체 결과로 안내하므로 데이터 소스가 하나일 때만 사용)
+    if (notion && schema && scopedSources.length === 1) {
       try {
-        console.log('RAG 시스템 초기화 중...');
-        const ragSystem = new RAGSystem();
-        ragSystem.initializeOpenAI(openaiApiKey);
-        
-        // 서버리스 환경에서는 실시간으로 RAG 시스템 구축
-        console.log('노션 데이터를 가져와서 RAG 시스템 구축 중...');
-        
-        // initialize-rag API와 동일한 로직으로 노션 데이터 가져오기
-        const { Client } = await import('@notionhq/client');
-        const notion = new Client({
-          auth: settings.notionApiKey,
-        });
-
-        // 데이터베이스 쿼리 실행
-        let allResults: unknown[] = [];
-        let hasMore = true;
-        let nextCursor: string | undefined = undefined;
-
-        while (hasMore) {
-          const response = await notion.databases.query({
-            database_id: settings.notionDatabaseId,
-            start_cursor: nextCursor,
-            page_size: 100,
-          });
-
-          allResults = allResults.concat(response.results);
-          hasMore = response.has_more;
-          nextCursor = response.next_cursor || undefined;
-        }
-
-        if (allResults.length === 0) {
-          throw new Error('노션 데이터베이스가 비어있습니다.');
+        const plan = await planDatabaseQuery(
+          llm,
+          schema,
+          searchQuery,
+          dateRange ? `${dateRange.label} = ${formatDateInterval(dateRange)}` : undefined
+        );
+
+        if (plan) {
+          const result = await runQueryPlan(notion, schema, plan);
+          contextData = formatQueryResults(result, targetSource.name);
+          sources = getQuerySources(result, targetSource.name);
+          searchInfo = `데이터베이스 조회: ${result.pages.length}개 페이지 일치`;
+          ragSuccess = true; // 조회 결과도 검색된 정보와 같은 방식으로 답변에 사용
+          planUsed = true;
+
+          console.log('데이터베이스 조회 완료:', JSON.stringify(plan), `${result.pages.length}개`);
+        } else {
+          console.log('속성 조회로 답할 수 없는 질문, RAG 검색 사용');
         }
+      } catch (planError) {
+        console.warn('쿼리 계획 실패, RAG 검색으로 전환:', planError);
+      }
+    }
 
-        // 간단한 텍스트 추출
-        const extractSimpleText = (page: unknown): string => {
-          const pageObj = page as Record<string, unknown>;
-          const properties = pageObj.properties as Record<string, unknown>;
-          
-          let text = '';
-          const dateProperties: Record<string, string> = {};
-          
-          // 제목 추출
-          for (const [, value] of Object.entries(properties)) {
-            const prop = value as SimpleNotionProperty;
-            if (prop.type === 'title' && prop.title) {
-              const title = prop.title.map((t) => t.plain_text).join('');
-              text += `제목: ${title}\n`;
-              break;
-            }
-          }
-          
-          // 기본 속성들 추출
-          for (const [key, value] of Object.entries(properties)) {
-            const prop = value as SimpleNotionProperty;
-            
-            switch (prop.type) {
-              case 'rich_text':
-                if (prop.rich_text && prop.rich_text.length > 0) {
-                  const content = prop.rich_text.map((t) => t.plain_text).join('');
-                  if (content) {
-                    text += `${key}: ${content}\n`;
-                  }
-                }
-                break;
-              case 'date':
-                if (prop.date && prop.date.start) {
-                  const startDate = new Date(prop.date.start).toLocaleDateString('ko-KR');
-                  const endDate = prop.date.end ? ` ~ ${new Date(prop.date.end).toLocaleDateString('ko-KR')}` : '';
-                  text += `${key}: ${startDate}${endDate}\n`;
-                  
-                  // 날짜 정보를 메타데이터에 저장
-                  dateProperties[key] = prop.date.start;
-                  if (prop.date.end) {
-                    dateProperties[`${key}_end`] = prop.date.end;
-                  }
-                }
-                break;
-              case 'select':
-                if (prop.select && prop.select.name) {
-                  text += `${key}: ${prop.select.name}\n`;
-                }
-                break;
-              case 'multi_select':
-                if (prop.multi_select && prop.multi_select.length > 0) {
-                  const tags = prop.multi_select.map((item) => item.name).join(', ');
-                  text += `${key}: ${tags}\n`;
-                }
-                break;
-              case 'number':
-                if (prop.number !== null && prop.number !== undefined) {
-                  text += `${key}: ${prop.number}\n`;
-                }
-                break;
-              case 'checkbox':
-                text += `${key}: ${prop.checkbox ? '예' : '아니오'}\n`;
-                break;
-              case 'url':
-                if (prop.url) {
-                  text += `${key}: ${prop.url}\n`;
-                }
-                break;
-            }
-          }
-          
-          text += `생성일: ${new Date(pageObj.created_time as string).toLocaleString('ko-KR')}\n`;
-          text += `마지막 수정: ${new Date(pageObj.last_edited_time as string).toLocaleString('ko-KR')}\n`;
-          text += '---\n';
-          
-          // 날짜 정보를 텍스트에 추가로 포함 (RAG 검색에서 활용)
-          if (Object.keys(dateProperties).length > 0) {
-            text += `[날짜 정보: ${JSON.stringify(dateProperties)}]\n`;
-          }
-          
-          return text;
-        };
-
-        // RAG용 객체 배열로 변환 (날짜 메타데이터 포함)
-        const notionPages = allResults.map((page, index) => {
-          const pageObj = page as Record<string, unknown>;
-          const properties = pageObj.properties as Record<string, unknown>;
-          
-          // 날짜 속성 추출
-          const dateProperties: Record<string, string> = {};
-          for (const [key, value] of Object.entries(properties)) {
-            const prop = value as SimpleNotionProperty;
-            if (prop.type === 'date' && prop.date && prop.date.start) {
-              dateProperties[key] = prop.date.start;
-              if (prop.date.end) {
-                dateProperties[`${key}_end`] = prop.date.end;
-              }
-            }
-          }
-          
-          // 제목 추출
-          let title = `페이지 ${index + 1}`;
-          for (const [, value] of Object.entries(properties)) {
-            const prop = value as SimpleNotionProperty;
-            if (prop.type === 'title' && prop.title) {
-              title = prop.title.map((t) => t.plain_text).join('');
-              break;
-            }
-          }
-          
-          return {
-            id: `notion-page-${index}`,
-            properties: {
-              title: {
-                title: [{ plain_text: title }]
-              }
-            },
-            content: extractSimpleText(page),
-            last_edited_time: pageObj.last_edited_time as string,
-            url: `https://notion.so/${pageObj.id}`,
-            metadata: {
-              properties: dateProperties,
-              created_time: pageObj.created_time as string,
-              last_edited_time: pageObj.last_edited_time as string
-            }
-          };
-        });
+    // RAG 시스템 사용 시도 (동기화된 인덱스에서 검색만 수행)
+    if (useRAG && !planUsed) {
+      try {
+        const ragSystem = await getRAGSystem();
         
-        // 노션 데이터를 청크로 분할
-        const chunks = await ragSystem.processNotionData(notionPages);
-        console.log(`${chunks.length}개의 청크를 생성했습니다.`);
+        if (!ragSystem.getStatus().isReady) {
+          throw new Error('RAG 인덱스가 아직 구축되지 않았습니다. 설정 페이지에서 업데이트를 실행해주세요.');
+        }
         
-        // 임베딩 생성
-        await ragSystem.generateEmbeddings();
-        console.log('임베딩 생성 완료');
+        // 쿼리는 채팅 제공자와 관계없이 인덱스를 만든 임베딩 모델로 임베딩
+        const indexEmbedding = ragSystem.getEmbeddingInfo();
+        ragSystem.setEmbeddingProvider(createEmbeddingProvider(resolveEmbeddingConfig({
+          embeddingProvider: indexEmbedding?.provider,
+          embeddingModel: indexEmbedding?.model,
+        }, secrets)));
         
-        // 관련 정보 검색
-        const searchResults = await ragSystem.searchSimilarChunks(message, 5);
+        // 관련 정보 검색 (켜진 방식으로 질의를 확장하고, 후보를 넉넉히 가져온 뒤 재정렬하고 관련도 기준으로 자름)
+        const { results: candidates, queries } = await ragSystem.searchWithExpansion(searchQuery, RERANK_CANDIDATES, {
+          keywordWeight: settings.keywordWeight,
+          dateRange,
+          sources: isScoped ? scopedSources.map(source => source.id) : undefined,
+          llm,
+          expansion: { multiQuery: settings.multiQuery === true, hyde: settings.hyde === true },
+        });
+        searchQueries = queries;
+        if (queries.length > 1) {
+          console.log('확장된 검색 질의:', queries);
+        }
+        const { reranker: rerankerId, threshold } = resolveRerankSettings(settings);
+        const searchResults = await rerankResults(createReranker(rerankerId, llm), searchQuery, candidates, { threshold });
         contextData = ragSystem.formatSearchResults(searchResults);
-        searchInfo = `RAG 검색: ${searchResults.length}개 관련 문서 발견 (평균 유사도: ${(searchResults.reduce((sum, r) => sum + r.score, 0) / searchResults.length * 100).toFixed(1)}%)`;
+        sources = ragSystem.getSearchSources(searchResults);
+        // 임계값을 넘는 문서가 없으면 평균 관련도는 표시하지 않음
+        const averageScore = searchResults.length > 0
+          ? searchResults.reduce((sum, r) => sum + (r.rerankScore ?? r.score), 0) / searchResults.length
+          : null;
+        const scoreInfo = averageScore !== null ? `, 평균 관련도: ${(averageScore * 100).toFixed(1)}%` : '';
+        searchInfo = `RAG 검색: 후보 ${candidates.length}개 중 ${searchResults.length}개 관련 문서 사용 (재정렬: ${getRerankerInfo(rerankerId).name}${scoreInfo})`;
         ragSuccess = true;
         
         console.log('RAG 검색 완료:', searchInfo);
@@ -288,11 +202,24 @@ export async function POST(request: NextRequest) {
       weekday: 'long'
     });
     
+    // 질문에서 해석한 기간을 명시해 모델이 "다음 주" 등을 직접 계산하지 않도록 함
+    const dateRangeInfo = dateRange
+      ? `\n**질문의 날짜 범위 ("${dateRange.label}"): ${formatDateInterval(dateRange)}**\n이 기간에 해당하는 일정을 중심으로 답변하세요.\n`
+      : '';
+    if (dateRange) {
+      console.log('질문의 날짜 범위:', dateRange.label, formatDateInterval(dateRange));
+    }
+    
+    // 여러 데이터베이스를 함께 검색할 때는 정보마다 어느 데이터베이스에서 왔는지 밝히도록 함
+    const sourceInfo = scopedSources.length > 1
+      ? `각 정보의 "(출처: 이름)"은 정보가 나온 데이터베이스입니다. 여러 데이터베이스의 정보를 함께 쓸 때는 어느 데이터베이스의 내용인지 밝혀주세요.\n`
+      : '';
+
     const systemMessage = ragSuccess 
       ? `${baseSystemPrompt}
 
 **현재 날짜: ${currentDate}**
-
+${dateRangeInfo}
 사용자의 질문과 관련하여 다음 정보를 검색했습니다:
 
 ${contextData}
@@ -300,6 +227,9 @@ ${contextData}
 위 검색된 정보를 주로 참고하여 사용자의 질문에 정확하고 도움이 되는 답변을 제공해주세요.
 검색된 정보와 관련이 없는 질문이라면, 관련 정보를 찾을 수 없다고 명확히 말씀해주세요.
 
+**출처 표기**: 검색된 정보를 사용한 문장 끝에는 해당 정보의 번호를 [1], [2]처럼 대괄호로 표기하세요.
+여러 정보를 함께 사용했다면 [1][3]처럼 이어서 표기하고, 목록에 없는 번호는 쓰지 마세요.
+${sourceInfo}
 **중요 - 날짜 관련 질문 처리 규칙**:
 1. **현재 날짜 기준**: 오늘은 ${currentDate}입니다. 이를 기준으로 "최근", "다가오는", "지난" 등을 판단하세요.
 2. **최근 일정**: 현재 날짜로부터 7일 이내의 과거 또는 미래 일정만 포함하세요.
@@ -308,11 +238,11 @@ ${contextData}
 5. **날짜 비교**: 생성일/수정일이 아닌 실제 일정 날짜(Start Date, End Date, 날짜 속성)를 우선 확인하세요.
 6. **오래된 데이터 제외**: 2023년 등 현재와 너무 차이나는 과거 데이터는 "최근"에 포함하지 마세요.
 
-답변할 때는 어떤 문서나 정보를 참고했는지 언급하고, 날짜가 현재와 얼마나 차이나는지도 명시해주세요.`
+답변할 때는 날짜가 현재와 얼마나 차이나는지도 명시해주세요.`
       : `${baseSystemPrompt}
 
 **현재 날짜: ${currentDate}**
-
+${dateRangeInfo}
 다음은 Notion 데이터베이스의 내용입니다:
 ${contextData}
 
@@ -328,39 +258,130 @@ ${contextData}
 
 답변할 때는 날짜가 현재와 얼마나 차이나는지도 명시해주세요.`;
 
+    const actionInstructions = schema && canEdit ? `
+
+**Notion 편집**: 사용자가 일정 생성이나 날짜, 상태, 체크박스 변경을 명시적으로 요청한 경우에만 도구를 호출하세요.
+도구를 호출해도 바로 적용되지 않으며, 사용자가 변경 내용을 확인하고 승인해야 반영됩니다.
+속성 이름과 선택지는 아래 데이터베이스 "${schema.title}"의 속성 목록에 있는 값만 사용하세요.
+${describeSchema(schema)}` : '';
+
     console.log('시스템 메시지 길이:', systemMessage.length);
     console.log('검색 정보:', searchInfo);
 
-    // OpenAI API 호출
-    console.log('OpenAI API 호출 시작...');
-    const completion = await openai.chat.completions.create({
-      model: openaiModel || 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: systemMessage,
-        },
-        {
-          role: 'user',
-          content: message,
-        },
-      ],
+    // 클라이언트 연결이 끊기거나 스트림이 취소되면 모델 요청도 함께 중단
+    const abortController = new AbortController();
+    request.signal.addEventListener('abort', () => abortController.abort());
+
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: systemMessage + actionInstructions,
+      },
+      ...(conversation.summary ? [{
+        role: 'system' as const,
+        content: `이전 대화 요약:\n${conversation.summary.content}`,
+      }] : []),
+      ...conversation.messages,
+      {
+        role: 'user',
+        content: message,
+      },
+    ];
+
+    // 모델 호출 (스트리밍, 첫 응답 조각은 스트림을 읽기 시작할 때 요청)
+    console.log('모델 호출 시작...');
+    const completion = llm.stream(messages, {
       temperature: 0.7,
-      max_tokens: 1000,
+      maxTokens: 1000,
+      tools: schema && canEdit ? NOTION_ACTION_TOOLS : undefined,
+      signal: abortController.signal,
     });
 
-    console.log('OpenAI API 응답 받음');
-    console.log('응답 선택지 수:', completion.choices?.length || 0);
-    
-    const response = completion.choices[0]?.message?.content || '응답을 생성할 수 없습니다.';
-    console.log('최종 응답 길이:', response.length);
-    console.log('최종 응답 샘플:', response.substring(0, 100) + (response.length > 100 ? '...' : ''));
-
-    return NextResponse.json({ 
-      message: response,
-      searchInfo,
-      ragUsed: ragSuccess,
-      contextLength: contextData.length
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(encodeChatEvent(event)));
+        let responseLength = 0;
+        const toolCalls: LLMToolCall[] = [];
+
+        try {
+          for await (const event of completion) {
+            if (event.type === 'text') {
+              responseLength += event.content.length;
+              send({ type: 'token', content: event.content });
+            } else {
+              toolCalls.push(event.call);
+            }
+          }
+
+          console.log('최종 응답 길이:', responseLength);
+
+          // 도구 호출은 실행하지 않고 사용자 승인을 기다리는 변경 제안으로 전달
+          if (toolCalls.length > 0 && notion && schema) {
+            const proposals: NotionActionProposal[] = [];
+            const failures: string[] = [];
+
+            for (const call of toolCalls) {
+              try {
+                const proposal = await prepareNotionAction(notion, schema, toolCallToAction(call.name, call.arguments), call.id);
+                proposals.push({ ...proposal, sourceId: targetSource.id });
+              } catch (actionError) {
+                console.warn('Notion 변경 제안 실패:', call.name, actionError);
+                failures.push(actionError instanceof Error ? actionError.message : String(actionError));
+              }
+            }
+
+            const notice = [
+              ...(proposals.length > 0 ? ['아래 변경 내용을 확인하고 승인하면 Notion에 반영됩니다.'] : []),
+              ...failures.map(failure => `⚠️ 변경을 제안할 수 없습니다: ${failure}`),
+            ].join('\n\n');
+            send({ type: 'token', content: `${responseLength > 0 ? '\n\n' : ''}${notice}` });
+
+            if (proposals.length > 0) {
+              console.log('Notion 변경 제안:', proposals.map(proposal => proposal.description));
+              send({ type: 'proposal', proposals });
+            }
+          }
+
+          // 메타데이터는 마지막 이벤트로 전달
+          send({
+            type: 'done',
+            searchInfo,
+            ragUsed: ragSuccess,
+            contextLength: contextData.length,
+            sources,
+            searchQueries,
+            summary: conversation.summary,
+          });
+        } catch (streamError) {
+          if (abortController.signal.aborted) {
+            console.log(`응답 생성이 중단되었습니다. (${responseLength}자 생성됨)`);
+          } else {
+            console.error('스트리밍 오류:', streamError);
+            send({
+              type: 'error',
+              error: streamError instanceof Error ? streamError.message : '응답 생성 중 오류가 발생했습니다.',
+            });
+          }
+        } finally {
+          try {
+            controller.close();
+          } catch {
+            // 이미 취소된 스트림은 닫을 필요 없음
+          }
+        }
+      },
+      cancel() {
+        abortController.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
     });
   } catch (error) {
     console.error('=== Chat API 오류 발생 ===');
@@ -368,10 +389,10 @@ ${contextData}
     console.error('오류 메시지:', error instanceof Error ? error.message : String(error));
     console.error('오류 스택:', error instanceof Error ? error.stack : 'No stack trace');
     
-    // OpenAI API 오류인 경우 더 자세한 정보
+    // 모델 API 오류인 경우 더 자세한 정보
     if (error && typeof error === 'object' && 'response' in error) {
-      console.error('OpenAI API 응답 상태:', (error as any).response?.status); // eslint-disable-line @typescript-eslint/no-explicit-any
-      console.error('OpenAI API 응답 데이터:', (error as any).response?.data); // eslint-disable-line @typescript-eslint/no-explicit-any
+      console.error('모델 API 응답 상태:', (error as any).response?.status); // eslint-disable-line @typescript-eslint/no-explicit-any
+      console.error('모델 API 응답 데이터:', (error as any).response?.data); // eslint-disable-line @typescript-eslint/no-explicit-any
     }
     
     return NextResponse.json(
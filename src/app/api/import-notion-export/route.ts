@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRAGSystem, SyncResult } from '@/lib/rag';
+import { DataSource, createDataSourceId, getDataSources, isExportSource } from '@/lib/data-sources';
+import { getRequestSecrets } from '@/lib/secret-store';
+import { createEmbeddingProvider, resolveEmbeddingConfig } from '@/lib/embeddings';
+import { createVectorStore, resolveVectorStoreId } from '@/lib/vector-store';
+import { normalizePage } from '@/lib/notion';
+import { parseNotionExport } from '@/lib/notion-export';
+import { authorizeRequest } from '@/lib/auth';
+
+// 업로드할 수 있는 내보내기 압축 파일 크기
+const MAX_EXPORT_SIZE = 100 * 1024 * 1024;
+
+/**
+ * Notion "내보내기 → Markdown & CSV" 압축 파일을 데이터 소스로 가져와 인덱싱
+ *
+ * 폼 데이터의 `file`에 압축 파일, `settings`에 임베딩/벡터 저장소 설정과 데이터 소스 목록(JSON)을 받습니다.
+ * 같은 데이터베이스를 다시 가져오면 기존 소스에 변경분만 반영합니다.
+ */
+export async function POST(request: NextRequest) {
+  const denied = authorizeRequest(request, 'admin');
+  if (denied) return denied;
+
+  try {
+    console.log('Notion 내보내기 가져오기 시작...');
+
+    const form = await request.formData();
+    const file = form.get('file');
+    const body = parseSettings(form.get('settings'));
+    const secrets = getRequestSecrets(request);
+
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json(
+        { success: false, error: '가져올 Notion 내보내기 파일(.zip)이 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_EXPORT_SIZE) {
+      return NextResponse.json(
+        { success: false, error: `내보내기 파일은 ${MAX_EXPORT_SIZE / 1024 / 1024}MB 이하만 가져올 수 있습니다.` },
+        { status: 400 }
+      );
+    }
+
+    let embeddingConfig;
+    let vectorStore;
+    try {
+      embeddingConfig = resolveEmbeddingConfig(body, secrets);
+      vectorStore = createVectorStore(resolveVectorStoreId(body));
+    } catch (configError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: configError instanceof Error ? configError.message : '임베딩 또는 벡터 저장소 설정이 올바르지 않습니다.',
+        },
+        { status: 400 }
+      );
+    }
+
+    let exported;
+    try {
+      exported = await parseNotionExport(Buffer.from(await file.arrayBuffer()));
+    } catch (parseError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: parseError instanceof Error ? parseError.message : '내보내기 파일을 읽지 못했습니다.',
+        },
+        { status: 400 }
+      );
+    }
+
+    const ragSystem = await getRAGSystem();
+    ragSystem.setEmbeddingProvider(createEmbeddingProvider(embeddingConfig));
+    ragSystem.setVectorStore(vectorStore);
+
+    // 인덱스를 다시 만들면 다른 소스의 페이지가 빠지므로, 전체 재생성은 모든 소스를 동기화하는 업데이트에서만 함
+    if (ragSystem.needsRebuild()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '임베딩 모델이나 벡터 저장소가 현재 인덱스와 다릅니다. 먼저 "Notion & RAG 업데이트"로 인덱스를 다시 만든 뒤 가져와주세요.',
+        },
+        { status: 409 }
+      );
+    }
+
+    // 이전에 가져온 같은 데이터베이스는 같은 소스로 갱신 (이름과 속성 매핑 유지)
+    const existingSources = getDataSources(body).filter(isExportSource);
+    const importedAt = new Date().toISOString();
+    const syncResult: SyncResult = { added: 0, updated: 0, deleted: 0, unchanged: 0, embeddedChunks: 0 };
+    const sourceResults: Array<{ id: string; name: string } & SyncResult> = [];
+    const dataSources: DataSource[] = [];
+
+    for (const database of exported.databases) {
+      const previous = existingSources.find(source => source.databaseId === database.id);
+      const source: DataSource = previous
+        ? { ...previous, importedAt }
+        : { id: createDataSourceId(), name: database.title, databaseId: database.id, enabled: true, kind: 'export', importedAt };
+      console.log(`"${database.title}" 내보내기에서 ${database.pages.length}개 페이지를 읽었습니다.`);
+
+      const result = await ragSystem.syncPages(database.pages, async (changedPages) =>
+        changedPages.map(page =>
+          normalizePage(page, {
+            content: exported.contents.get(page.id),
+            relationTitles: exported.relationTitles,
+            propertyMapping: source.propertyMapping,
+          })
+        ), { id: source.id, name: source.name }, { storePages: true });
+      console.log(`"${source.name}" 가져오기 결과:`, result);
+
+      dataSources.push(source);
+      sourceResults.push({ id: source.id, name: source.name, ...result });
+      for (const key of Object.keys(syncResult) as Array<keyof SyncResult>) {
+        syncResult[key] += result[key];
+      }
+    }
+
+    await ragSystem.saveToLocalStorage();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Notion 내보내기를 가져왔습니다.',
+      status: ragSystem.getStatus(),
+      sync: syncResult,
+      sources: sourceResults,
+      dataSources,
+    });
+
+  } catch (error) {
+    console.error('Notion 내보내기 가져오기 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function parseSettings(value: FormDataEntryValue | null): Record<string, unknown> {
+  if (typeof value !== 'string') return {};
+
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
@@ -1,146 +1,125 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { RAGSystem } from '@/lib/rag';
+import { getRAGSystem, SyncResult } from '@/lib/rag';
+import { getDataSources, isExportSource } from '@/lib/data-sources';
+import { getRequestSecrets } from '@/lib/secret-store';
+import { createEmbeddingProvider, resolveEmbeddingConfig } from '@/lib/embeddings';
+import { createVectorStore, resolveVectorStoreId } from '@/lib/vector-store';
+import { buildTitleMap, normalizePage, queryDatabasePages } from '@/lib/notion';
+import { fetchPagesContent } from '@/lib/notion-blocks';
 import { Client } from '@notionhq/client';
-
-// 간단한 Notion 속성 타입 정의
-interface SimpleNotionProperty {
-  type: string;
-  title?: Array<{ plain_text: string }>;
-  rich_text?: Array<{ plain_text: string }>;
-}
+import { authorizeRequest } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
+  const denied = authorizeRequest(request, 'admin');
+  if (denied) return denied;
+
   try {
-    console.log('RAG 시스템 초기화 시작...');
-    
+    console.log('RAG 인덱스 동기화 시작...');
+
     const body = await request.json();
-    const { openaiApiKey, notionApiKey, notionDatabaseId } = body;
+    // API 키는 클라이언트에서 받지 않고 워크스페이스 키 저장소나 환경 변수에서 가져옴
+    const secrets = getRequestSecrets(request);
+    const { notionApiKey } = secrets;
+    const enabledSources = getDataSources({ notionDatabaseId: process.env.NOTION_DATABASE_ID, ...body })
+      .filter(source => source.enabled);
+    // 내보내기에서 가져온 소스는 Notion에서 가져오지 않고 인덱스에 보관한 페이지로 동기화
+    const dataSources = enabledSources.filter(source => source.databaseId && !isExportSource(source));
+    const exportSources = enabledSources.filter(isExportSource);
 
-    if (!openaiApiKey) {
+    // 임베딩 모델과 벡터 저장소는 요청 설정을 따르며, 인덱스와 다르면 전체를 다시 만듦
+    let embeddingConfig;
+    let vectorStore;
+    try {
+      embeddingConfig = resolveEmbeddingConfig(body, secrets);
+      vectorStore = createVectorStore(resolveVectorStoreId(body));
+    } catch (configError) {
       return NextResponse.json(
         {
           success: false,
-          error: 'OpenAI API 키가 필요합니다.',
+          error: configError instanceof Error ? configError.message : '임베딩 또는 벡터 저장소 설정이 올바르지 않습니다.',
         },
         { status: 400 }
       );
     }
 
-    if (!notionApiKey || !notionDatabaseId) {
+    if ((!notionApiKey && dataSources.length > 0) || dataSources.length + exportSources.length === 0) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Notion API 키와 데이터베이스 ID가 필요합니다.',
+          error: 'Notion API 키와 사용 중인 데이터 소스가 하나 이상 필요합니다.',
         },
         { status: 400 }
       );
     }
-    
-    const ragSystem = new RAGSystem();
-    ragSystem.initializeOpenAI(openaiApiKey);
-    
-    // 서버리스 환경에서는 매번 새로 초기화
-    // (임시 디렉토리도 요청 간에 유지되지 않음)
-    console.log('서버리스 환경에서 RAG 시스템을 새로 초기화합니다.');
-    
-    // 노션 데이터 직접 가져오기 (내부 API 호출 대신)
+
+    // 저장된 인덱스를 불러온 공유 인스턴스에 변경분만 반영
+    const ragSystem = await getRAGSystem();
+    ragSystem.setEmbeddingProvider(createEmbeddingProvider(embeddingConfig));
+    ragSystem.setVectorStore(vectorStore);
+
     console.log('노션 데이터를 가져오는 중...');
     const notion = new Client({
       auth: notionApiKey,
     });
 
-    // 데이터베이스 쿼리 실행
-    let allResults: unknown[] = [];
-    let hasMore = true;
-    let nextCursor: string | undefined = undefined;
-
-    while (hasMore) {
-      const response = await notion.databases.query({
-        database_id: notionDatabaseId,
-        start_cursor: nextCursor,
-        page_size: 100,
-      });
-
-      allResults = allResults.concat(response.results);
-      hasMore = response.has_more;
-      nextCursor = response.next_cursor || undefined;
+    // 꺼지거나 삭제된 소스의 페이지는 먼저 인덱스에서 제거
+    const prunedPages = await ragSystem.pruneSources(enabledSources.map(source => source.id));
+    const syncResult: SyncResult = { added: 0, updated: 0, deleted: prunedPages, unchanged: 0, embeddedChunks: 0 };
+    const sourceResults: Array<{ id: string; name: string } & SyncResult> = [];
+
+    for (const source of dataSources) {
+      const pages = await queryDatabasePages(notion, source.databaseId);
+      console.log(`"${source.name}" 데이터베이스에서 ${pages.length}개 페이지를 가져왔습니다.`);
+
+      const relationTitles = buildTitleMap(pages);
+      // 본문은 변경된 페이지에 대해서만 가져옴
+      const result = await ragSystem.syncPages(pages, async (changedPages) => {
+        const contents = await fetchPagesContent(notion, changedPages.map(page => page.id));
+        return changedPages.map(page =>
+          normalizePage(page, {
+            content: contents.get(page.id),
+            relationTitles,
+            propertyMapping: source.propertyMapping,
+          })
+        );
+      }, { id: source.id, name: source.name });
+      console.log(`"${source.name}" 동기화 결과:`, result);
+
+      sourceResults.push({ id: source.id, name: source.name, ...result });
+      for (const key of Object.keys(syncResult) as Array<keyof SyncResult>) {
+        syncResult[key] += result[key];
+      }
     }
 
-    // 간단한 텍스트 추출 함수
-    const extractSimpleText = (page: unknown): string => {
-      const pageObj = page as Record<string, unknown>;
-      const properties = pageObj.properties as Record<string, unknown>;
-      
-      let text = '';
-      
-      // 제목 추출
-      for (const [, value] of Object.entries(properties)) {
-        const prop = value as SimpleNotionProperty;
-        if (prop.type === 'title' && prop.title) {
-          const title = prop.title.map((t) => t.plain_text).join('');
-          text += `제목: ${title}\n`;
-          break;
-        }
+    // 인덱스를 다시 만든 경우 보관한 페이지로 다시 임베딩 (변경이 없으면 그대로 유지)
+    const reuploadSources: string[] = [];
+    for (const source of exportSources) {
+      const result = await ragSystem.syncStoredSource({ id: source.id, name: source.name });
+      if (!result) {
+        console.warn(`"${source.name}" 내보내기의 보관된 페이지가 없어 다시 가져와야 합니다.`);
+        reuploadSources.push(source.name);
+        continue;
       }
-      
-      // 기본 속성들 추출
-      for (const [key, value] of Object.entries(properties)) {
-        const prop = value as SimpleNotionProperty;
-        if (prop.type === 'rich_text' && prop.rich_text && prop.rich_text.length > 0) {
-          const content = prop.rich_text.map((t) => t.plain_text).join('');
-          if (content) {
-            text += `${key}: ${content}\n`;
-          }
-        }
+
+      sourceResults.push({ id: source.id, name: source.name, ...result });
+      for (const key of Object.keys(syncResult) as Array<keyof SyncResult>) {
+        syncResult[key] += result[key];
       }
-      
-      text += `생성일: ${new Date(pageObj.created_time as string).toLocaleString('ko-KR')}\n`;
-      text += `마지막 수정: ${new Date(pageObj.last_edited_time as string).toLocaleString('ko-KR')}\n`;
-      text += '---\n';
-      
-      return text;
-    };
-
-    const notionData = allResults.map(extractSimpleText).join('\n');
-    
-    if (!notionData.trim()) {
-      throw new Error('노션 데이터가 비어있습니다.');
     }
-    
-    console.log(`노션 데이터를 처리 중... (${allResults.length}개 항목)`);
-    
-    // 노션 API에서 받은 텍스트 데이터를 RAG용 객체 배열로 변환
-    const notionPages = [{
-      id: 'notion-data',
-      properties: {
-        title: {
-          title: [{ plain_text: '노션 데이터베이스' }]
-        }
-      },
-      content: notionData,
-      last_edited_time: new Date().toISOString(),
-      url: `https://notion.so/${notionDatabaseId}`
-    }];
-    
-    // 노션 데이터를 청크로 분할
-    const chunks = await ragSystem.processNotionData(notionPages);
-    console.log(`${chunks.length}개의 청크를 생성했습니다.`);
-    
-    // 임베딩 생성
-    await ragSystem.generateEmbeddings();
-    console.log('임베딩 생성 완료');
-    
-    // 서버리스 환경에서는 메모리에만 유지
-    console.log('RAG 시스템이 메모리에 준비되었습니다.');
-    
+
+    await ragSystem.saveToLocalStorage();
+
     const status = ragSystem.getStatus();
-    
+
     return NextResponse.json({
       success: true,
-      message: 'RAG 시스템이 성공적으로 초기화되었습니다.',
+      message: 'RAG 인덱스가 성공적으로 동기화되었습니다.',
       status,
+      sync: syncResult,
+      sources: sourceResults,
+      reuploadSources,
     });
-    
+
   } catch (error) {
     console.error('RAG 초기화 오류:', error);
     return NextResponse.json(
@@ -153,12 +132,14 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const denied = authorizeRequest(request, 'admin');
+  if (denied) return denied;
+
   try {
-    const ragSystem = new RAGSystem();
-    await ragSystem.loadFromLocalStorage();
+    const ragSystem = await getRAGSystem();
     const status = ragSystem.getStatus();
-    
+
     return NextResponse.json({
       success: true,
       status,
@@ -173,4 +154,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Client } from '@notionhq/client';
+import { retrieveDatabaseSchema } from '@/lib/notion';
+import { getDataSources, isExportSource, resolveSourceScope } from '@/lib/data-sources';
+import { getRequestSecrets } from '@/lib/secret-store';
+import { applyNotionAction, sanitizeNotionAction } from '@/lib/notion-actions';
+import { authorizeRequest } from '@/lib/auth';
+
+/**
+ * 사용자가 승인한 Notion 변경 적용
+ */
+export async function POST(request: NextRequest) {
+  const denied = authorizeRequest(request, 'admin');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const settings = body.settings && typeof body.settings === 'object' ? body.settings : {};
+    const { notionApiKey } = getRequestSecrets(request);
+
+    // 제안을 만든 데이터 소스의 데이터베이스에 적용 (지정하지 않으면 첫 번째 소스)
+    const sources = resolveSourceScope(getDataSources({ notionDatabaseId: process.env.NOTION_DATABASE_ID, ...settings }))
+      .filter(source => !isExportSource(source));
+    const source = body.sourceId ? sources.find(item => item.id === body.sourceId) : sources[0];
+
+    if (!notionApiKey || !source) {
+      return NextResponse.json(
+        { error: 'Notion API 키와 데이터베이스 ID가 필요합니다.' },
+        { status: 400 }
+      );
+    }
+
+    const action = sanitizeNotionAction(body.action);
+    if (!action) {
+      return NextResponse.json(
+        { error: '변경 내용이 올바르지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    const notion = new Client({ auth: notionApiKey });
+    const schema = await retrieveDatabaseSchema(notion, source.databaseId);
+    const result = await applyNotionAction(notion, schema, action);
+
+    console.log('Notion 변경 적용:', source.name, action.type, result.pageId);
+
+    return NextResponse.json({
+      success: true,
+      result,
+    });
+  } catch (error) {
+    console.error('Notion 변경 적용 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    );
+  }
+}
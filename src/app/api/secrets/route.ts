@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  SECRET_NAMES,
+  WorkspaceSecrets,
+  deleteWorkspaceSecrets,
+  getSecretStatus,
+  isSecretStoreEnabled,
+  saveWorkspaceSecrets,
+} from '@/lib/secret-store';
+import { WORKSPACE_HEADER } from '@/lib/workspace';
+import { authorizeRequest } from '@/lib/auth';
+
+/**
+ * 워크스페이스의 키 설정 상태 (키 값은 돌려주지 않음)
+ */
+export async function GET(request: NextRequest) {
+  const denied = authorizeRequest(request, 'admin');
+  if (denied) return denied;
+
+  try {
+    const workspaceId = request.headers.get(WORKSPACE_HEADER);
+
+    return NextResponse.json({
+      success: true,
+      storeEnabled: isSecretStoreEnabled(),
+      secrets: getSecretStatus(workspaceId),
+    });
+  } catch (error) {
+    console.error('키 상태 확인 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 설정 페이지에서 입력한 키를 암호화해 저장하고 워크스페이스 ID 반환
+ */
+export async function POST(request: NextRequest) {
+  const denied = authorizeRequest(request, 'admin');
+  if (denied) return denied;
+
+  try {
+    if (!isSecretStoreEnabled()) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '서버에 SECRET_STORE_KEY가 설정되지 않아 키를 저장할 수 없습니다. 환경 변수로 키를 설정해주세요.',
+        },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const updates: WorkspaceSecrets = {};
+    for (const name of SECRET_NAMES) {
+      if (typeof body[name] === 'string') {
+        updates[name] = body[name];
+      }
+    }
+
+    const workspaceId = saveWorkspaceSecrets(request.headers.get(WORKSPACE_HEADER), updates);
+    console.log('워크스페이스 키 저장:', Object.keys(updates));
+
+    return NextResponse.json({
+      success: true,
+      workspaceId,
+      secrets: getSecretStatus(workspaceId),
+    });
+  } catch (error) {
+    console.error('키 저장 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 워크스페이스에 저장된 키 삭제
+ */
+export async function DELETE(request: NextRequest) {
+  const denied = authorizeRequest(request, 'admin');
+  if (denied) return denied;
+
+  try {
+    const workspaceId = request.headers.get(WORKSPACE_HEADER);
+    const deleted = workspaceId ? deleteWorkspaceSecrets(workspaceId) : false;
+
+    return NextResponse.json({
+      success: true,
+      deleted,
+    });
+  } catch (error) {
+    console.error('키 삭제 오류:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,417 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, CalendarDays, ChevronLeft, ChevronRight, ExternalLink, MessageCircle, RefreshCw, X } from 'lucide-react';
+import { CalendarEvent, getEventDays } from '@/lib/calendar';
+import { formatDate } from '@/lib/date-range';
+
+type CalendarView = 'month' | 'week' | 'agenda';
+
+const VIEW_LABELS: Record<CalendarView, string> = {
+  month: '월',
+  week: '주',
+  agenda: '목록',
+};
+
+const WEEKDAY_LABELS = ['월', '화', '수', '목', '금', '토', '일'];
+const AGENDA_DAYS = 30;
+const MAX_EVENT_DAYS = 366; // 잘못 입력된 긴 기간이 달력 전체를 채우지 않도록 제한
+const MONTH_CELL_EVENTS = 3;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// 한 주는 월요일부터 시작
+const startOfWeek = (date: Date) => addDays(date, -((date.getDay() + 6) % 7));
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' });
+
+const formatEventDate = (event: CalendarEvent) => {
+  const format = (value: string) => event.allDay
+    ? value.slice(0, 10)
+    : new Date(value).toLocaleString('ko-KR', { dateStyle: 'medium', timeStyle: 'short' });
+
+  return event.end ? `${format(event.start)} ~ ${format(event.end)}` : format(event.start);
+};
+
+// 속성 값을 상세 정보에 표시할 문자열로 변환
+const formatPropertyValue = (value: unknown): string => {
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? '예' : '아니오';
+  return String(value);
+};
+
+export default function CalendarPage() {
+  const router = useRouter();
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<string | null>(null);
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => startOfDay(new Date()));
+  const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
+
+  useEffect(() => {
+    loadEvents();
+  }, []);
+
+  const loadEvents = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // 설정에서 고른 날짜 속성이 있으면 그 속성으로 일정을 만듦
+      const savedSettings = localStorage.getItem('notion-chatbot-settings');
+      const dateProperty = savedSettings ? JSON.parse(savedSettings).calendarDateProperty : '';
+      const response = await fetch(`/api/calendar${dateProperty ? `?dateProperty=${encodeURIComponent(dateProperty)}` : ''}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || '일정을 불러오지 못했습니다.');
+      }
+
+      setEvents(result.events);
+      setLastUpdated(result.lastUpdated);
+    } catch (error) {
+      console.error('캘린더 일정 조회 오류:', error);
+      setError(error instanceof Error ? error.message : '알 수 없는 오류가 발생했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 날짜(YYYY-MM-DD)별 일정 목록 (여러 날에 걸친 일정은 각 날짜에 모두 표시)
+  const eventsByDay = useMemo(() => {
+    const map = new Map<string, CalendarEvent[]>();
+
+    for (const event of events) {
+      const { start, end } = getEventDays(event);
+      for (let day = start, count = 0; day <= end && count < MAX_EVENT_DAYS; day = addDays(day, 1), count++) {
+        const key = formatDate(day);
+        map.set(key, [...(map.get(key) || []), event]);
+      }
+    }
+
+    return map;
+  }, [events]);
+
+  const today = formatDate(new Date());
+
+  const moveCursor = (direction: number) => {
+    setCursor(prev => {
+      if (view === 'month') return new Date(prev.getFullYear(), prev.getMonth() + direction, 1);
+      if (view === 'week') return addDays(prev, direction * 7);
+      return addDays(prev, direction * AGENDA_DAYS);
+    });
+  };
+
+  const periodTitle = () => {
+    if (view === 'month') {
+      return `${cursor.getFullYear()}년 ${cursor.getMonth() + 1}월`;
+    }
+    if (view === 'week') {
+      const weekStart = startOfWeek(cursor);
+      return `${formatDate(weekStart)} ~ ${formatDate(addDays(weekStart, 6))}`;
+    }
+    return `${formatDate(cursor)} ~ ${formatDate(addDays(cursor, AGENDA_DAYS - 1))}`;
+  };
+
+  const askAboutEvent = (event: CalendarEvent) => {
+    const question = `"${event.title}" 일정(${formatEventDate(event)})에 대해 자세히 알려줘`;
+    router.push(`/?q=${encodeURIComponent(question)}`);
+  };
+
+  const renderEventChip = (event: CalendarEvent) => (
+    <button
+      key={event.id}
+      onClick={() => setSelectedEvent(event)}
+      className="w-full text-left text-xs px-2 py-1 rounded-md bg-indigo-100 text-indigo-800 hover:bg-indigo-200 truncate transition-colors"
+      title={event.title}
+    >
+      {!event.allDay && <span className="font-semibold mr-1">{formatTime(event.start)}</span>}
+      {event.title}
+    </button>
+  );
+
+  const renderMonthView = () => {
+    const monthStart = new Date(cursor.getFullYear(), cursor.getMonth(), 1);
+    const gridStart = startOfWeek(monthStart);
+    const days = Array.from({ length: 42 }, (_, index) => addDays(gridStart, index));
+
+    return (
+      <div className="grid grid-cols-7 gap-px bg-gray-200/60 rounded-xl overflow-hidden">
+        {WEEKDAY_LABELS.map(label => (
+          <div key={label} className="bg-white/80 text-center text-xs font-semibold text-gray-500 py-2">
+            {label}
+          </div>
+        ))}
+        {days.map(day => {
+          const key = formatDate(day);
+          const dayEvents = eventsByDay.get(key) || [];
+          const isCurrentMonth = day.getMonth() === cursor.getMonth();
+
+          return (
+            <div key={key} className={`min-h-[6.5rem] p-1.5 space-y-1 ${isCurrentMonth ? 'bg-white/80' : 'bg-gray-50/80 text-gray-400'}`}>
+              <div className={`text-xs font-medium w-6 h-6 flex items-center justify-center rounded-full ${key === today ? 'bg-indigo-600 text-white' : ''}`}>
+                {day.getDate()}
+              </div>
+              {dayEvents.slice(0, MONTH_CELL_EVENTS).map(renderEventChip)}
+              {dayEvents.length > MONTH_CELL_EVENTS && (
+                <button
+                  onClick={() => {
+                    setCursor(day);
+                    setView('agenda');
+                  }}
+                  className="text-xs text-gray-500 hover:text-indigo-700 px-2"
+                >
+                  +{dayEvents.length - MONTH_CELL_EVENTS}개 더보기
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderWeekView = () => {
+    const weekStart = startOfWeek(cursor);
+    const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-7 gap-3">
+        {days.map((day, index) => {
+          const key = formatDate(day);
+          const dayEvents = eventsByDay.get(key) || [];
+
+          return (
+            <div key={key} className={`rounded-xl p-3 min-h-[12rem] space-y-2 ${key === today ? 'bg-indigo-50 border border-indigo-200' : 'bg-white/60 border border-gray-200/50'}`}>
+              <div className="text-sm font-semibold text-gray-700">
+                {WEEKDAY_LABELS[index]} <span className="text-gray-500 font-normal">{day.getMonth() + 1}/{day.getDate()}</span>
+              </div>
+              {dayEvents.length === 0 ? (
+                <p className="text-xs text-gray-400">일정 없음</p>
+              ) : (
+                dayEvents.map(renderEventChip)
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderAgendaView = () => {
+    const days = Array.from({ length: AGENDA_DAYS }, (_, index) => addDays(cursor, index))
+      .map(day => ({ day, events: eventsByDay.get(formatDate(day)) || [] }))
+      .filter(item => item.events.length > 0);
+
+    if (days.length === 0) {
+      return <p className="text-center text-gray-500 py-12">이 기간에는 일정이 없습니다.</p>;
+    }
+
+    return (
+      <div className="space-y-4">
+        {days.map(({ day, events: dayEvents }) => (
+          <div key={formatDate(day)} className="flex space-x-4">
+            <div className={`w-24 shrink-0 text-sm font-semibold ${formatDate(day) === today ? 'text-indigo-600' : 'text-gray-700'}`}>
+              {day.getMonth() + 1}월 {day.getDate()}일
+              <div className="text-xs font-normal text-gray-500">{WEEKDAY_LABELS[(day.getDay() + 6) % 7]}요일</div>
+            </div>
+            <div className="flex-1 space-y-2">
+              {dayEvents.map(event => (
+                <button
+                  key={event.id}
+                  onClick={() => setSelectedEvent(event)}
+                  className="w-full text-left bg-white/70 hover:bg-white border border-gray-200/50 rounded-xl px-4 py-3 transition-all duration-200 hover:shadow-md"
+                >
+                  <div className="font-medium text-gray-900">{event.title}</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {event.allDay ? '종일' : formatTime(event.start)} · {event.dateProperty}
+                    {event.end && ` · ${formatEventDate(event)}`}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/50 to-indigo-100/60 relative overflow-hidden">
+      {/* Background Elements */}
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute -top-4 -right-4 w-96 h-96 bg-gradient-to-br from-blue-400/20 to-indigo-600/20 rounded-full blur-3xl animate-float"></div>
+        <div className="absolute -bottom-8 -left-8 w-96 h-96 bg-gradient-to-tr from-purple-400/20 to-pink-600/20 rounded-full blur-3xl animate-float" style={{animationDelay: '3s'}}></div>
+      </div>
+
+      {/* Header */}
+      <header className="glass-effect border-b border-white/20 backdrop-blur-xl sticky top-0 z-40">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => router.push('/')}
+              className="p-3 text-gray-600 hover:text-gray-800 hover:bg-white/80 rounded-xl transition-all duration-200 hover:shadow-lg"
+              title="채팅으로 돌아가기"
+            >
+              <ArrowLeft size={20} />
+            </button>
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-indigo-600 to-purple-600 rounded-xl flex items-center justify-center">
+                <CalendarDays className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+                  캘린더
+                </h1>
+                <p className="text-sm text-gray-500">
+                  {lastUpdated ? `인덱스 기준: ${new Date(lastUpdated).toLocaleString('ko-KR')}` : 'Notion 일정 보기'}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 relative z-10">
+        <div className="card p-6">
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => moveCursor(-1)}
+                className="p-2 text-gray-600 hover:text-gray-800 hover:bg-white/80 rounded-xl transition-all duration-200"
+                title="이전"
+              >
+                <ChevronLeft size={20} />
+              </button>
+              <button
+                onClick={() => setCursor(startOfDay(new Date()))}
+                className="btn-secondary !py-1.5 !px-4 text-sm"
+              >
+                오늘
+              </button>
+              <button
+                onClick={() => moveCursor(1)}
+                className="p-2 text-gray-600 hover:text-gray-800 hover:bg-white/80 rounded-xl transition-all duration-200"
+                title="다음"
+              >
+                <ChevronRight size={20} />
+              </button>
+              <h2 className="text-xl font-bold text-gray-900 ml-2">{periodTitle()}</h2>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <div className="flex bg-gray-100 rounded-xl p-1">
+                {(Object.keys(VIEW_LABELS) as CalendarView[]).map(item => (
+                  <button
+                    key={item}
+                    onClick={() => setView(item)}
+                    className={`px-4 py-1.5 text-sm rounded-lg transition-all duration-200 ${
+                      view === item ? 'bg-white text-indigo-700 shadow font-semibold' : 'text-gray-600 hover:text-gray-800'
+                    }`}
+                  >
+                    {VIEW_LABELS[item]}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={loadEvents}
+                disabled={isLoading}
+                className="p-2 text-gray-600 hover:text-gray-800 hover:bg-white/80 rounded-xl transition-all duration-200 disabled:opacity-50"
+                title="새로고침"
+              >
+                <RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} />
+              </button>
+            </div>
+          </div>
+
+          {error ? (
+            <div className="text-center py-12">
+              <p className="text-red-600 mb-4">{error}</p>
+              <button onClick={loadEvents} className="btn-secondary">다시 시도</button>
+            </div>
+          ) : !isLoading && events.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-600 mb-4">
+                날짜 속성이 있는 페이지가 인덱스에 없습니다.
+                <br />설정 페이지에서 &quot;Notion &amp; RAG 업데이트&quot;를 실행해주세요.
+              </p>
+              <button onClick={() => router.push('/settings')} className="btn-primary">설정으로 이동</button>
+            </div>
+          ) : (
+            <>
+              {view === 'month' && renderMonthView()}
+              {view === 'week' && renderWeekView()}
+              {view === 'agenda' && renderAgendaView()}
+            </>
+          )}
+        </div>
+      </main>
+
+      {/* Event Detail */}
+      {selectedEvent && (
+        <div
+          className="fixed inset-0 bg-black/30 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={() => setSelectedEvent(null)}
+        >
+          <div className="card p-6 w-full max-w-md" onClick={event => event.stopPropagation()}>
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-xl font-bold text-gray-900">{selectedEvent.title}</h3>
+                <p className="text-sm text-gray-500 mt-1">
+                  {selectedEvent.dateProperty}: {formatEventDate(selectedEvent)}
+                </p>
+              </div>
+              <button
+                onClick={() => setSelectedEvent(null)}
+                className="p-1 text-gray-400 hover:text-gray-600 rounded-lg"
+                title="닫기"
+              >
+                <X size={18} />
+              </button>
+            </div>
+
+            <dl className="space-y-1 text-sm mb-6">
+              {Object.entries(selectedEvent.properties)
+                .filter(([key]) => key !== selectedEvent.dateProperty && !key.endsWith('_end'))
+                .map(([key, value]) => (
+                  <div key={key} className="flex space-x-2">
+                    <dt className="text-gray-500 shrink-0">{key}</dt>
+                    <dd className="text-gray-800 break-words">{formatPropertyValue(value)}</dd>
+                  </div>
+                ))}
+            </dl>
+
+            <div className="flex space-x-3">
+              {selectedEvent.url && (
+                <a
+                  href={selectedEvent.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="btn-secondary flex-1 flex items-center justify-center space-x-2"
+                >
+                  <ExternalLink size={16} />
+                  <span>Notion에서 열기</span>
+                </a>
+              )}
+              <button
+                onClick={() => askAboutEvent(selectedEvent)}
+                className="btn-primary flex-1 flex items-center justify-center space-x-2"
+              >
+                <MessageCircle size={16} />
+                <span>챗봇에 질문하기</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Sparkles, LogIn, KeyRound, AlertCircle } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { safeRedirectPath } from '@/lib/session';
+
+interface LoginProviders {
+  local: boolean;
+  oidc: { id: string; name: string } | null;
+}
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [providers, setProviders] = useState<LoginProviders | null>(null);
+  const [nextPath, setNextPath] = useState('/');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    // OIDC 콜백에서 실패하면 `?error=`로 돌아옴
+    const params = new URLSearchParams(window.location.search);
+    setNextPath(safeRedirectPath(params.get('next')));
+    if (params.get('error')) {
+      setError(params.get('error'));
+    }
+
+    const loadSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session');
+        const data = await response.json();
+
+        if (!data.authEnabled || data.user) {
+          // 로그인을 쓰지 않거나 이미 로그인한 경우
+          router.replace(safeRedirectPath(params.get('next')));
+          return;
+        }
+        setProviders(data.providers);
+      } catch {
+        setError('로그인 정보를 불러오지 못했습니다.');
+      }
+    };
+    loadSession();
+  }, [router]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || '로그인에 실패했습니다.');
+      }
+      router.replace(nextPath);
+    } catch (loginError) {
+      setError(loginError instanceof Error ? loginError.message : '로그인에 실패했습니다.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/50 to-indigo-100/60 flex items-center justify-center px-4">
+      <div className="card p-8 w-full max-w-md">
+        <div className="flex items-center space-x-3 mb-8">
+          <div className="w-12 h-12 bg-gradient-to-br from-indigo-600 to-purple-600 rounded-2xl flex items-center justify-center">
+            <Sparkles className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">로그인</h1>
+            <p className="text-gray-600">Notion 챗봇을 사용하려면 로그인하세요</p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 flex items-start space-x-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-xl p-3">
+            <AlertCircle size={16} className="mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {providers?.local && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">사용자 이름</label>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                className="input-field"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">비밀번호</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+                className="input-field"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="btn-primary w-full flex items-center justify-center space-x-2 disabled:opacity-50"
+            >
+              <LogIn size={18} />
+              <span>{isSubmitting ? '로그인 중...' : '로그인'}</span>
+            </button>
+          </form>
+        )}
+
+        {providers?.oidc && (
+          <a
+            href={`/api/auth/oidc?next=${encodeURIComponent(nextPath)}`}
+            className={`btn-secondary w-full flex items-center justify-center space-x-2 ${providers.local ? 'mt-4' : ''}`}
+          >
+            <KeyRound size={18} />
+            <span>{providers.oidc.name}(으)로 로그인</span>
+          </a>
+        )}
+
+        {providers && !providers.local && !providers.oidc && (
+          <p className="text-sm text-gray-600">
+            사용할 수 있는 로그인 방법이 없습니다. 서버에 AUTH_ADMIN_USERNAME/AUTH_ADMIN_PASSWORD 또는 OIDC 설정을 추가해주세요.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,24 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { Settings, Send, RotateCcw, Bot, User, Sparkles, MessageCircle, Zap, Database, Brain, Search, Clock } from 'lucide-react';
+import { Settings, Send, RotateCcw, Bot, User, Sparkles, MessageCircle, Zap, Database, Brain, Search, Clock, Square, ExternalLink, CalendarDays, Check, X, PencilLine, LogOut } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { useRouter } from 'next/navigation';
+import { createChatEventParser } from '@/lib/chat-stream';
+import type { ConversationSummary } from '@/lib/conversation';
+import type { SearchSource } from '@/lib/rag';
+import type { SearchQuery } from '@/lib/query-expansion';
+import type { NotionActionProposal } from '@/lib/notion-actions';
+import { DataSource, getDataSources } from '@/lib/data-sources';
+import { getPublicSettings, getWorkspaceHeaders } from '@/lib/workspace';
+import type { SessionUser } from '@/lib/session';
+
+// 변경 제안의 승인 진행 상태
+interface ProposalState extends NotionActionProposal {
+  status: 'pending' | 'applying' | 'applied' | 'rejected' | 'failed';
+  error?: string;
+}
 
 interface Message {
   id: string;
@@ -14,8 +28,34 @@ interface Message {
   searchInfo?: string;
   ragUsed?: boolean;
   contextLength?: number;
+  sources?: SearchSource[];
+  searchQueries?: SearchQuery[];
+  proposals?: ProposalState[];
+  isStreaming?: boolean;
+  isStopped?: boolean;
+  isError?: boolean;
 }
 
+const SEARCH_QUERY_LABELS: Record<SearchQuery['type'], string> = {
+  original: '검색 질문',
+  'multi-query': '다른 표현',
+  hyde: '가상 답변 (HyDE)'
+};
+
+// 답변의 [n] 인용 표시를 해당 Notion 페이지 링크로 변환 (코드 블록은 제외)
+const linkCitations = (content: string, sources: SearchSource[] = []): string => {
+  if (sources.length === 0) return content;
+
+  return content
+    .split(/(```[\s\S]*?```)/)
+    .map((part, index) => index % 2 === 1 ? part : part.replace(/\[(\d+)\](?!\()/g, (marker, number) => {
+      const source = sources.find(item => item.index === Number(number));
+      if (!source?.url) return marker;
+      return `[\\[${number}\\]](${source.url} "${source.title.replace(/"/g, "'")}")`;
+    }))
+    .join('');
+};
+
 const DEFAULT_QUESTIONS = [
   {
     icon: <MessageCircle className="w-5 h-5" />,
@@ -39,7 +79,12 @@ export default function Home() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [summary, setSummary] = useState<ConversationSummary | null>(null);
+  const [dataSources, setDataSources] = useState<DataSource[]>([]);
+  const [sourceScope, setSourceScope] = useState<string[]>([]); // 비어 있으면 전체 데이터 소스
+  const [auth, setAuth] = useState<{ enabled: boolean; user: SessionUser | null }>({ enabled: false, user: null });
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -49,6 +94,42 @@ export default function Home() {
     scrollToBottom();
   }, [messages]);
 
+  // 캘린더 등에서 `/?q=질문`으로 들어오면 입력창에 질문을 채워 둠
+  useEffect(() => {
+    const question = new URLSearchParams(window.location.search).get('q');
+    if (question) {
+      setInputValue(question);
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, []);
+
+  // 질문 범위 선택에 쓸 데이터 소스 목록
+  useEffect(() => {
+    const savedSettings = localStorage.getItem('notion-chatbot-settings');
+    if (savedSettings) {
+      setDataSources(getDataSources(JSON.parse(savedSettings)).filter(source => source.enabled));
+    }
+  }, []);
+
+  // 로그인한 사용자 (관리자에게만 설정 버튼 표시)
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(data => setAuth({ enabled: Boolean(data.authEnabled), user: data.user || null }))
+      .catch(() => {
+        // 확인하지 못하면 로그인하지 않은 것으로 표시
+      });
+  }, []);
+
+  const logout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    router.replace('/login');
+  };
+
+  const toggleSourceScope = (id: string) => {
+    setSourceScope(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
   const sendMessage = async (content: string) => {
     if (!content.trim()) return;
 
@@ -62,6 +143,11 @@ export default function Home() {
       timestamp: new Date()
     };
 
+    const assistantId = (Date.now() + 1).toString();
+    const updateAssistantMessage = (update: (message: Message) => Message) => {
+      setMessages(prev => prev.map(message => message.id === assistantId ? update(message) : message));
+    };
+
     setMessages(prev => [...prev, userMessage]);
     setInputValue('');
     setIsLoading(true);
@@ -74,16 +160,9 @@ export default function Home() {
       console.log('저장된 설정 있음:', !!savedSettings);
       console.log('Notion 데이터 길이:', notionData.length);
 
-      if (!savedSettings) {
-        throw new Error('설정이 저장되지 않았습니다. 설정 페이지에서 API 키를 설정해주세요.');
-      }
-
-      const settings = JSON.parse(savedSettings);
+      // API 키는 서버에 저장되어 있으므로 설정이 없어도 (환경 변수로 구성된 배포) 그대로 요청
+      const settings = savedSettings ? JSON.parse(savedSettings) : {};
       console.log('설정 키들:', Object.keys(settings));
-      
-      if (!settings.openaiApiKey) {
-        throw new Error('OpenAI API 키가 설정되지 않았습니다. 설정 페이지에서 API 키를 설정해주세요.');
-      }
 
       if (!notionData) {
         console.log('WARNING: Notion 데이터가 비어있음');
@@ -94,58 +173,181 @@ export default function Home() {
       }
 
       console.log('API 호출 준비...');
+      // 이전 대화 (오류 메시지 제외)와 서버가 돌려준 요약을 함께 전송
+      const history = messages
+        .filter(message => !message.isError && message.content)
+        .map(({ role, content }) => ({ role, content }));
+
       const requestBody = { 
         message: content.trim(),
         notionData: notionData,
+        history,
+        summary,
+        settings: getPublicSettings(settings),
+        sources: sourceScope.length > 0 ? sourceScope : undefined,
         useRAG: true // RAG 시스템 사용 활성화
       };
       console.log('요청 본문 크기:', JSON.stringify(requestBody).length);
 
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${btoa(encodeURIComponent(JSON.stringify(settings)))}`,
+          ...getWorkspaceHeaders(settings),
         },
         body: JSON.stringify(requestBody),
+        signal: abortController.signal,
       });
 
       console.log('API 응답 상태:', response.status);
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const errorData = await response.json();
         console.log('API 오류 응답:', errorData);
         throw new Error(errorData.error || 'AI 응답을 받는 중 오류가 발생했습니다.');
       }
 
-      const data = await response.json();
-      console.log('API 응답 데이터:', data);
-      
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
+      // 스트리밍 응답을 받을 빈 메시지를 먼저 추가
+      setMessages(prev => [...prev, {
+        id: assistantId,
         role: 'assistant',
-        content: data.message,
+        content: '',
         timestamp: new Date(),
-        searchInfo: data.searchInfo,
-        ragUsed: data.ragUsed,
-        contextLength: data.contextLength
-      };
+        isStreaming: true
+      }]);
+
+      const parseChunk = createChatEventParser((event) => {
+        switch (event.type) {
+          case 'token':
+            updateAssistantMessage(message => ({ ...message, content: message.content + event.content }));
+            break;
+          case 'done':
+            console.log('API 응답 메타데이터:', event);
+            setSummary(event.summary);
+            updateAssistantMessage(message => ({
+              ...message,
+              searchInfo: event.searchInfo,
+              ragUsed: event.ragUsed,
+              contextLength: event.contextLength,
+              sources: event.sources,
+              searchQueries: event.searchQueries
+            }));
+            break;
+          case 'proposal':
+            updateAssistantMessage(message => ({
+              ...message,
+              proposals: event.proposals.map(proposal => ({ ...proposal, status: 'pending' }))
+            }));
+            break;
+          case 'error':
+            throw new Error(event.error);
+        }
+      });
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parseChunk(decoder.decode(value, { stream: true }));
+      }
 
-      setMessages(prev => [...prev, assistantMessage]);
+      updateAssistantMessage(message => ({
+        ...message,
+        content: message.content || '응답을 생성할 수 없습니다.',
+        isStreaming: false
+      }));
     } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        // 사용자가 중단한 경우 받은 부분까지 유지
+        console.log('응답 생성 중단됨');
+        updateAssistantMessage(message => ({ ...message, isStreaming: false, isStopped: true }));
+        return;
+      }
+
       console.error('Error:', error);
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: error instanceof Error ? error.message : '죄송합니다. 응답을 생성하는 중 오류가 발생했습니다. 설정을 확인해주세요.',
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      const errorContent = error instanceof Error ? error.message : '죄송합니다. 응답을 생성하는 중 오류가 발생했습니다. 설정을 확인해주세요.';
+      setMessages(prev => {
+        const hasPartialAnswer = prev.some(message => message.id === assistantId && message.content);
+        const rest = prev.filter(message => message.id !== assistantId || hasPartialAnswer);
+        return [...rest.map(message => message.id === assistantId ? { ...message, isStreaming: false } : message), {
+          id: (Date.now() + 2).toString(),
+          role: 'assistant',
+          content: errorContent,
+          timestamp: new Date(),
+          isError: true
+        }];
+      });
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const updateProposal = (messageId: string, proposalId: string, update: Partial<ProposalState>) => {
+    setMessages(prev => prev.map(message => message.id === messageId
+      ? { ...message, proposals: message.proposals?.map(proposal => proposal.id === proposalId ? { ...proposal, ...update } : proposal) }
+      : message));
+  };
+
+  // 승인/거절 결과는 대화에 남겨 이후 질문에서도 참고하도록 함
+  const appendAssistantMessage = (content: string) => {
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content,
+      timestamp: new Date()
+    }]);
+  };
+
+  const approveProposal = async (messageId: string, proposal: ProposalState) => {
+    updateProposal(messageId, proposal.id, { status: 'applying', error: undefined });
+
+    try {
+      const savedSettings = localStorage.getItem('notion-chatbot-settings');
+      const settings = savedSettings ? JSON.parse(savedSettings) : {};
+
+      const response = await fetch('/api/notion-actions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getWorkspaceHeaders(settings),
+        },
+        body: JSON.stringify({
+          action: proposal.action,
+          sourceId: proposal.sourceId,
+          settings: getPublicSettings(settings),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || '변경을 적용하지 못했습니다.');
+      }
+
+      updateProposal(messageId, proposal.id, { status: 'applied' });
+      appendAssistantMessage(`✅ ${data.result.message}${data.result.url ? ` ([Notion에서 보기](${data.result.url}))` : ''}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '변경을 적용하지 못했습니다.';
+      console.error('Notion 변경 적용 오류:', error);
+      updateProposal(messageId, proposal.id, { status: 'failed', error: errorMessage });
+      appendAssistantMessage(`⚠️ "${proposal.description}" 변경을 적용하지 못했습니다: ${errorMessage}`);
+    }
+  };
+
+  const rejectProposal = (messageId: string, proposal: ProposalState) => {
+    updateProposal(messageId, proposal.id, { status: 'rejected' });
+    appendAssistantMessage(`변경 제안을 거절했습니다: ${proposal.description}`);
+  };
+
+  const stopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     sendMessage(inputValue);
@@ -156,7 +358,9 @@ export default function Home() {
   };
 
   const clearMessages = () => {
+    abortControllerRef.current?.abort();
     setMessages([]);
+    setSummary(null);
   };
 
   return (
@@ -192,12 +396,36 @@ export default function Home() {
                 <RotateCcw size={20} />
               </button>
               <button
-                onClick={() => router.push('/settings')}
+                onClick={() => router.push('/calendar')}
                 className="p-3 text-gray-600 hover:text-gray-800 hover:bg-white/80 rounded-xl transition-all duration-200 hover:shadow-lg"
-                title="설정"
+                title="캘린더"
               >
-                <Settings size={20} />
+                <CalendarDays size={20} />
               </button>
+              {(!auth.enabled || auth.user?.role === 'admin') && (
+                <button
+                  onClick={() => router.push('/settings')}
+                  className="p-3 text-gray-600 hover:text-gray-800 hover:bg-white/80 rounded-xl transition-all duration-200 hover:shadow-lg"
+                  title="설정"
+                >
+                  <Settings size={20} />
+                </button>
+              )}
+              {auth.user && (
+                <>
+                  <span className="hidden sm:inline text-sm text-gray-600 px-2">
+                    {auth.user.name}
+                    <span className="ml-1 text-xs text-gray-400">({auth.user.role === 'admin' ? '관리자' : '멤버'})</span>
+                  </span>
+                  <button
+                    onClick={logout}
+                    className="p-3 text-gray-600 hover:text-gray-800 hover:bg-white/80 rounded-xl transition-all duration-200 hover:shadow-lg"
+                    title="로그아웃"
+                  >
+                    <LogOut size={20} />
+                  </button>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -247,7 +475,7 @@ export default function Home() {
               </div>
             ) : (
               <div className="space-y-6">
-                {messages.map((message) => (
+                {messages.filter(message => !message.isStreaming || message.content).map((message) => (
                   <div
                     key={message.id}
                     className={`flex items-start space-x-4 ${
@@ -292,9 +520,26 @@ export default function Home() {
                                 code: ({ children }) => <code className="bg-gray-100 px-1 py-0.5 rounded text-sm font-mono">{children}</code>,
                                 pre: ({ children }) => <pre className="bg-gray-100 p-3 rounded-lg overflow-x-auto text-sm">{children}</pre>,
                                 blockquote: ({ children }) => <blockquote className="border-l-4 border-gray-300 pl-4 italic text-gray-700">{children}</blockquote>,
+                                a: ({ href, title, children }) => {
+                                  // 인용 표시는 각주처럼 작게 표시
+                                  const isCitation = /^\[\d+\]$/.test(String(children));
+                                  return (
+                                    <a
+                                      href={href}
+                                      title={title}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className={isCitation
+                                        ? 'align-super text-xs font-semibold text-indigo-600 hover:text-indigo-800 no-underline ml-0.5'
+                                        : 'text-indigo-600 underline hover:text-indigo-800'}
+                                    >
+                                      {children}
+                                    </a>
+                                  );
+                                },
                               }}
                             >
-                              {message.content}
+                              {linkCitations(message.content, message.sources)}
                             </ReactMarkdown>
                           </div>
                         ) : (
@@ -303,6 +548,115 @@ export default function Home() {
                           </p>
                         )}
                       </div>
+                      {message.proposals?.map(proposal => (
+                        <div key={proposal.id} className="mt-2 text-left text-sm bg-white/70 border border-amber-200 rounded-xl p-4">
+                          <div className="flex items-center space-x-2 font-semibold text-gray-800 mb-3">
+                            <PencilLine size={16} className="text-amber-600" />
+                            <span>{proposal.description}</span>
+                            {proposal.pageUrl && (
+                              <a href={proposal.pageUrl} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-indigo-600" title="Notion에서 열기">
+                                <ExternalLink size={14} />
+                              </a>
+                            )}
+                          </div>
+                          <table className="w-full mb-3">
+                            <tbody>
+                              {proposal.changes.map(change => (
+                                <tr key={change.property} className="align-top">
+                                  <td className="pr-3 py-1 text-gray-500 whitespace-nowrap">{change.property}</td>
+                                  <td className="py-1">
+                                    {change.before !== null && (
+                                      <span className="bg-red-50 text-red-700 line-through px-1.5 py-0.5 rounded mr-2">{change.before}</span>
+                                    )}
+                                    <span className="bg-green-50 text-green-700 px-1.5 py-0.5 rounded">{change.after}</span>
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          {proposal.status === 'pending' || proposal.status === 'failed' ? (
+                            <div className="flex items-center space-x-2">
+                              <button
+                                onClick={() => approveProposal(message.id, proposal)}
+                                className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-medium transition-colors"
+                              >
+                                <Check size={14} />
+                                <span>{proposal.status === 'failed' ? '다시 시도' : '승인'}</span>
+                              </button>
+                              <button
+                                onClick={() => rejectProposal(message.id, proposal)}
+                                className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-white hover:bg-gray-50 border border-gray-200 text-gray-700 text-xs font-medium transition-colors"
+                              >
+                                <X size={14} />
+                                <span>거절</span>
+                              </button>
+                              {proposal.error && <span className="text-xs text-red-600">{proposal.error}</span>}
+                            </div>
+                          ) : (
+                            <span className={`text-xs font-medium ${
+                              proposal.status === 'applied' ? 'text-green-600' : proposal.status === 'rejected' ? 'text-gray-500' : 'text-indigo-600'
+                            }`}>
+                              {proposal.status === 'applied' ? '적용됨' : proposal.status === 'rejected' ? '거절됨' : '적용 중...'}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                      {message.role === 'assistant' && message.sources && message.sources.length > 0 && (
+                        <details className="mt-2 text-left text-sm bg-white/50 border border-gray-200/50 rounded-xl px-4 py-2">
+                          <summary className="cursor-pointer text-gray-600 font-medium select-none">
+                            출처 ({message.sources.length})
+                          </summary>
+                          <ol className="mt-2 space-y-1">
+                            {message.sources.map(source => (
+                              <li key={`${source.index}-${source.pageId}-${source.chunkIndex}`} className="flex items-center space-x-2 text-gray-700">
+                                <span className="text-xs font-semibold text-indigo-600 w-6">[{source.index}]</span>
+                                {source.url ? (
+                                  <a
+                                    href={source.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="flex items-center space-x-1 hover:text-indigo-700 hover:underline"
+                                  >
+                                    <span>{source.title}</span>
+                                    <ExternalLink size={12} />
+                                  </a>
+                                ) : (
+                                  <span>{source.title}</span>
+                                )}
+                                {source.sourceName && (
+                                  <span className="text-xs px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600">
+                                    {source.sourceName}
+                                  </span>
+                                )}
+                                <span
+                                  className="text-xs text-gray-400"
+                                  title={`검색 ${(source.score * 100).toFixed(1)}% · 벡터 ${((source.vectorScore ?? 0) * 100).toFixed(1)}% · 키워드(BM25) ${(source.keywordScore ?? 0).toFixed(2)}`}
+                                >
+                                  #{source.chunkIndex + 1} · {((source.rerankScore ?? source.score) * 100).toFixed(1)}%
+                                  {source.vectorScore !== undefined && ` (벡터 ${(source.vectorScore * 100).toFixed(1)}%, 키워드 ${(source.keywordScore ?? 0).toFixed(2)})`}
+                                </span>
+                              </li>
+                            ))}
+                          </ol>
+                        </details>
+                      )}
+                      {message.role === 'assistant' && message.searchQueries && message.searchQueries.length > 1 && (
+                        <details className="mt-2 text-left text-sm bg-white/50 border border-gray-200/50 rounded-xl px-4 py-2">
+                          <summary className="cursor-pointer text-gray-600 font-medium select-none">
+                            검색 질의 ({message.searchQueries.length})
+                          </summary>
+                          <ul className="mt-2 space-y-1">
+                            {message.searchQueries.map((query, index) => (
+                              <li key={index} className="flex items-start space-x-2 text-gray-700">
+                                <span className="text-xs px-2 py-0.5 rounded-full bg-violet-50 text-violet-600 whitespace-nowrap">
+                                  {SEARCH_QUERY_LABELS[query.type]}
+                                </span>
+                                <span className="whitespace-pre-wrap">{query.text}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
                       <div className="mt-2 flex items-center justify-between">
                         <div className="flex items-center space-x-3">
                           <span className="text-xs text-gray-500 flex items-center space-x-1">
@@ -324,6 +678,11 @@ export default function Home() {
                               <span>{message.searchInfo}</span>
                             </span>
                           )}
+                          {message.isStopped && (
+                            <span className="text-xs px-2 py-1 rounded-full bg-amber-100 text-amber-700">
+                              응답 중단됨
+                            </span>
+                          )}
                         </div>
                         {message.role === 'assistant' && message.contextLength && (
                           <span className="text-xs text-gray-400">
@@ -335,7 +694,7 @@ export default function Home() {
                   </div>
                 ))}
                 
-                {isLoading && (
+                {isLoading && !messages.some(message => message.isStreaming && message.content) && (
                   <div className="flex items-start space-x-4">
                     <div className="flex-shrink-0 w-10 h-10 bg-gradient-to-br from-emerald-500 to-teal-600 rounded-xl flex items-center justify-center">
                       <Bot className="w-5 h-5 text-white" />
@@ -361,6 +720,39 @@ export default function Home() {
 
           {/* Input Area */}
           <div className="border-t border-gray-200/50 p-6 bg-white/30 backdrop-blur-sm">
+            {dataSources.length > 1 && (
+              <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+                <span className="text-gray-500 flex items-center space-x-1">
+                  <Database size={14} />
+                  <span>검색 범위</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setSourceScope([])}
+                  className={`px-3 py-1 rounded-full border transition-colors ${
+                    sourceScope.length === 0
+                      ? 'bg-indigo-600 border-indigo-600 text-white'
+                      : 'bg-white/70 border-gray-200 text-gray-600 hover:border-indigo-300'
+                  }`}
+                >
+                  전체
+                </button>
+                {dataSources.map(source => (
+                  <button
+                    key={source.id}
+                    type="button"
+                    onClick={() => toggleSourceScope(source.id)}
+                    className={`px-3 py-1 rounded-full border transition-colors ${
+                      sourceScope.includes(source.id)
+                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                        : 'bg-white/70 border-gray-200 text-gray-600 hover:border-indigo-300'
+                    }`}
+                  >
+                    {source.name}
+                  </button>
+                ))}
+              </div>
+            )}
             <form onSubmit={handleSubmit} className="flex space-x-4">
               <div className="flex-1">
                 <input
@@ -372,13 +764,24 @@ export default function Home() {
                   disabled={isLoading}
                 />
               </div>
-              <button
-                type="submit"
-                disabled={isLoading || !inputValue.trim()}
-                className="btn-primary flex items-center justify-center w-14 h-14 rounded-2xl disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:transform-none"
-              >
-                <Send size={20} />
-              </button>
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={stopGenerating}
+                  className="btn-secondary flex items-center justify-center w-14 h-14 rounded-2xl"
+                  title="응답 중단"
+                >
+                  <Square size={18} className="fill-current" />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!inputValue.trim()}
+                  className="btn-primary flex items-center justify-center w-14 h-14 rounded-2xl disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:transform-none"
+                >
+                  <Send size={20} />
+                </button>
+              )}
             </form>
           </div>
         </div>
@@ -1,15 +1,36 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { ArrowLeft, Save, RefreshCw, Eye, EyeOff, Sparkles, Database, Bot, Zap, CheckCircle, AlertCircle, Brain, Search } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Save, RefreshCw, Eye, EyeOff, Sparkles, Database, Bot, Zap, CheckCircle, AlertCircle, Brain, Search, CalendarDays, Copy, Plus, Trash2, Upload, Users } from 'lucide-react';
 import { useRouter } from 'next/navigation';
+import { DEFAULT_KEYWORD_WEIGHT } from '@/lib/keyword-index';
+import { DataSource, createDataSourceId, formatPropertyMapping, getDataSources, isExportSource, parsePropertyMapping } from '@/lib/data-sources';
+import { getWorkspaceHeaders } from '@/lib/workspace';
+import { LLMProviderId, LLM_PROVIDERS, getLLMProviderInfo } from '@/lib/llm-providers';
+import { EMBEDDING_PROVIDERS, EmbeddingInfo, EmbeddingProviderId, formatEmbeddingModel, getEmbeddingProviderInfo } from '@/lib/embedding-providers';
+import { DEFAULT_RELEVANCE_THRESHOLD, DEFAULT_RERANKER, RERANKERS, RerankerId } from '@/lib/reranker-providers';
+import { DEFAULT_VECTOR_STORE, VECTOR_STORES, VectorStoreId, getVectorStoreInfo } from '@/lib/vector-store-providers';
+import type { SecretName, SecretStatus } from '@/lib/secret-store';
+import type { UserSummary } from '@/lib/auth';
+import type { Role } from '@/lib/session';
 
+// API 키는 서버의 키 저장소에 두고, 브라우저에는 워크스페이스 ID만 저장
 interface Settings {
-  notionApiKey: string;
-  notionDatabaseId: string;
-  openaiApiKey: string;
-  openaiModel: string;
+  workspaceId?: string;
+  dataSources: DataSource[];
+  llmProvider: LLMProviderId;
+  llmModel: string;
+  llmBaseUrl: string; // OpenAI 호환 서버 주소
   systemPrompt: string;
+  keywordWeight: number;
+  embeddingProvider: EmbeddingProviderId;
+  embeddingModel: string;
+  vectorStore: VectorStoreId;
+  reranker: RerankerId;
+  relevanceThreshold: number; // 재정렬 점수가 이보다 낮은 검색 결과는 제외
+  multiQuery: boolean; // 질문을 여러 표현으로 바꿔 함께 검색
+  hyde: boolean; // 가상 답변 문서로 함께 검색
+  calendarDateProperty: string; // 비어 있으면 시작일로 보이는 속성을 자동 선택
 }
 
 const DEFAULT_PROMPT = `당신은 Notion 데이터베이스의 정보를 바탕으로 답변하는 AI 어시스턴트입니다. 
@@ -23,39 +44,81 @@ const DEFAULT_PROMPT = `당신은 Notion 데이터베이스의 정보를 바탕
 6. "마무리", "완료", "종료"된 프로젝트를 찾을 때는 End Date, 완료일, 종료일 등의 속성을 우선적으로 확인하세요.
 7. 여러 프로젝트의 날짜를 비교할 때는 모든 관련 프로젝트의 날짜를 나열하고 가장 최근 날짜를 정확히 찾아주세요.`;
 
-const OPENAI_MODELS = [
-  { id: 'gpt-4o', name: 'GPT-4o', description: '최신 모델, 가장 뛰어난 성능' },
-  { id: 'gpt-4o-mini', name: 'GPT-4o Mini', description: '빠르고 효율적인 모델' },
-  { id: 'gpt-4-turbo', name: 'GPT-4 Turbo', description: '향상된 성능과 속도' },
-  { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', description: '경제적이고 빠른 모델' }
-];
+const EMPTY_SECRET_INPUTS: Record<SecretName, string> = {
+  openaiApiKey: '',
+  notionApiKey: '',
+  anthropicApiKey: '',
+  compatibleApiKey: ''
+};
 
 export default function SettingsPage() {
   const router = useRouter();
   const [settings, setSettings] = useState<Settings>({
-    notionApiKey: '',
-    notionDatabaseId: '',
-    openaiApiKey: '',
-    openaiModel: 'gpt-4o-mini',
-    systemPrompt: DEFAULT_PROMPT
+    dataSources: [],
+    llmProvider: 'openai',
+    llmModel: 'gpt-4o-mini',
+    llmBaseUrl: '',
+    systemPrompt: DEFAULT_PROMPT,
+    keywordWeight: DEFAULT_KEYWORD_WEIGHT,
+    embeddingProvider: 'openai',
+    embeddingModel: 'text-embedding-3-small',
+    vectorStore: DEFAULT_VECTOR_STORE,
+    reranker: DEFAULT_RERANKER,
+    relevanceThreshold: DEFAULT_RELEVANCE_THRESHOLD,
+    multiQuery: false,
+    hyde: false,
+    calendarDateProperty: ''
   });
   const [showNotionKey, setShowNotionKey] = useState(false);
   const [showOpenaiKey, setShowOpenaiKey] = useState(false);
+  const [showLlmKey, setShowLlmKey] = useState(false);
+  const [secretInputs, setSecretInputs] = useState<Record<SecretName, string>>(EMPTY_SECRET_INPUTS);
+  const [secretStatus, setSecretStatus] = useState<Record<SecretName, SecretStatus> | null>(null);
+  const [storeEnabled, setStoreEnabled] = useState(true);
+  const [authEnabled, setAuthEnabled] = useState(false);
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [newUser, setNewUser] = useState<{ username: string; name: string; password: string; role: Role }>({
+    username: '', name: '', password: '', role: 'member'
+  });
+  const [feedToken, setFeedToken] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [isUpdatingSystem, setIsUpdatingSystem] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const exportFileInput = useRef<HTMLInputElement>(null);
+  const [dateProperties, setDateProperties] = useState<string[]>([]);
+  const [origin, setOrigin] = useState('');
   const [ragStatus, setRagStatus] = useState<{
     chunksCount: number;
     embeddingsCount: number;
+    pagesCount: number;
+    lastUpdated: string | null;
+    embedding: EmbeddingInfo | null;
+    vectorStore: VectorStoreId | null;
     isReady: boolean;
   } | null>(null);
 
   useEffect(() => {
     // 로컬 스토리지에서 설정 불러오기
     const savedSettings = localStorage.getItem('notion-chatbot-settings');
+    const parsedSettings = savedSettings ? JSON.parse(savedSettings) : {};
     if (savedSettings) {
-      setSettings(JSON.parse(savedSettings));
+      // 이전 버전에서 저장한 설정에 없는 항목은 기본값 유지 (단일 데이터베이스 ID는 데이터 소스로 변환)
+      // (OpenAI 전용이던 openaiModel은 llmModel로 옮김)
+      const { notionDatabaseId, openaiApiKey, notionApiKey, openaiModel, ...parsed } = parsedSettings;
+      setSettings(prev => ({
+        ...prev,
+        ...(openaiModel ? { llmModel: openaiModel } : {}),
+        ...parsed,
+        dataSources: getDataSources({ ...parsed, notionDatabaseId })
+      }));
+
+      // 브라우저에 저장되어 있던 키는 입력란에 채워 두고, 저장하면 서버로 옮김
+      if (openaiApiKey || notionApiKey) {
+        setSecretInputs({ ...EMPTY_SECRET_INPUTS, openaiApiKey: openaiApiKey || '', notionApiKey: notionApiKey || '' });
+      }
     }
+    loadSecretStatus(parsedSettings);
 
     // 마지막 업데이트 시간 불러오기
     const lastUpdate = localStorage.getItem('notion-data-last-updated');
@@ -65,27 +128,157 @@ export default function SettingsPage() {
 
     // RAG 상태 확인
     checkRAGStatus();
+    loadDateProperties();
+    setOrigin(window.location.origin);
   }, []);
 
-  const handleInputChange = (field: keyof Settings, value: string) => {
+  // 로그인을 쓰는 경우 계정 목록과 캘린더 피드 토큰 불러오기
+  useEffect(() => {
+    const loadAuth = async () => {
+      try {
+        const response = await fetch('/api/auth/session');
+        const data = await response.json();
+        setAuthEnabled(Boolean(data.authEnabled));
+        if (!data.authEnabled) return;
+
+        const [usersResponse, tokenResponse] = await Promise.all([
+          fetch('/api/auth/users'),
+          fetch('/api/auth/feed-token'),
+        ]);
+        if (usersResponse.ok) {
+          setUsers((await usersResponse.json()).users || []);
+        }
+        if (tokenResponse.ok) {
+          setFeedToken((await tokenResponse.json()).token);
+        }
+      } catch {
+        // 로그인 정보를 불러오지 못하면 계정 관리를 표시하지 않음
+      }
+    };
+    loadAuth();
+  }, []);
+
+  const handleInputChange = <K extends keyof Settings>(field: K, value: Settings[K]) => {
     setSettings(prev => ({
       ...prev,
       [field]: value
     }));
   };
 
-  const saveSettings = () => {
+  // 제공자를 바꾸면 모델도 해당 제공자의 기본 모델로 바꿈
+  const changeProvider = (provider: LLMProviderId) => {
+    setSettings(prev => ({
+      ...prev,
+      llmProvider: provider,
+      llmModel: getLLMProviderInfo(provider).defaultModel
+    }));
+  };
+
+  const changeEmbeddingProvider = (provider: EmbeddingProviderId) => {
+    setSettings(prev => ({
+      ...prev,
+      embeddingProvider: provider,
+      embeddingModel: getEmbeddingProviderInfo(provider).defaultModel
+    }));
+  };
+
+  const updateDataSource = (id: string, changes: Partial<DataSource>) => {
+    setSettings(prev => ({
+      ...prev,
+      dataSources: prev.dataSources.map(source => source.id === id ? { ...source, ...changes } : source)
+    }));
+  };
+
+  const addDataSource = () => {
+    setSettings(prev => ({
+      ...prev,
+      dataSources: [
+        ...prev.dataSources,
+        { id: createDataSourceId(), name: `데이터베이스 ${prev.dataSources.length + 1}`, databaseId: '', enabled: true }
+      ]
+    }));
+  };
+
+  const removeDataSource = (id: string) => {
+    setSettings(prev => ({
+      ...prev,
+      dataSources: prev.dataSources.filter(source => source.id !== id)
+    }));
+  };
+
+  const loadSecretStatus = async (current: { workspaceId?: string }) => {
+    try {
+      const response = await fetch('/api/secrets', { headers: getWorkspaceHeaders(current) });
+      if (response.ok) {
+        const data = await response.json();
+        setSecretStatus(data.secrets);
+        setStoreEnabled(data.storeEnabled);
+      }
+    } catch {
+      // 상태를 불러오지 못하면 입력란만 표시
+    }
+  };
+
+  // 키를 서버에 저장하고 (처음이면) 발급된 워크스페이스 ID 반환
+  const saveSecrets = async (updates: Partial<Record<SecretName, string>>): Promise<string | undefined> => {
+    const response = await fetch('/api/secrets', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getWorkspaceHeaders(settings),
+      },
+      body: JSON.stringify(updates),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || '키를 저장하지 못했습니다.');
+    }
+
+    setSecretStatus(data.secrets);
+    return data.workspaceId;
+  };
+
+  const saveSettings = async () => {
     setSaveStatus('saving');
     try {
-      localStorage.setItem('notion-chatbot-settings', JSON.stringify(settings));
+      let nextSettings = settings;
+      const updates = Object.fromEntries(Object.entries(secretInputs).filter(([, value]) => value.trim()));
+
+      if (Object.keys(updates).length > 0) {
+        nextSettings = { ...settings, workspaceId: await saveSecrets(updates) };
+        setSettings(nextSettings);
+        setSecretInputs(EMPTY_SECRET_INPUTS);
+      }
+
+      localStorage.setItem('notion-chatbot-settings', JSON.stringify(nextSettings));
       setSaveStatus('saved');
       setTimeout(() => setSaveStatus('idle'), 2000);
-    } catch {
+    } catch (error) {
+      console.error('설정 저장 오류:', error);
+      alert(error instanceof Error ? error.message : '설정을 저장하지 못했습니다.');
       setSaveStatus('error');
       setTimeout(() => setSaveStatus('idle'), 2000);
     }
   };
 
+  const removeSecret = async (name: SecretName) => {
+    if (!confirm('서버에 저장된 키를 삭제하시겠습니까?')) return;
+
+    try {
+      await saveSecrets({ [name]: '' });
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '키를 삭제하지 못했습니다.');
+    }
+  };
+
+  const secretPlaceholder = (name: SecretName, example: string) => {
+    const status = secretStatus?.[name];
+    if (status?.source === 'workspace') return `저장됨 (${status.hint}) - 바꾸려면 새 키 입력`;
+    if (status?.source === 'env') return `환경 변수 사용 중 (${status.hint})`;
+    return example;
+  };
+
   const checkRAGStatus = async () => {
     try {
       const response = await fetch('/api/initialize-rag', {
@@ -101,51 +294,236 @@ export default function SettingsPage() {
     }
   };
 
+  // 인덱스에 있는 날짜 속성 목록 (캘린더 날짜 속성 선택용)
+  const loadDateProperties = async () => {
+    try {
+      const response = await fetch('/api/calendar');
+      if (response.ok) {
+        const data = await response.json();
+        setDateProperties(data.dateProperties || []);
+      }
+    } catch {
+      // 목록을 불러오지 못하면 자동 선택만 표시
+    }
+  };
+
+  const providerInfo = getLLMProviderInfo(settings.llmProvider);
+  const embeddingInfo = getEmbeddingProviderInfo(settings.embeddingProvider);
+  // 설정한 임베딩 모델이 인덱스를 만든 모델과 다르면 다음 동기화 때 전체를 다시 임베딩
+  const embeddingChanged = Boolean(
+    ragStatus?.embedding &&
+    (ragStatus.embedding.provider !== settings.embeddingProvider || ragStatus.embedding.model !== settings.embeddingModel)
+  );
+  // 벡터 저장소를 바꾼 경우에도 새 저장소에 전체를 다시 만듦
+  const vectorStoreChanged = Boolean(
+    ragStatus?.vectorStore && ragStatus.chunksCount > 0 && ragStatus.vectorStore !== settings.vectorStore
+  );
+  const hasNotionSources = settings.dataSources.some(source => source.enabled && !isExportSource(source));
+
+  // 로그인을 쓰면 캘린더 앱이 쿠키 없이 구독할 수 있도록 피드 토큰을 붙임
+  const feedParams = new URLSearchParams();
+  if (settings.calendarDateProperty) feedParams.set('dateProperty', settings.calendarDateProperty);
+  if (feedToken) feedParams.set('token', feedToken);
+  const calendarFeedUrl = `${origin}/api/calendar.ics${feedParams.toString() ? `?${feedParams}` : ''}`;
+
+  const loadUsers = async () => {
+    const response = await fetch('/api/auth/users');
+    if (response.ok) {
+      setUsers((await response.json()).users || []);
+    }
+  };
+
+  const saveUser = async (user: { username: string; name?: string; password?: string; role: Role }) => {
+    try {
+      const response = await fetch('/api/auth/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(user),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || '계정을 저장하지 못했습니다.');
+      }
+      await loadUsers();
+      return true;
+    } catch (error) {
+      alert(error instanceof Error ? error.message : '계정을 저장하지 못했습니다.');
+      return false;
+    }
+  };
+
+  const addUser = async () => {
+    if (await saveUser(newUser)) {
+      setNewUser({ username: '', name: '', password: '', role: 'member' });
+    }
+  };
+
+  const removeUser = async (username: string) => {
+    if (!confirm(`${username} 계정을 삭제하시겠습니까?`)) return;
+
+    const response = await fetch(`/api/auth/users?username=${encodeURIComponent(username)}`, { method: 'DELETE' });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      alert(data.error || '계정을 삭제하지 못했습니다.');
+    }
+    await loadUsers();
+  };
+
+  const copyCalendarFeedUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl);
+      alert('구독 URL이 복사되었습니다.');
+    } catch {
+      alert('구독 URL을 복사하지 못했습니다.');
+    }
+  };
+
+  // 인덱스를 갱신하기 전에 임베딩 모델의 API 키 확인
+  const checkEmbeddingKey = () => {
+    if (secretStatus && embeddingInfo.requiresApiKey && !secretStatus.openaiApiKey.source) {
+      alert('OpenAI 임베딩을 사용하려면 OpenAI API 키를 먼저 설정해주세요.');
+      return false;
+    }
+    return true;
+  };
+
   const updateSystemData = async () => {
-    if (!settings.notionApiKey || !settings.notionDatabaseId) {
-      alert('Notion API 키와 데이터베이스 ID를 먼저 설정해주세요.');
+    if (Object.values(secretInputs).some(value => value.trim())) {
+      alert('입력한 API 키를 먼저 저장해주세요.');
       return;
     }
 
-    if (!settings.openaiApiKey) {
-      alert('OpenAI API 키를 먼저 설정해주세요.');
+    // 내보내기에서 가져온 소스만 있으면 Notion API 키 없이 동기화
+    if (secretStatus && hasNotionSources && !secretStatus.notionApiKey.source) {
+      alert('Notion API 키를 먼저 설정해주세요.');
+      return;
+    }
+
+    if (!checkEmbeddingKey()) {
+      return;
+    }
+
+    if (embeddingChanged && !confirm('임베딩 모델이 바뀌어 모든 페이지를 다시 임베딩합니다. 계속하시겠습니까?')) {
+      return;
+    }
+
+    if (vectorStoreChanged && !confirm('벡터 저장소가 바뀌어 모든 페이지를 새 저장소에 다시 임베딩합니다. 계속하시겠습니까?')) {
       return;
     }
 
     setIsUpdatingSystem(true);
     try {
-      // RAG 초기화 (내부적으로 노션 데이터 업데이트도 수행)
+      // RAG 인덱스 동기화 (변경된 노션 페이지만 다시 임베딩)
       const response = await fetch('/api/initialize-rag', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...getWorkspaceHeaders(settings),
         },
         body: JSON.stringify({
-          openaiApiKey: settings.openaiApiKey,
-          notionApiKey: settings.notionApiKey,
-          notionDatabaseId: settings.notionDatabaseId,
+          dataSources: settings.dataSources,
+          embeddingProvider: settings.embeddingProvider,
+          embeddingModel: settings.embeddingModel,
+          vectorStore: settings.vectorStore,
         }),
       });
 
-      if (!response.ok) {
-        throw new Error('시스템 업데이트에 실패했습니다.');
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || '시스템 업데이트에 실패했습니다.');
       }
 
-      const data = await response.json();
       const updateTime = new Date().toLocaleString('ko-KR');
       setLastUpdated(updateTime);
       localStorage.setItem('notion-data-last-updated', updateTime);
       setRagStatus(data.status);
       
-      alert(`시스템이 성공적으로 업데이트되었습니다. (${data.status.chunksCount}개 청크, ${data.status.embeddingsCount}개 임베딩)`);
+      const { added, updated, deleted, unchanged } = data.sync;
+      const sourceSummary = (data.sources || [])
+        .map((source: { name: string; added: number; updated: number; unchanged: number }) =>
+          `\n- ${source.name}: 추가 ${source.added}, 변경 ${source.updated}, 유지 ${source.unchanged}`)
+        .join('');
+      const reuploadNotice = data.reuploadSources?.length > 0
+        ? `\n\n다음 내보내기는 인덱스에 보관된 페이지가 없어 다시 가져와야 합니다: ${data.reuploadSources.join(', ')}`
+        : '';
+      alert(`시스템이 성공적으로 업데이트되었습니다. (추가 ${added}, 변경 ${updated}, 삭제 ${deleted}, 유지 ${unchanged}개 페이지 / ${data.status.chunksCount}개 청크, ${data.status.embeddingsCount}개 임베딩)${sourceSummary}${reuploadNotice}`);
     } catch (error) {
       console.error('시스템 업데이트 오류:', error);
-      alert('시스템 업데이트 중 오류가 발생했습니다.');
+      alert(`시스템 업데이트 중 오류가 발생했습니다.${error instanceof Error ? `\n${error.message}` : ''}`);
     } finally {
       setIsUpdatingSystem(false);
     }
   };
 
+  // Notion "내보내기 → Markdown & CSV" 압축 파일을 데이터 소스로 가져오기
+  const importNotionExport = async (file: File) => {
+    if (Object.values(secretInputs).some(value => value.trim())) {
+      alert('입력한 API 키를 먼저 저장해주세요.');
+      return;
+    }
+
+    if (!checkEmbeddingKey()) {
+      return;
+    }
+
+    // 인덱스 전체를 다시 만드는 것은 모든 소스를 동기화하는 업데이트에서만 가능
+    if (embeddingChanged || vectorStoreChanged) {
+      alert('임베딩 모델이나 벡터 저장소가 바뀌었습니다. 먼저 "Notion & RAG 업데이트"로 인덱스를 다시 만든 뒤 가져와주세요.');
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('settings', JSON.stringify({
+        dataSources: settings.dataSources,
+        embeddingProvider: settings.embeddingProvider,
+        embeddingModel: settings.embeddingModel,
+        vectorStore: settings.vectorStore,
+      }));
+
+      const response = await fetch('/api/import-notion-export', {
+        method: 'POST',
+        headers: getWorkspaceHeaders(settings),
+        body: form,
+      });
+
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || '내보내기를 가져오지 못했습니다.');
+      }
+
+      // 가져온 소스를 목록에 넣고 바로 저장 (목록에 없으면 다음 동기화 때 삭제된 소스로 보고 인덱스에서 제거됨)
+      const imported: DataSource[] = data.dataSources;
+      const dataSources = settings.dataSources
+        .map(source => imported.find(item => item.id === source.id) || source)
+        .concat(imported.filter(item => !settings.dataSources.some(source => source.id === item.id)));
+      const savedSettings = JSON.parse(localStorage.getItem('notion-chatbot-settings') || '{}');
+      localStorage.setItem('notion-chatbot-settings', JSON.stringify({ ...savedSettings, dataSources }));
+      setSettings(prev => ({ ...prev, dataSources }));
+
+      const updateTime = new Date().toLocaleString('ko-KR');
+      setLastUpdated(updateTime);
+      localStorage.setItem('notion-data-last-updated', updateTime);
+      setRagStatus(data.status);
+
+      const sourceSummary = (data.sources || [])
+        .map((source: { name: string; added: number; updated: number; deleted: number; unchanged: number }) =>
+          `\n- ${source.name}: 추가 ${source.added}, 변경 ${source.updated}, 삭제 ${source.deleted}, 유지 ${source.unchanged}`)
+        .join('');
+      alert(`Notion 내보내기를 가져왔습니다. (${data.status.chunksCount}개 청크, ${data.status.embeddingsCount}개 임베딩)${sourceSummary}`);
+    } catch (error) {
+      console.error('내보내기 가져오기 오류:', error);
+      alert(`내보내기를 가져오는 중 오류가 발생했습니다.${error instanceof Error ? `\n${error.message}` : ''}`);
+    } finally {
+      setIsImporting(false);
+      if (exportFileInput.current) {
+        exportFileInput.current.value = '';
+      }
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/50 to-indigo-100/60 relative overflow-hidden">
       {/* Background Elements */}
@@ -204,9 +582,9 @@ export default function SettingsPage() {
                 <div className="relative">
                   <input
                     type={showNotionKey ? 'text' : 'password'}
-                    value={settings.notionApiKey}
-                    onChange={(e) => handleInputChange('notionApiKey', e.target.value)}
-                    placeholder="secret_xxxxxxxxxxxxxxxxxxxxxxxxx"
+                    value={secretInputs.notionApiKey}
+                    onChange={(e) => setSecretInputs(prev => ({ ...prev, notionApiKey: e.target.value }))}
+                    placeholder={secretPlaceholder('notionApiKey', 'secret_xxxxxxxxxxxxxxxxxxxxxxxxx')}
                     className="input-field pr-12"
                   />
                   <button
@@ -217,46 +595,211 @@ export default function SettingsPage() {
                     {showNotionKey ? <EyeOff size={18} /> : <Eye size={18} />}
                   </button>
                 </div>
+                {secretStatus?.notionApiKey.source === 'workspace' && (
+                  <button
+                    type="button"
+                    onClick={() => removeSecret('notionApiKey')}
+                    className="text-xs text-gray-500 hover:text-red-600 mt-2"
+                  >
+                    저장된 키 삭제
+                  </button>
+                )}
+                {!storeEnabled && (
+                  <p className="text-xs text-amber-600 mt-2">
+                    서버에 SECRET_STORE_KEY가 설정되지 않아 키를 저장할 수 없습니다. NOTION_API_KEY, OPENAI_API_KEY 등 환경 변수를 사용해주세요.
+                  </p>
+                )}
               </div>
 
               <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-3">
-                  데이터베이스 ID
-                </label>
-                <input
-                  type="text"
-                  value={settings.notionDatabaseId}
-                  onChange={(e) => handleInputChange('notionDatabaseId', e.target.value)}
-                  placeholder="xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx"
-                  className="input-field"
-                />
+                <div className="flex items-center justify-between mb-3">
+                  <label className="block text-sm font-semibold text-gray-700">
+                    데이터 소스
+                  </label>
+                  <button
+                    type="button"
+                    onClick={addDataSource}
+                    className="btn-secondary flex items-center space-x-2 text-sm"
+                  >
+                    <Plus size={16} />
+                    <span>데이터베이스 추가</span>
+                  </button>
+                </div>
+
+                <div className="space-y-4">
+                  {settings.dataSources.length === 0 && (
+                    <p className="text-sm text-gray-500">등록된 데이터베이스가 없습니다. 데이터베이스를 추가해주세요.</p>
+                  )}
+                  {settings.dataSources.map(source => (
+                    <div key={source.id} className="p-4 border border-gray-200 rounded-xl bg-white/60 space-y-3">
+                      <div className="flex items-center space-x-3">
+                        <input
+                          type="checkbox"
+                          checked={source.enabled}
+                          onChange={(e) => updateDataSource(source.id, { enabled: e.target.checked })}
+                          className="w-4 h-4 accent-indigo-600"
+                          title="사용"
+                        />
+                        <input
+                          type="text"
+                          value={source.name}
+                          onChange={(e) => updateDataSource(source.id, { name: e.target.value })}
+                          placeholder="이름 (예: 프로젝트, 회의록)"
+                          className="input-field"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeDataSource(source.id)}
+                          className="p-2 text-gray-500 hover:text-red-600 transition-colors"
+                          title="삭제"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      </div>
+                      {isExportSource(source) ? (
+                        <div className="flex items-center space-x-2 text-sm text-gray-600">
+                          <Upload className="w-4 h-4" />
+                          <span>
+                            Notion 내보내기에서 가져옴
+                            {source.importedAt && ` · ${new Date(source.importedAt).toLocaleString('ko-KR')}`}
+                          </span>
+                        </div>
+                      ) : (
+                        <input
+                          type="text"
+                          value={source.databaseId}
+                          onChange={(e) => updateDataSource(source.id, { databaseId: e.target.value })}
+                          placeholder="데이터베이스 ID (xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx)"
+                          className="input-field font-mono text-sm"
+                        />
+                      )}
+                      <textarea
+                        defaultValue={formatPropertyMapping(source.propertyMapping)}
+                        onBlur={(e) => updateDataSource(source.id, { propertyMapping: parsePropertyMapping(e.target.value) })}
+                        placeholder={'속성 매핑 (선택, 한 줄에 하나씩)\n회의 날짜=Start Date'}
+                        rows={2}
+                        className="input-field font-mono text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  사용 중인 데이터베이스를 함께 인덱싱하며, 답변의 출처에 이름이 표시됩니다.
+                  속성 매핑은 데이터베이스마다 다른 속성 이름을 통일하며, 다시 인덱싱되는 페이지부터 적용됩니다.
+                  Notion 내보내기에서 가져온 데이터베이스는 새 내보내기를 다시 가져와야 갱신됩니다.
+                </p>
               </div>
             </div>
           </div>
 
-          {/* OpenAI Settings Card */}
+          {/* LLM Settings Card */}
           <div className="card p-8">
             <div className="flex items-center space-x-3 mb-6">
               <div className="w-12 h-12 bg-gradient-to-br from-emerald-600 to-teal-600 rounded-2xl flex items-center justify-center">
                 <Bot className="w-6 h-6 text-white" />
               </div>
               <div>
-                <h2 className="text-2xl font-bold text-gray-900">OpenAI 설정</h2>
-                <p className="text-gray-600">AI 모델 및 API 설정</p>
+                <h2 className="text-2xl font-bold text-gray-900">AI 모델 설정</h2>
+                <p className="text-gray-600">답변에 사용할 모델 제공자와 API 설정</p>
               </div>
             </div>
             
             <div className="space-y-6">
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-3">
-                  OpenAI API 키
+                  모델 제공자
+                </label>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {LLM_PROVIDERS.map(provider => (
+                    <label
+                      key={provider.id}
+                      className={`relative flex items-start p-4 rounded-xl border-2 cursor-pointer transition-all ${
+                        settings.llmProvider === provider.id
+                          ? 'border-indigo-500 bg-indigo-50/50'
+                          : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50/50'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="provider"
+                        value={provider.id}
+                        checked={settings.llmProvider === provider.id}
+                        onChange={() => changeProvider(provider.id)}
+                        className="sr-only"
+                      />
+                      <div className="flex-1">
+                        <div className="font-medium text-gray-900">{provider.name}</div>
+                        <div className="text-sm text-gray-600">{provider.description}</div>
+                      </div>
+                      {settings.llmProvider === provider.id && (
+                        <CheckCircle className="w-5 h-5 text-indigo-600 flex-shrink-0" />
+                      )}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {providerInfo.requiresBaseUrl && (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-3">
+                    Base URL
+                  </label>
+                  <input
+                    type="text"
+                    value={settings.llmBaseUrl}
+                    onChange={(e) => handleInputChange('llmBaseUrl', e.target.value)}
+                    placeholder={providerInfo.baseUrlPlaceholder}
+                    className="input-field"
+                  />
+                  <p className="text-xs text-gray-500 mt-2">
+                    OpenAI API와 같은 형식의 /v1 주소 (Ollama: http://localhost:11434/v1, LM Studio: http://localhost:1234/v1). 비워 두면 LLM_BASE_URL 환경 변수를 사용합니다.
+                  </p>
+                </div>
+              )}
+
+              {providerInfo.apiKeySecret !== 'openaiApiKey' && (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-3">
+                    {providerInfo.name} API 키{!providerInfo.requiresApiKey && ' (선택)'}
+                  </label>
+                  <div className="relative">
+                    <input
+                      type={showLlmKey ? 'text' : 'password'}
+                      value={secretInputs[providerInfo.apiKeySecret]}
+                      onChange={(e) => setSecretInputs(prev => ({ ...prev, [providerInfo.apiKeySecret]: e.target.value }))}
+                      placeholder={secretPlaceholder(providerInfo.apiKeySecret, providerInfo.requiresApiKey ? 'sk-ant-REDACTED' : '키가 필요한 서버만 입력')}
+                      className="input-field pr-12"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowLlmKey(!showLlmKey)}
+                      className="absolute right-3 top-1/2 transform -translate-y-1/2 p-1 text-gray-500 hover:text-gray-700 transition-colors"
+                    >
+                      {showLlmKey ? <EyeOff size={18} /> : <Eye size={18} />}
+                    </button>
+                  </div>
+                  {secretStatus?.[providerInfo.apiKeySecret]?.source === 'workspace' && (
+                    <button
+                      type="button"
+                      onClick={() => removeSecret(providerInfo.apiKeySecret)}
+                      className="text-xs text-gray-500 hover:text-red-600 mt-2"
+                    >
+                      저장된 키 삭제
+                    </button>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-3">
+                  OpenAI API 키{settings.llmProvider !== 'openai' && settings.embeddingProvider === 'openai' && ' (RAG 임베딩용)'}
                 </label>
                 <div className="relative">
                   <input
                     type={showOpenaiKey ? 'text' : 'password'}
-                    value={settings.openaiApiKey}
-                    onChange={(e) => handleInputChange('openaiApiKey', e.target.value)}
-                    placeholder="sk-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx"
+                    value={secretInputs.openaiApiKey}
+                    onChange={(e) => setSecretInputs(prev => ({ ...prev, openaiApiKey: e.target.value }))}
+                    placeholder={secretPlaceholder('openaiApiKey', 'sk-xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx')}
                     className="input-field pr-12"
                   />
                   <button
@@ -267,40 +810,53 @@ export default function SettingsPage() {
                     {showOpenaiKey ? <EyeOff size={18} /> : <Eye size={18} />}
                   </button>
                 </div>
+                {secretStatus?.openaiApiKey.source === 'workspace' && (
+                  <button
+                    type="button"
+                    onClick={() => removeSecret('openaiApiKey')}
+                    className="text-xs text-gray-500 hover:text-red-600 mt-2"
+                  >
+                    저장된 키 삭제
+                  </button>
+                )}
               </div>
 
               <div>
                 <label className="block text-sm font-semibold text-gray-700 mb-3">
                   AI 모델
                 </label>
+                <input
+                  type="text"
+                  value={settings.llmModel}
+                  onChange={(e) => handleInputChange('llmModel', e.target.value)}
+                  placeholder={providerInfo.defaultModel}
+                  className="input-field mb-3"
+                />
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                  {OPENAI_MODELS.map(model => (
-                    <label
+                  {providerInfo.models.map(model => (
+                    <button
                       key={model.id}
-                      className={`relative flex items-start p-4 rounded-xl border-2 cursor-pointer transition-all ${
-                        settings.openaiModel === model.id
+                      type="button"
+                      onClick={() => handleInputChange('llmModel', model.id)}
+                      className={`relative flex items-start p-4 rounded-xl border-2 text-left transition-all ${
+                        settings.llmModel === model.id
                           ? 'border-indigo-500 bg-indigo-50/50'
                           : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50/50'
                       }`}
                     >
-                      <input
-                        type="radio"
-                        name="model"
-                        value={model.id}
-                        checked={settings.openaiModel === model.id}
-                        onChange={(e) => handleInputChange('openaiModel', e.target.value)}
-                        className="sr-only"
-                      />
                       <div className="flex-1">
                         <div className="font-medium text-gray-900">{model.name}</div>
                         <div className="text-sm text-gray-600">{model.description}</div>
                       </div>
-                      {settings.openaiModel === model.id && (
+                      {settings.llmModel === model.id && (
                         <CheckCircle className="w-5 h-5 text-indigo-600 flex-shrink-0" />
                       )}
-                    </label>
+                    </button>
                   ))}
                 </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  목록에 없는 모델은 이름을 직접 입력하세요 (예: 로컬 서버에 받아 둔 모델 이름).
+                </p>
               </div>
             </div>
           </div>
@@ -331,6 +887,347 @@ export default function SettingsPage() {
             </div>
           </div>
 
+          {/* Retrieval Settings Card */}
+          <div className="card p-8">
+            <div className="flex items-center space-x-3 mb-6">
+              <div className="w-12 h-12 bg-gradient-to-br from-amber-500 to-orange-600 rounded-2xl flex items-center justify-center">
+                <Search className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">검색 설정</h2>
+                <p className="text-gray-600">임베딩 모델, 벡터/키워드 검색 비중과 재정렬 설정</p>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-3">
+                키워드 검색 비중: {Math.round(settings.keywordWeight * 100)}%
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings.keywordWeight}
+                onChange={(e) => handleInputChange('keywordWeight', Number(e.target.value))}
+                className="w-full accent-indigo-600"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-2">
+                <span>의미 검색 (임베딩)</span>
+                <span>정확한 단어 일치 (BM25)</span>
+              </div>
+            </div>
+
+            <div className="mt-8">
+              <label className="block text-sm font-semibold text-gray-700 mb-3">
+                질의 확장
+              </label>
+              <div className="space-y-3">
+                <label className="flex items-start space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.multiQuery}
+                    onChange={(e) => handleInputChange('multiQuery', e.target.checked)}
+                    className="w-4 h-4 mt-1 accent-indigo-600"
+                  />
+                  <div>
+                    <div className="font-medium text-gray-900">다중 질의</div>
+                    <div className="text-sm text-gray-600">모호한 질문을 구체적인 검색 질의 3개로 바꿔 함께 검색합니다</div>
+                  </div>
+                </label>
+                <label className="flex items-start space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.hyde}
+                    onChange={(e) => handleInputChange('hyde', e.target.checked)}
+                    className="w-4 h-4 mt-1 accent-indigo-600"
+                  />
+                  <div>
+                    <div className="font-medium text-gray-900">가상 답변 검색 (HyDE)</div>
+                    <div className="text-sm text-gray-600">질문에 답하는 가상의 문서를 만들어 그 문서와 비슷한 페이지를 찾습니다</div>
+                  </div>
+                </label>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                켜면 질문마다 채팅 모델 요청이 늘어나며, 사용한 질의는 답변 아래 &quot;검색 질의&quot;에서 볼 수 있습니다.
+              </p>
+            </div>
+
+            <div className="mt-8">
+              <label className="block text-sm font-semibold text-gray-700 mb-3">
+                검색 결과 재정렬
+              </label>
+              <select
+                value={settings.reranker}
+                onChange={(e) => handleInputChange('reranker', e.target.value as RerankerId)}
+                className="input-field"
+              >
+                {RERANKERS.map(reranker => (
+                  <option key={reranker.id} value={reranker.id}>{reranker.name} - {reranker.description}</option>
+                ))}
+              </select>
+              {settings.reranker !== 'none' && (
+                <div className="mt-4">
+                  <label className="block text-sm font-semibold text-gray-700 mb-3">
+                    최소 관련도: {Math.round(settings.relevanceThreshold * 100)}%
+                  </label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={settings.relevanceThreshold}
+                    onChange={(e) => handleInputChange('relevanceThreshold', Number(e.target.value))}
+                    className="w-full accent-indigo-600"
+                  />
+                  <p className="text-xs text-gray-500 mt-2">
+                    검색 후보 30개를 재정렬한 뒤 관련도가 이 값 이상인 결과만 답변에 사용합니다 (최대 8개, 가장 관련도가 높은 결과는 항상 포함).
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div className="mt-8">
+              <label className="block text-sm font-semibold text-gray-700 mb-3">
+                임베딩 모델
+              </label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+                {EMBEDDING_PROVIDERS.map(provider => (
+                  <label
+                    key={provider.id}
+                    className={`relative flex items-start p-4 rounded-xl border-2 cursor-pointer transition-all ${
+                      settings.embeddingProvider === provider.id
+                        ? 'border-indigo-500 bg-indigo-50/50'
+                        : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50/50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="embeddingProvider"
+                      value={provider.id}
+                      checked={settings.embeddingProvider === provider.id}
+                      onChange={() => changeEmbeddingProvider(provider.id)}
+                      className="sr-only"
+                    />
+                    <div className="flex-1">
+                      <div className="font-medium text-gray-900">{provider.name}</div>
+                      <div className="text-sm text-gray-600">{provider.description}</div>
+                    </div>
+                    {settings.embeddingProvider === provider.id && (
+                      <CheckCircle className="w-5 h-5 text-indigo-600 flex-shrink-0" />
+                    )}
+                  </label>
+                ))}
+              </div>
+              <select
+                value={settings.embeddingModel}
+                onChange={(e) => handleInputChange('embeddingModel', e.target.value)}
+                className="input-field"
+              >
+                {embeddingInfo.models.map(model => (
+                  <option key={model.id} value={model.id}>{model.name} - {model.description}</option>
+                ))}
+                {!embeddingInfo.models.some(model => model.id === settings.embeddingModel) && (
+                  <option value={settings.embeddingModel}>{settings.embeddingModel}</option>
+                )}
+              </select>
+              {embeddingChanged && ragStatus?.embedding && (
+                <p className="text-xs text-amber-600 mt-2">
+                  현재 인덱스는 {formatEmbeddingModel(ragStatus.embedding.provider, ragStatus.embedding.model)}로 만들어졌습니다. 다음 업데이트 때 모든 페이지를 다시 임베딩하며, 그때까지는 기존 모델로 검색합니다.
+                </p>
+              )}
+              {settings.embeddingProvider === 'local' && (
+                <p className="text-xs text-gray-500 mt-2">
+                  로컬 모델은 처음 사용할 때 한 번 내려받아 캐시합니다. 네트워크 없이 쓰려면 서버의 LOCAL_EMBEDDING_MODEL_DIR에 모델 파일을 두세요.
+                </p>
+              )}
+            </div>
+
+            <div className="mt-8">
+              <label className="block text-sm font-semibold text-gray-700 mb-3">
+                벡터 저장소
+              </label>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {VECTOR_STORES.map(store => (
+                  <label
+                    key={store.id}
+                    className={`relative flex items-start p-4 rounded-xl border-2 cursor-pointer transition-all ${
+                      settings.vectorStore === store.id
+                        ? 'border-indigo-500 bg-indigo-50/50'
+                        : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50/50'
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name="vectorStore"
+                      value={store.id}
+                      checked={settings.vectorStore === store.id}
+                      onChange={() => handleInputChange('vectorStore', store.id)}
+                      className="sr-only"
+                    />
+                    <div className="flex-1">
+                      <div className="font-medium text-gray-900">{store.name}</div>
+                      <div className="text-sm text-gray-600">{store.description}</div>
+                    </div>
+                    {settings.vectorStore === store.id && (
+                      <CheckCircle className="w-5 h-5 text-indigo-600 flex-shrink-0" />
+                    )}
+                  </label>
+                ))}
+              </div>
+              {vectorStoreChanged && ragStatus?.vectorStore && (
+                <p className="text-xs text-amber-600 mt-2">
+                  현재 인덱스는 {getVectorStoreInfo(ragStatus.vectorStore).name}에 저장되어 있습니다. 다음 업데이트 때 새 저장소에 모든 페이지를 다시 임베딩하며, 그때까지는 기존 저장소로 검색합니다.
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Calendar Settings Card */}
+          <div className="card p-8">
+            <div className="flex items-center space-x-3 mb-6">
+              <div className="w-12 h-12 bg-gradient-to-br from-sky-500 to-blue-600 rounded-2xl flex items-center justify-center">
+                <CalendarDays className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">캘린더 설정</h2>
+                <p className="text-gray-600">일정 날짜로 사용할 속성과 캘린더 구독</p>
+              </div>
+            </div>
+
+            <div className="space-y-6">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-3">
+                  일정 날짜 속성
+                </label>
+                <select
+                  value={settings.calendarDateProperty}
+                  onChange={(e) => handleInputChange('calendarDateProperty', e.target.value)}
+                  className="input-field"
+                >
+                  <option value="">자동 선택 (Start Date, 날짜 등)</option>
+                  {dateProperties.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                  {settings.calendarDateProperty && !dateProperties.includes(settings.calendarDateProperty) && (
+                    <option value={settings.calendarDateProperty}>{settings.calendarDateProperty}</option>
+                  )}
+                </select>
+                <p className="text-xs text-gray-500 mt-2">
+                  목록은 RAG 인덱스에 있는 날짜 속성입니다. 자동 선택은 생성 일시/최종 편집 일시 속성을 쓰지 않습니다. 캘린더 페이지와 iCalendar 피드에 함께 적용됩니다.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-3">
+                  iCalendar 구독 URL
+                </label>
+                <div className="flex space-x-2">
+                  <input type="text" readOnly value={calendarFeedUrl} className="input-field font-mono text-sm" />
+                  <button
+                    onClick={copyCalendarFeedUrl}
+                    className="btn-secondary flex items-center space-x-2 shrink-0"
+                    title="URL 복사"
+                  >
+                    <Copy size={16} />
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Google 캘린더, Apple 캘린더, Outlook 등에서 URL로 구독하면 동기화된 일정이 표시됩니다.
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* User Management Card */}
+          {authEnabled && (
+            <div className="card p-8">
+              <div className="flex items-center space-x-3 mb-6">
+                <div className="w-12 h-12 bg-gradient-to-br from-rose-500 to-pink-600 rounded-2xl flex items-center justify-center">
+                  <Users className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900">계정 관리</h2>
+                  <p className="text-gray-600">로컬 계정과 역할 (관리자: 설정·동기화·Notion 편집, 멤버: 채팅)</p>
+                </div>
+              </div>
+
+              <div className="space-y-3 mb-6">
+                {users.length === 0 && (
+                  <p className="text-sm text-gray-500">저장된 로컬 계정이 없습니다. 환경 변수 관리자 계정과 OIDC 로그인은 여기에 표시되지 않습니다.</p>
+                )}
+                {users.map(user => (
+                  <div key={user.username} className="flex items-center space-x-3 p-3 border border-gray-200 rounded-xl bg-white/60">
+                    <div className="flex-1">
+                      <div className="font-medium text-gray-900">{user.name}</div>
+                      <div className="text-xs text-gray-500">{user.username}</div>
+                    </div>
+                    <select
+                      value={user.role}
+                      onChange={(e) => saveUser({ username: user.username, role: e.target.value as Role })}
+                      className="input-field w-32"
+                    >
+                      <option value="member">멤버</option>
+                      <option value="admin">관리자</option>
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => removeUser(user.username)}
+                      className="p-2 text-gray-500 hover:text-red-600 transition-colors"
+                      title="삭제"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  value={newUser.username}
+                  onChange={(e) => setNewUser(prev => ({ ...prev, username: e.target.value }))}
+                  placeholder="사용자 이름"
+                  className="input-field"
+                />
+                <input
+                  type="text"
+                  value={newUser.name}
+                  onChange={(e) => setNewUser(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="표시 이름 (선택)"
+                  className="input-field"
+                />
+                <input
+                  type="password"
+                  value={newUser.password}
+                  onChange={(e) => setNewUser(prev => ({ ...prev, password: e.target.value }))}
+                  placeholder="비밀번호 (8자 이상)"
+                  autoComplete="new-password"
+                  className="input-field"
+                />
+                <select
+                  value={newUser.role}
+                  onChange={(e) => setNewUser(prev => ({ ...prev, role: e.target.value as Role }))}
+                  className="input-field"
+                >
+                  <option value="member">멤버</option>
+                  <option value="admin">관리자</option>
+                </select>
+              </div>
+              <div className="flex justify-end mt-3">
+                <button
+                  type="button"
+                  onClick={addUser}
+                  disabled={!newUser.username || !newUser.password}
+                  className="btn-secondary flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Plus size={16} />
+                  <span>계정 추가</span>
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* System Management Card */}
           <div className="card p-8">
             <div className="flex items-center space-x-3 mb-6">
@@ -347,7 +1244,7 @@ export default function SettingsPage() {
               <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
                 <div className="flex-1">
                   <p className="text-gray-700 font-medium mb-2">
-                    Notion 데이터를 가져와 RAG 시스템을 업데이트합니다.
+                    Notion 데이터를 가져와 변경된 페이지만 RAG 인덱스에 반영합니다.
                   </p>
                   <div className="space-y-2">
                     {ragStatus && ragStatus.isReady ? (
@@ -358,8 +1255,17 @@ export default function SettingsPage() {
                         </div>
                         <div className="flex items-center space-x-2 text-sm text-gray-600">
                           <Search className="w-4 h-4" />
-                          <span>{ragStatus.chunksCount}개 문서 청크, {ragStatus.embeddingsCount}개 임베딩</span>
+                          <span>{ragStatus.pagesCount}개 페이지, {ragStatus.chunksCount}개 문서 청크, {ragStatus.embeddingsCount}개 임베딩</span>
                         </div>
+                        {ragStatus.embedding && (
+                          <div className="flex items-center space-x-2 text-sm text-gray-600">
+                            <Brain className="w-4 h-4" />
+                            <span>
+                              {formatEmbeddingModel(ragStatus.embedding.provider, ragStatus.embedding.model)} ({ragStatus.embedding.dimension}차원)
+                              {ragStatus.vectorStore && ` · ${getVectorStoreInfo(ragStatus.vectorStore).name}`}
+                            </span>
+                          </div>
+                        )}
                       </>
                     ) : (
                       <div className="flex items-center space-x-2 text-sm text-orange-600">
@@ -375,14 +1281,36 @@ export default function SettingsPage() {
                     )}
                   </div>
                 </div>
-                <button
-                  onClick={updateSystemData}
-                  disabled={isUpdatingSystem || !settings.openaiApiKey || !settings.notionApiKey || !settings.notionDatabaseId}
-                  className="btn-primary flex items-center space-x-2 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:transform-none bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-700 hover:to-purple-700"
-                >
-                  <Brain size={18} className={isUpdatingSystem ? 'animate-pulse' : ''} />
-                  <span>{isUpdatingSystem ? '시스템 업데이트 중...' : 'Notion & RAG 업데이트'}</span>
-                </button>
+                <div className="flex flex-col gap-3">
+                  <button
+                    onClick={updateSystemData}
+                    disabled={isUpdatingSystem || isImporting}
+                    className="btn-primary flex items-center justify-center space-x-2 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:transform-none bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-700 hover:to-purple-700"
+                  >
+                    <Brain size={18} className={isUpdatingSystem ? 'animate-pulse' : ''} />
+                    <span>{isUpdatingSystem ? '시스템 업데이트 중...' : 'Notion & RAG 업데이트'}</span>
+                  </button>
+                  {/* API 키 없이 Notion "Markdown & CSV" 내보내기 압축 파일로 인덱싱 */}
+                  <input
+                    ref={exportFileInput}
+                    type="file"
+                    accept=".zip,application/zip"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) importNotionExport(file);
+                    }}
+                    className="hidden"
+                  />
+                  <button
+                    onClick={() => exportFileInput.current?.click()}
+                    disabled={isUpdatingSystem || isImporting}
+                    className="btn-secondary flex items-center justify-center space-x-2 whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:transform-none"
+                    title="Notion에서 '내보내기 → Markdown & CSV'로 받은 압축 파일"
+                  >
+                    <Upload size={18} className={isImporting ? 'animate-pulse' : ''} />
+                    <span>{isImporting ? '가져오는 중...' : 'Notion 내보내기 가져오기'}</span>
+                  </button>
+                </div>
               </div>
             </div>
           </div>
@@ -0,0 +1,232 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextResponse } from 'next/server';
+import {
+  Role,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  SessionUser,
+  USER_ID_HEADER,
+  USER_VERSION_HEADER,
+  createSessionToken,
+  getRequestRole,
+  isAuthEnabled,
+} from '@/lib/session';
+
+/**
+ * 로컬 계정 (비밀번호는 scrypt 해시로만 저장)
+ */
+interface StoredUser {
+  username: string;
+  name: string;
+  role: Role;
+  passwordHash: string;
+  createdAt: string;
+  sessionVersion?: number; // 역할이나 비밀번호를 바꾸면 새 값으로 바뀌어 이전 세션과 피드 토큰이 무효화됨
+}
+
+export type UserSummary = Omit<StoredUser, 'passwordHash' | 'sessionVersion'>;
+
+const MIN_PASSWORD_LENGTH = 8;
+const USERNAME = /^[a-zA-Z0-9._@-]{2,64}$/;
+const SCRYPT_KEY_LENGTH = 64;
+
+/**
+ * 비밀번호 해시 (`scrypt:솔트:해시`, base64)
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt:${salt.toString('base64')}:${hash.toString('base64')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = scryptSync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * 사용자 이름과 비밀번호 확인
+ *
+ * AUTH_ADMIN_USERNAME/AUTH_ADMIN_PASSWORD 환경 변수의 관리자 계정은 파일에 저장하지 않고 항상 사용할 수 있습니다.
+ */
+export function authenticateLocal(username: string, password: string): SessionUser | null {
+  const adminUsername = process.env.AUTH_ADMIN_USERNAME;
+  const adminPassword = process.env.AUTH_ADMIN_PASSWORD;
+  if (adminUsername && adminPassword && username === adminUsername) {
+    return safeEqual(password, adminPassword)
+      ? { id: username, name: username, role: 'admin', provider: 'local' }
+      : null;
+  }
+
+  const user = readUsers().find(item => item.username === username);
+  if (!user || !verifyPassword(password, user.passwordHash)) return null;
+
+  return { id: user.username, name: user.name, role: user.role, provider: 'local', version: user.sessionVersion };
+}
+
+/**
+ * 서명된 세션의 사용자를 계정 파일과 다시 대조해 현재 역할 반환
+ *
+ * 삭제된 계정이거나 세션 버전이 달라졌으면 null입니다. 환경 변수 관리자와 OIDC 사용자는
+ * 계정 파일에 없으므로 토큰의 역할을 그대로 씁니다.
+ */
+export function resolveCurrentRole(userId: string, tokenRole: Role, version?: number): Role | null {
+  if (userId.startsWith('oidc:')) return tokenRole;
+
+  if (userId === process.env.AUTH_ADMIN_USERNAME) {
+    return process.env.AUTH_ADMIN_PASSWORD ? 'admin' : null;
+  }
+
+  const user = readUsers().find(item => item.username === userId);
+  if (!user || user.sessionVersion !== version) return null;
+
+  return user.role;
+}
+
+/**
+ * 미들웨어가 전달한 사용자의 현재 역할 (로그인을 쓰지 않으면 'admin')
+ *
+ * 미들웨어(Edge 런타임)는 토큰의 서명과 만료만 확인하므로, 계정 삭제와 역할 변경은 여기서 반영합니다.
+ */
+export function getVerifiedRole(request: Request): Role | null {
+  if (!isAuthEnabled()) return 'admin';
+
+  const userId = request.headers.get(USER_ID_HEADER);
+  const tokenRole = getRequestRole(request);
+  if (!userId || !tokenRole) return null;
+
+  const version = request.headers.get(USER_VERSION_HEADER);
+  return resolveCurrentRole(userId, tokenRole, version ? Number(version) : undefined);
+}
+
+/**
+ * API 라우트 권한 확인 (통과하면 null, 아니면 401/403 응답)
+ */
+export function authorizeRequest(request: Request, required: Role = 'member'): NextResponse | null {
+  const role = getVerifiedRole(request);
+
+  if (!role) {
+    return clearSessionCookie(NextResponse.json({ error: '로그인이 필요합니다.' }, { status: 401 }));
+  }
+  if (required === 'admin' && role !== 'admin') {
+    return NextResponse.json({ error: '관리자만 사용할 수 있습니다.' }, { status: 403 });
+  }
+
+  return null;
+}
+
+/**
+ * 로컬 로그인을 쓸 수 있는지 (환경 변수 관리자 또는 저장된 계정이 있을 때)
+ */
+export function isLocalLoginAvailable(): boolean {
+  return Boolean(process.env.AUTH_ADMIN_USERNAME && process.env.AUTH_ADMIN_PASSWORD) || readUsers().length > 0;
+}
+
+export function listUsers(): UserSummary[] {
+  return readUsers().map(toSummary);
+}
+
+/**
+ * 계정 추가 또는 수정 (비밀번호를 생략하면 기존 비밀번호 유지)
+ */
+export function saveUser(input: { username: string; name?: string; password?: string; role: Role }): UserSummary {
+  if (!USERNAME.test(input.username)) {
+    throw new Error('사용자 이름은 2~64자의 영문, 숫자, ._@- 만 사용할 수 있습니다.');
+  }
+  if (input.username === process.env.AUTH_ADMIN_USERNAME) {
+    throw new Error('환경 변수로 설정한 관리자 계정은 수정할 수 없습니다.');
+  }
+  if (input.password !== undefined && input.password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다.`);
+  }
+
+  const users = readUsers();
+  const existing = users.find(user => user.username === input.username);
+
+  if (!existing && input.password === undefined) {
+    throw new Error('새 계정에는 비밀번호가 필요합니다.');
+  }
+
+  // 새 계정이거나 역할/비밀번호가 바뀌면 세션 버전을 새로 발급 (같은 이름으로 다시 만든 계정도 이전 세션을 쓸 수 없음)
+  const credentialsChanged = !existing || existing.role !== input.role || input.password !== undefined;
+
+  const user: StoredUser = {
+    username: input.username,
+    name: input.name?.trim() || existing?.name || input.username,
+    role: input.role,
+    passwordHash: input.password !== undefined ? hashPassword(input.password) : existing!.passwordHash,
+    createdAt: existing?.createdAt || new Date().toISOString(),
+    sessionVersion: credentialsChanged ? Math.max(Date.now(), (existing?.sessionVersion ?? 0) + 1) : existing.sessionVersion,
+  };
+
+  writeUsers(existing ? users.map(item => item === existing ? user : item) : [...users, user]);
+
+  return toSummary(user);
+}
+
+export function deleteUser(username: string): boolean {
+  const users = readUsers();
+  const remaining = users.filter(user => user.username !== username);
+  if (remaining.length === users.length) return false;
+
+  writeUsers(remaining);
+  return true;
+}
+
+/**
+ * 로그인 응답에 세션 쿠키 설정
+ */
+export async function setSessionCookie(response: NextResponse, user: SessionUser): Promise<NextResponse> {
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(user), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: SESSION_MAX_AGE,
+    path: '/',
+  });
+  return response;
+}
+
+export function clearSessionCookie(response: NextResponse): NextResponse {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, sameSite: 'lax', maxAge: 0, path: '/' });
+  return response;
+}
+
+function readUsers(): StoredUser[] {
+  const usersPath = getUsersPath();
+  if (!fs.existsSync(usersPath)) return [];
+
+  const data = JSON.parse(fs.readFileSync(usersPath, 'utf-8'));
+  return Array.isArray(data.users) ? data.users : [];
+}
+
+function writeUsers(users: StoredUser[]) {
+  const usersPath = getUsersPath();
+  // 쓰는 도중 다른 요청이 읽지 않도록 임시 파일에 쓴 뒤 교체 (소유자만 읽을 수 있도록)
+  fs.writeFileSync(`${usersPath}.tmp`, JSON.stringify({ users }), { mode: 0o600 });
+  fs.renameSync(`${usersPath}.tmp`, usersPath);
+}
+
+/**
+ * 계정 파일 경로 (AUTH_USERS_PATH 환경 변수가 없으면 임시 디렉토리 사용)
+ */
+function getUsersPath(): string {
+  return process.env.AUTH_USERS_PATH || path.join(os.tmpdir(), 'users.json');
+}
+
+function toSummary(user: StoredUser): UserSummary {
+  return { username: user.username, name: user.name, role: user.role, createdAt: user.createdAt };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendarEvents } from '@/lib/calendar';
+import type { DocumentChunk } from '@/lib/rag';
+
+function chunk(pageId: string, properties: Record<string, string>, timestampProperties?: string[]): DocumentChunk {
+  return {
+    id: `${pageId}_chunk_0`,
+    content: '',
+    metadata: { title: pageId, pageId, lastModified: '2025-06-23T01:55:00.000Z', properties, timestampProperties },
+  };
+}
+
+describe('buildCalendarEvents 날짜 속성 자동 선택', () => {
+  it('시작일로 보이는 속성과 종료일 속성으로 일정을 만든다', () => {
+    const [event] = buildCalendarEvents([chunk('shaperank', { 'Start Date': '2025-06-20', 'End Date': '2025-06-22' })]);
+
+    expect(event).toMatchObject({ dateProperty: 'Start Date', start: '2025-06-20', end: '2025-06-22', allDay: true });
+  });
+
+  it('생성/수정 일시 속성은 자동으로 고르지 않는다', () => {
+    const timestamps = { Created: '2025-06-23T01:22:00.000Z', 'Last edited': '2025-06-23T01:55:00.000Z' };
+    const events = buildCalendarEvents([
+      chunk('no-date', timestamps, ['Created', 'Last edited']),
+      chunk('deadline', { ...timestamps, Deadline: '2025-07-01' }, ['Created', 'Last edited']),
+    ]);
+
+    expect(events.map(event => [event.id, event.dateProperty])).toEqual([['deadline', 'Deadline']]);
+  });
+
+  it('직접 지정하면 생성/수정 일시 속성도 쓴다', () => {
+    const events = buildCalendarEvents([chunk('no-date', { Created: '2025-06-23T01:22:00.000Z' }, ['Created'])], 'Created');
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ dateProperty: 'Created', allDay: false });
+  });
+});
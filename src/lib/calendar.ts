@@ -0,0 +1,239 @@
+import type { DocumentChunk } from '@/lib/rag';
+import { parseDateValue } from '@/lib/date-range';
+
+/**
+ * 인덱스의 날짜 속성으로 만든 일정 (페이지당 하나)
+ */
+export interface CalendarEvent {
+  id: string; // Notion 페이지 ID
+  title: string;
+  url?: string;
+  lastModified: string;
+  start: string; // Notion 날짜 값 (YYYY-MM-DD 또는 ISO 날짜시간)
+  end: string | null;
+  allDay: boolean;
+  dateProperty: string; // 일정 날짜로 사용한 속성 이름
+  properties: Record<string, any>; // eslint-disable-line @typescript-eslint/no-explicit-any
+}
+
+// 날짜 속성이 여러 개일 때 일정 시작일로 우선 사용할 속성 이름
+const START_PROPERTY_NAMES = ['start date', 'start', 'date', 'due date', 'due', '날짜', '일정', '시작일', '시작', '기간', '마감일'];
+// `_end` 범위가 없을 때 종료일로 사용할 속성 이름
+const END_PROPERTY_NAMES = ['end date', 'end', '종료일', '종료', '끝'];
+
+// iCalendar DESCRIPTION으로 사용할 속성 이름
+const DESCRIPTION_PROPERTY_NAMES = ['description', 'summary', '설명', '요약', '내용', '비고', 'notes'];
+
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}/;
+const ICS_LINE_LIMIT = 75; // 줄 길이 제한 (옥텟 기준, RFC 5545)
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000; // 종료 시각이 없는 일정은 1시간으로 표시
+
+/**
+ * 청크 메타데이터에서 날짜 값을 가진 속성 이름 (범위 끝을 나타내는 `_end` 키는 제외)
+ */
+export function getDatePropertyNames(properties: Record<string, unknown> = {}): string[] {
+  return Object.entries(properties)
+    .filter(([key, value]) => !key.endsWith('_end') && typeof value === 'string' && DATE_VALUE.test(value))
+    .map(([key]) => key);
+}
+
+/**
+ * 인덱스 전체에서 쓰이는 날짜 속성 이름 목록
+ */
+export function listDateProperties(chunks: readonly DocumentChunk[]): string[] {
+  const names = new Set<string>();
+  for (const chunk of chunks) {
+    getDatePropertyNames(chunk.metadata.properties).forEach(name => names.add(name));
+  }
+  return Array.from(names).sort();
+}
+
+/**
+ * 인덱스의 청크를 페이지 단위 일정으로 변환
+ *
+ * 속성은 페이지의 모든 청크에 똑같이 들어 있으므로 페이지당 첫 청크만 사용합니다.
+ * `dateProperty`를 지정하면 그 속성만, 아니면 시작일로 보이는 속성을 골라 씁니다.
+ * 생성 일시/최종 편집 일시 속성은 직접 지정했을 때만 사용합니다.
+ */
+export function buildCalendarEvents(chunks: readonly DocumentChunk[], dateProperty?: string): CalendarEvent[] {
+  const events = new Map<string, CalendarEvent>();
+
+  for (const chunk of chunks) {
+    const { pageId, title, url, lastModified, properties = {}, timestampProperties = [] } = chunk.metadata;
+    if (events.has(pageId)) continue;
+
+    const key = pickDateProperty(properties, timestampProperties, dateProperty);
+    if (!key) continue;
+
+    const start: string = properties[key];
+    const end = findEndValue(properties, key);
+
+    events.set(pageId, {
+      id: pageId,
+      title,
+      url,
+      lastModified,
+      start,
+      end: end && end >= start ? end : null,
+      allDay: !start.includes('T'),
+      dateProperty: key,
+      properties,
+    });
+  }
+
+  return Array.from(events.values()).sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * 일정이 걸쳐 있는 날짜 범위 (시간이 있는 일정은 브라우저 시간대의 날짜 기준)
+ */
+export function getEventDays(event: CalendarEvent): { start: Date; end: Date } {
+  const start = toLocalDay(event.start, event.allDay);
+  const end = event.end ? toLocalDay(event.end, event.allDay) : start;
+  return { start, end: end >= start ? end : start };
+}
+
+/**
+ * 일정 목록을 iCalendar(.ics) 문서로 변환
+ *
+ * UID는 페이지 ID로 고정되므로 구독 중인 캘린더 앱이 같은 일정을 갱신합니다.
+ * 종일 일정은 VALUE=DATE와 다음 날짜를 DTEND로, 시간이 있는 일정은 UTC 시각으로 씁니다.
+ */
+export function buildICalendar(events: CalendarEvent[], calendarName: string = 'Notion 일정'): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//notionSchedule//Notion Calendar//KO',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    const description = findDescription(event.properties);
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.id}@notion-schedule`,
+      `DTSTAMP:${formatUtcDateTime(new Date(event.lastModified || Date.now()))}`,
+      ...formatEventTimes(event),
+      `SUMMARY:${escapeText(event.title)}`,
+      ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+      ...(event.url ? [`URL:${event.url}`] : []),
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function formatEventTimes(event: CalendarEvent): string[] {
+  if (event.allDay) {
+    const { start, end } = getEventDays(event);
+    // 종일 일정의 DTEND는 마지막 날의 다음 날 (배타적)
+    const exclusiveEnd = new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1);
+    return [`DTSTART;VALUE=DATE:${formatIcsDate(start)}`, `DTEND;VALUE=DATE:${formatIcsDate(exclusiveEnd)}`];
+  }
+
+  const start = new Date(event.start);
+  const end = event.end ? new Date(event.end) : new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS);
+  return [`DTSTART:${formatUtcDateTime(start)}`, `DTEND:${formatUtcDateTime(end)}`];
+}
+
+function findDescription(properties: Record<string, unknown>): string | null {
+  for (const candidate of DESCRIPTION_PROPERTY_NAMES) {
+    const key = Object.keys(properties).find(name => name.toLowerCase() === candidate);
+    const value = key ? properties[key] : null;
+    if (typeof value === 'string' && value.trim()) return value;
+  }
+  return null;
+}
+
+function formatIcsDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}${month}${day}`;
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// 75옥텟을 넘는 줄은 공백으로 시작하는 다음 줄로 이어 씀 (UTF-8 문자 중간에서 자르지 않음)
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? ICS_LINE_LIMIT : ICS_LINE_LIMIT - 1;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function toLocalDay(value: string, allDay: boolean): Date {
+  if (allDay) {
+    return parseDateValue(value) ?? new Date(value);
+  }
+  const date = new Date(value);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function pickDateProperty(
+  properties: Record<string, unknown>,
+  timestampProperties: readonly string[],
+  preferred?: string
+): string | null {
+  const dateNames = getDatePropertyNames(properties);
+
+  if (preferred) {
+    return dateNames.includes(preferred) ? preferred : null;
+  }
+
+  // 생성/수정 일시는 모든 페이지에 있어 일정이 아닌 페이지까지 캘린더에 올라가므로 자동으로 고르지 않음
+  const names = dateNames.filter(name => !timestampProperties.includes(name));
+  if (names.length === 0) return null;
+
+  for (const candidate of START_PROPERTY_NAMES) {
+    const match = names.find(name => name.toLowerCase() === candidate);
+    if (match) return match;
+  }
+
+  // 종료일로 보이는 속성은 다른 날짜 속성이 없을 때만 사용
+  return names.find(name => !isEndProperty(name)) ?? names[0];
+}
+
+function findEndValue(properties: Record<string, unknown>, key: string): string | null {
+  const rangeEnd = properties[`${key}_end`];
+  if (typeof rangeEnd === 'string') return rangeEnd;
+  if (isEndProperty(key)) return null;
+
+  // "Start Date"와 "End Date"처럼 시작/종료가 별도 속성인 경우
+  const endKey = getDatePropertyNames(properties).find(isEndProperty);
+  const endValue = endKey ? properties[endKey] : null;
+  return typeof endValue === 'string' ? endValue : null;
+}
+
+function isEndProperty(name: string): boolean {
+  return END_PROPERTY_NAMES.includes(name.toLowerCase());
+}
@@ -0,0 +1,59 @@
+import type { ConversationSummary } from '@/lib/conversation';
+import type { NotionActionProposal } from '@/lib/notion-actions';
+import type { SearchQuery } from '@/lib/query-expansion';
+import type { SearchSource } from '@/lib/rag';
+
+/**
+ * /api/chat 스트리밍 응답에서 주고받는 이벤트 (Server-Sent Events 형식)
+ */
+export type ChatStreamEvent =
+  | { type: 'token'; content: string }
+  | {
+      type: 'done';
+      searchInfo: string;
+      ragUsed: boolean;
+      contextLength: number;
+      sources: SearchSource[]; // 답변의 [n] 표시가 가리키는 출처
+      searchQueries: SearchQuery[]; // RAG 검색에 사용한 질의 (디버그 정보)
+      summary: ConversationSummary | null; // 다음 요청에 그대로 돌려보낼 대화 요약
+    }
+  | { type: 'proposal'; proposals: NotionActionProposal[] } // 사용자 승인을 기다리는 Notion 변경
+  | { type: 'error'; error: string };
+
+/**
+ * 이벤트 하나를 SSE `data:` 메시지로 직렬화
+ */
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * 네트워크 청크 단위로 들어오는 SSE 텍스트를 이벤트로 파싱하는 함수 생성
+ *
+ * 청크 경계가 메시지 중간에 걸릴 수 있으므로 빈 줄이 나올 때까지 버퍼에 모아 둡니다.
+ */
+export function createChatEventParser(onEvent: (event: ChatStreamEvent) => void): (chunk: string) => void {
+  let buffer = '';
+
+  return (chunk: string) => {
+    buffer += chunk;
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const message = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = message
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+
+      if (data) {
+        onEvent(JSON.parse(data) as ChatStreamEvent);
+      }
+
+      boundary = buffer.indexOf('\n\n');
+    }
+  };
+}
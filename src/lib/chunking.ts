@@ -0,0 +1,111 @@
+import { findChunkBoundary } from '@/lib/tokenizer';
+
+/**
+ * 페이지 본문을 제목(`#`, `##`, `###`)과 문단 경계에서 나눔
+ *
+ * 제목 단위 구간을 최대 길이까지 이어 붙이고, 한 구간이 너무 길면 줄 단위로 나눕니다.
+ * 구간 중간에서 나뉜 조각은 앞에 상위 제목들을 다시 붙여 어느 부분인지 알 수 있게 합니다.
+ */
+export function splitContent(content: string, maxLength: number): string[] {
+  const text = content.trim();
+  if (!text) return [];
+  if (text.length <= maxLength) return [text];
+
+  const pieces: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) pieces.push(current.trim());
+    current = '';
+  };
+
+  for (const section of splitSections(text)) {
+    if (joinedLength(current, section.text) <= maxLength) {
+      current = join(current, section.text);
+      continue;
+    }
+
+    flush();
+    if (section.text.length <= maxLength) {
+      current = section.text;
+      continue;
+    }
+
+    // 긴 구간은 줄 단위로 채우고, 이어지는 조각마다 상위 제목을 반복
+    const prefix = section.headings.join('\n');
+    for (const line of splitLongLines(section.text.split('\n'), maxLength - prefix.length - 1)) {
+      if (joinedLength(current, line) > maxLength) {
+        flush();
+        current = prefix && !line.startsWith('#') ? prefix : '';
+      }
+      current = join(current, line);
+    }
+  }
+  flush();
+
+  return pieces;
+}
+
+interface Section {
+  headings: string[]; // 이 구간까지의 제목 경로 (예: ["# 개요", "## 일정"])
+  text: string;
+}
+
+/**
+ * 제목 줄마다 새 구간 시작
+ */
+function splitSections(text: string): Section[] {
+  const sections: Section[] = [];
+  const headingPath: string[] = [];
+  let lines: string[] = [];
+  let headings: string[] = [];
+
+  const push = () => {
+    const sectionText = lines.join('\n').trim();
+    if (sectionText) sections.push({ headings, text: sectionText });
+  };
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(/^(#{1,3})\s/);
+    if (heading) {
+      push();
+      // 같거나 높은 수준의 제목이 나오면 그 아래 제목은 경로에서 제거
+      headingPath.length = Math.min(headingPath.length, heading[1].length - 1);
+      headingPath.push(line.trim());
+      headings = [...headingPath];
+      lines = [];
+    }
+    lines.push(line);
+  }
+  push();
+
+  return sections;
+}
+
+/**
+ * 한 줄이 최대 길이를 넘으면 문장/공백 경계에서 나눔
+ */
+function splitLongLines(lines: string[], maxLength: number): string[] {
+  const limit = Math.max(maxLength, 100);
+  const result: string[] = [];
+
+  for (const line of lines) {
+    let start = 0;
+    while (line.length - start > limit) {
+      const end = findChunkBoundary(line, start + Math.floor(limit / 2), start + limit);
+      result.push(line.slice(start, end).trim());
+      start = end;
+    }
+    result.push(line.slice(start));
+  }
+
+  return result;
+}
+
+function join(current: string, text: string): string {
+  return current ? `${current}\n${text}` : text;
+}
+
+function joinedLength(current: string, text: string): number {
+  return current ? current.length + 1 + text.length : text.length;
+}
@@ -0,0 +1,184 @@
+import type { LLMProvider } from '@/lib/llm';
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * 오래된 대화를 요약한 내용과 요약에 포함된 앞쪽 메시지 수
+ */
+export interface ConversationSummary {
+  content: string;
+  messageCount: number;
+}
+
+export interface PreparedConversation {
+  messages: ConversationMessage[]; // 토큰 예산 안에서 그대로 보낼 최근 메시지
+  summary: ConversationSummary | null;
+}
+
+export const HISTORY_TOKEN_BUDGET = 2000;
+const SUMMARY_MAX_TOKENS = 400;
+
+/**
+ * 대략적인 토큰 수 추정 (한글 등 비ASCII 문자는 글자당 1토큰, ASCII는 4자당 1토큰)
+ */
+export function estimateTokens(text: string): number {
+  let nonAscii = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) > 127) nonAscii++;
+  }
+  return nonAscii + Math.ceil((text.length - nonAscii) / 4);
+}
+
+/**
+ * 요청 본문의 대화 기록을 검증해 정리
+ */
+export function sanitizeHistory(history: unknown): ConversationMessage[] {
+  if (!Array.isArray(history)) return [];
+
+  return history
+    .filter((item): item is ConversationMessage =>
+      !!item &&
+      (item.role === 'user' || item.role === 'assistant') &&
+      typeof item.content === 'string' &&
+      item.content.trim() !== ''
+    )
+    .map(({ role, content }) => ({ role, content }));
+}
+
+/**
+ * 클라이언트가 돌려보낸 대화 요약 검증
+ */
+export function sanitizeSummary(summary: unknown): ConversationSummary | null {
+  if (!summary || typeof summary !== 'object') return null;
+
+  const { content, messageCount } = summary as Record<string, unknown>;
+  if (typeof content !== 'string' || !content || typeof messageCount !== 'number' || messageCount < 0) {
+    return null;
+  }
+  return { content, messageCount: Math.floor(messageCount) };
+}
+
+/**
+ * 최근 대화는 토큰 예산 안에서 그대로 두고, 넘치는 앞쪽 대화는 요약에 합침
+ *
+ * 요약은 클라이언트가 다음 요청에 다시 보내므로 이미 요약된 메시지를 매번 다시 요약하지 않습니다.
+ */
+export async function prepareConversation(
+  llm: LLMProvider,
+  history: ConversationMessage[],
+  previousSummary: ConversationSummary | null,
+  tokenBudget: number = HISTORY_TOKEN_BUDGET
+): Promise<PreparedConversation> {
+  const summary = previousSummary && previousSummary.messageCount <= history.length ? previousSummary : null;
+  const pending = history.slice(summary?.messageCount || 0);
+
+  // 가장 최근 메시지부터 예산이 허용하는 만큼 유지
+  let keptCount = 0;
+  let usedTokens = 0;
+  for (let i = pending.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(pending[i].content);
+    if (usedTokens + tokens > tokenBudget) break;
+    usedTokens += tokens;
+    keptCount++;
+  }
+
+  const overflow = pending.slice(0, pending.length - keptCount);
+  const messages = pending.slice(pending.length - keptCount);
+
+  if (overflow.length === 0) {
+    return { messages, summary };
+  }
+
+  try {
+    const content = await summarizeConversation(llm, summary?.content || '', overflow);
+    return {
+      messages,
+      summary: {
+        content,
+        messageCount: (summary?.messageCount || 0) + overflow.length,
+      },
+    };
+  } catch (error) {
+    // 요약에 실패하면 넘치는 대화는 버리고 기존 요약만 유지
+    console.warn('대화 요약 실패, 오래된 대화를 제외합니다:', error);
+    return { messages, summary };
+  }
+}
+
+/**
+ * 대화 맥락을 반영해 후속 질문을 검색용 독립 질문으로 다시 쓰기
+ *
+ * "그 프로젝트" 같은 지시어를 실제 이름으로 바꿔 검색이 올바른 청크를 찾도록 합니다.
+ */
+export async function rewriteQuery(
+  llm: LLMProvider,
+  messages: ConversationMessage[],
+  summary: ConversationSummary | null,
+  question: string
+): Promise<string> {
+  if (messages.length === 0 && !summary) {
+    return question;
+  }
+
+  const transcript = formatTranscript(messages.slice(-6));
+
+  try {
+    const completion = await llm.chat(
+      [
+        {
+          role: 'system',
+          content: `대화 기록을 참고하여 사용자의 마지막 질문을 검색에 사용할 독립적인 질문 한 문장으로 다시 쓰세요.
+지시어(그, 이, 저것, 거기 등)는 대화에 나온 실제 이름으로 바꾸고, 날짜 표현은 그대로 유지하세요.
+이미 독립적인 질문이라면 그대로 반환하세요. 질문 외의 다른 말은 쓰지 마세요.`,
+        },
+        {
+          role: 'user',
+          content: `${summary ? `이전 대화 요약:\n${summary.content}\n\n` : ''}대화 기록:\n${transcript}\n\n마지막 질문: ${question}`,
+        },
+      ],
+      { temperature: 0, maxTokens: 200 }
+    );
+
+    const rewritten = completion.content.trim();
+    return rewritten || question;
+  } catch (error) {
+    console.warn('검색 질문 재작성 실패, 원래 질문을 사용합니다:', error);
+    return question;
+  }
+}
+
+async function summarizeConversation(
+  llm: LLMProvider,
+  previousSummary: string,
+  messages: ConversationMessage[]
+): Promise<string> {
+  const completion = await llm.chat(
+    [
+      {
+        role: 'system',
+        content: `다음 대화를 이후 대화에서 참고할 수 있도록 한국어로 간결하게 요약하세요.
+언급된 프로젝트, 사람, 날짜, 결정 사항 등 고유한 정보는 빠뜨리지 마세요.`,
+      },
+      {
+        role: 'user',
+        content: `${previousSummary ? `기존 요약:\n${previousSummary}\n\n` : ''}추가 대화:\n${formatTranscript(messages)}`,
+      },
+    ],
+    { temperature: 0, maxTokens: SUMMARY_MAX_TOKENS }
+  );
+
+  const content = completion.content.trim();
+  if (!content) {
+    throw new Error('요약 결과가 비어 있습니다.');
+  }
+  return content;
+}
+
+function formatTranscript(messages: ConversationMessage[]): string {
+  return messages
+    .map(message => `${message.role === 'user' ? '사용자' : '어시스턴트'}: ${message.content}`)
+    .join('\n');
+}
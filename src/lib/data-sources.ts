@@ -0,0 +1,128 @@
+/**
+ * 인덱싱할 Notion 데이터베이스 (설정 페이지에서 여러 개 등록)
+ */
+export interface DataSource {
+  id: string; // 이름을 바꿔도 유지되는 내부 식별자 (청크의 metadata.source)
+  name: string; // 답변과 출처에 표시할 이름
+  databaseId: string;
+  enabled: boolean;
+  propertyMapping?: Record<string, string>; // Notion 속성 이름 -> 인덱스에서 쓸 이름
+  kind?: 'export'; // Notion 내보내기(Markdown & CSV)에서 가져온 소스는 API로 동기화하거나 편집하지 않음
+  importedAt?: string; // 내보내기를 마지막으로 가져온 시각
+}
+
+// 단일 데이터베이스 설정(notionDatabaseId)에서 옮겨 온 소스의 ID
+export const LEGACY_SOURCE_ID = 'default';
+
+/**
+ * 새 데이터 소스 ID
+ */
+export function createDataSourceId(): string {
+  return `src-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * 설정의 데이터 소스 목록 (이전 형식의 notionDatabaseId는 소스 하나로 변환)
+ */
+export function getDataSources(settings: { dataSources?: unknown; notionDatabaseId?: unknown }): DataSource[] {
+  if (Array.isArray(settings.dataSources) && settings.dataSources.length > 0) {
+    return sanitizeDataSources(settings.dataSources);
+  }
+
+  if (typeof settings.notionDatabaseId === 'string' && settings.notionDatabaseId.trim()) {
+    return [{
+      id: LEGACY_SOURCE_ID,
+      name: '기본 데이터베이스',
+      databaseId: settings.notionDatabaseId.trim(),
+      enabled: true,
+    }];
+  }
+
+  return [];
+}
+
+/**
+ * 요청으로 받은 데이터 소스 목록 검증 (형식이 맞지 않거나 ID가 겹치는 항목은 제외)
+ */
+export function sanitizeDataSources(value: unknown): DataSource[] {
+  if (!Array.isArray(value)) return [];
+
+  const sources: DataSource[] = [];
+  const seenIds = new Set<string>();
+
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const { id, name, databaseId, enabled, propertyMapping, kind, importedAt } = item as Record<string, unknown>;
+    if (typeof id !== 'string' || !id || seenIds.has(id)) continue;
+    if (typeof databaseId !== 'string') continue;
+
+    seenIds.add(id);
+    sources.push({
+      id,
+      name: typeof name === 'string' && name.trim() ? name.trim() : databaseId,
+      databaseId: databaseId.trim(),
+      enabled: enabled !== false,
+      ...(propertyMapping ? { propertyMapping: sanitizePropertyMapping(propertyMapping) } : {}),
+      ...(kind === 'export' ? { kind } : {}),
+      ...(typeof importedAt === 'string' ? { importedAt } : {}),
+    });
+  }
+
+  return sources;
+}
+
+/**
+ * 질문 범위로 사용할 소스 (지정한 ID 중 켜져 있는 것만, 지정하지 않으면 켜진 소스 전체)
+ */
+export function resolveSourceScope(sources: DataSource[], scope?: unknown): DataSource[] {
+  const enabled = sources.filter(source => source.enabled && (source.databaseId || isExportSource(source)));
+  if (!Array.isArray(scope) || scope.length === 0) return enabled;
+
+  const ids = new Set(scope.filter((id): id is string => typeof id === 'string'));
+  const scoped = enabled.filter(source => ids.has(source.id));
+  return scoped.length > 0 ? scoped : enabled;
+}
+
+/**
+ * 내보내기 파일에서 가져온 소스 (Notion API로 조회할 수 없음)
+ */
+export function isExportSource(source: DataSource): boolean {
+  return source.kind === 'export';
+}
+
+/**
+ * "원래 이름=새 이름" 줄 목록을 속성 매핑으로 변환
+ */
+export function parsePropertyMapping(text: string): Record<string, string> {
+  const mapping: Record<string, string> = {};
+
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf('=');
+    if (separator < 0) continue;
+
+    const from = line.slice(0, separator).trim();
+    const to = line.slice(separator + 1).trim();
+    if (from && to) {
+      mapping[from] = to;
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * 속성 매핑을 설정 화면에 표시할 줄 목록으로 변환
+ */
+export function formatPropertyMapping(mapping: Record<string, string> = {}): string {
+  return Object.entries(mapping).map(([from, to]) => `${from}=${to}`).join('\n');
+}
+
+function sanitizePropertyMapping(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object') return {};
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== ''
+    )
+  );
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { formatDateInterval, parseDateRange } from '@/lib/date-range';
+
+// 2026-10-19 (월요일)
+const now = new Date(2026, 9, 19);
+
+function resolve(query: string): string | null {
+  const interval = parseDateRange(query, now);
+  return interval ? formatDateInterval(interval) : null;
+}
+
+describe('parseDateRange 상대적인 기간', () => {
+  it('주 단위 표현을 월요일부터 일요일까지로 읽는다', () => {
+    expect(resolve('다음 주 일정 알려줘')).toBe('2026-10-26 ~ 2026-11-01');
+    expect(resolve('지난주에 끝난 프로젝트')).toBe('2026-10-12 ~ 2026-10-18');
+    expect(resolve('이번 주말 약속')).toBe('2026-10-24 ~ 2026-10-25');
+  });
+
+  it('월 단위 표현을 읽는다', () => {
+    expect(resolve('이번 달 마감인 작업')).toBe('2026-10-01 ~ 2026-10-31');
+    expect(resolve('지난달에 시작한 프로젝트')).toBe('2026-09-01 ~ 2026-09-30');
+    expect(resolve('7월에 끝난 프로젝트')).toBe('2026-07-01 ~ 2026-07-31');
+  });
+
+  it('분기와 며칠 후를 읽는다', () => {
+    expect(resolve('지난 분기 성과')).toBe('2026-07-01 ~ 2026-09-30');
+    expect(resolve('3일 후 일정')).toBe('2026-10-22');
+  });
+});
+
+describe('parseDateRange 명시적인 날짜 범위', () => {
+  it('같은 해 안의 범위를 읽는다', () => {
+    expect(resolve('6월 20일부터 25일까지 일정')).toBe('2026-06-20 ~ 2026-06-25');
+    expect(resolve('6월 20일부터 7월 2일까지 일정')).toBe('2026-06-20 ~ 2026-07-02');
+    expect(resolve('6/20 회의')).toBe('2026-06-20');
+  });
+
+  it('끝 날짜에 연도가 없고 시작보다 앞서면 다음 해로 넘긴다', () => {
+    expect(resolve('12월 31일부터 1월 2일까지 일정')).toBe('2026-12-31 ~ 2027-01-02');
+    expect(resolve('december 30 to january 3')).toBe('2026-12-30 ~ 2027-01-03');
+    expect(resolve('2025년 12월 31일부터 1월 2일까지')).toBe('2025-12-31 ~ 2026-01-02');
+  });
+
+  it('끝 날짜의 연도가 명시되어 있으면 넘기지 않는다', () => {
+    expect(resolve('2026-12-31 ~ 2026-01-02')).toBe('2026-12-31');
+  });
+});
+
+describe('parseDateRange 기간이 아닌 표현', () => {
+  it('요일이나 다른 단어의 "월", "주"를 기간으로 읽지 않는다', () => {
+    expect(resolve('지난 월요일 회의 내용')).not.toBe('2026-09-01 ~ 2026-09-30');
+    expect(resolve('이번 달력 디자인')).toBeNull();
+    expect(resolve('다음 주제는 무엇인가요')).toBeNull();
+  });
+
+  it('"전달", "전주"를 지난달, 지난주로 읽지 않는다', () => {
+    expect(resolve('전달 사항 정리')).toBeNull();
+    expect(resolve('전주 지점 프로젝트')).toBeNull();
+  });
+
+  it('비율로 쓰인 M/D를 날짜로 읽지 않는다', () => {
+    expect(resolve('1/2 정도 완료된 프로젝트')).toBeNull();
+    expect(resolve('3/4 완료')).toBeNull();
+  });
+});
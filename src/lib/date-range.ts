@@ -0,0 +1,454 @@
+/**
+ * 질문 속 날짜 표현을 현재 날짜 기준의 구체적인 기간으로 변환
+ *
+ * "다음 주", "이번 달", "7월", "지난 분기", "3일 후", "6월 20일부터 25일까지" 같은 한국어 표현과
+ * "next week", "last month", "in 3 days", "June 20 to 25" 같은 영어 표현을 지원합니다.
+ */
+
+export interface DateInterval {
+  start: Date | null; // null이면 시작 제한 없음
+  end: Date | null; // null이면 끝 제한 없음 (포함, 해당 날짜의 23:59:59.999)
+  label: string; // 질문에서 찾은 표현
+}
+
+interface DatePoint {
+  index: number;
+  endIndex: number;
+  year: number | null;
+  month: number; // 1~12
+  day: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ENGLISH_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const ENGLISH_MONTH_PATTERN = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+
+const RANGE_CONNECTOR = /^\s*(?:부터|에서|~|–|-|to|until|through|and)\s*/;
+// "지난달에", "다음 주부터"처럼 기간 표현 바로 뒤에 붙어도 되는 조사 ("월요일", "달력" 같은 단어와 구분)
+const PERIOD_PARTICLE = '(?:(?![가-힣])|(?=에|의|은|는|도|까지|부터|엔))';
+
+/**
+ * 질문에서 첫 번째로 인식되는 날짜 기간 (없으면 null)
+ */
+export function parseDateRange(query: string, now: Date = new Date()): DateInterval | null {
+  const text = query.toLowerCase().replace(/\s+/g, ' ');
+  const today = startOfDay(now);
+
+  return (
+    parseExplicitDates(text, today) ??
+    parseRelativeOffset(text, today) ??
+    parseNamedDay(text, today) ??
+    parseWeek(text, today) ??
+    parseRelativeMonth(text, today) ??
+    parseQuarter(text, today) ??
+    parseMonthName(text, today) ??
+    parseYear(text, today) ??
+    parseVague(text, today)
+  );
+}
+
+/**
+ * 기간을 `YYYY-MM-DD ~ YYYY-MM-DD` 형태로 표시
+ */
+export function formatDateInterval(interval: DateInterval): string {
+  if (interval.start && interval.end) {
+    const start = formatDate(interval.start);
+    const end = formatDate(interval.end);
+    return start === end ? start : `${start} ~ ${end}`;
+  }
+  if (interval.start) return `${formatDate(interval.start)} 이후`;
+  if (interval.end) return `${formatDate(interval.end)} 이전`;
+  return '전체 기간';
+}
+
+/**
+ * 두 기간이 겹치는지 확인 (`end`가 없으면 start 하루로 취급)
+ */
+export function overlapsInterval(interval: DateInterval, start: Date, end: Date = start): boolean {
+  const rangeStart = startOfDay(start).getTime();
+  const rangeEnd = endOfDay(end).getTime();
+
+  if (interval.start && rangeEnd < interval.start.getTime()) return false;
+  if (interval.end && rangeStart > interval.end.getTime()) return false;
+  return true;
+}
+
+/**
+ * Notion 날짜 값(`2025-06-27`, `2025-06-27T10:00:00.000+09:00`)의 날짜 부분을 로컬 날짜로 변환
+ */
+export function parseDateValue(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  return toDate({ year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }, Number(match[1]));
+}
+
+export function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// 명시적인 날짜와 날짜 범위 ("6월 20일부터 25일까지", "2025-06-20 ~ 2025-06-25", "june 20 to 25")
+function parseExplicitDates(text: string, today: Date): DateInterval | null {
+  const points = scanDatePoints(text);
+  if (points.length === 0) return null;
+
+  const first = points[0];
+  const startDate = toDate(first, today.getFullYear());
+  if (!startDate) return null;
+
+  const rest = text.slice(first.endIndex);
+  const connector = rest.match(RANGE_CONNECTOR);
+
+  if (connector) {
+    const afterConnector = first.endIndex + connector[0].length;
+    const second = points.find(point => point.index === afterConnector);
+    let endDate: Date | null = null;
+    let endIndex = afterConnector;
+
+    if (second) {
+      endDate = toDate({ ...second, year: second.year ?? first.year }, today.getFullYear());
+      // 끝 날짜에 연도가 없고 시작보다 앞서면 해를 넘기는 범위 ("12월 31일부터 1월 2일까지")
+      if (endDate && endDate < startDate && second.year === null) {
+        endDate = toDate({ ...second, year: startDate.getFullYear() + 1 }, today.getFullYear());
+      }
+      endIndex = second.endIndex;
+    } else {
+      // 끝 날짜에 월이 생략된 경우 ("20일부터 25일까지", "june 20 to 25")
+      const dayOnly = text.slice(afterConnector).match(/^(\d{1,2})\s*(?:일|st|nd|rd|th)?(?![\d./-])/);
+      if (dayOnly) {
+        endDate = toDate({ ...first, day: Number(dayOnly[1]) }, today.getFullYear());
+        endIndex = afterConnector + dayOnly[0].length;
+      }
+    }
+
+    if (endDate && endDate >= startDate) {
+      return {
+        start: startDate,
+        end: endOfDay(endDate),
+        label: text.slice(first.index, endIndex).replace(/\s*까지$/, '').trim(),
+      };
+    }
+  }
+
+  return {
+    start: startDate,
+    end: endOfDay(startDate),
+    label: text.slice(first.index, first.endIndex).trim(),
+  };
+}
+
+// "3일 후", "2주 전", "3개월 이내", "in 3 days", "2 weeks ago", "within 10 days", "지난 30일"
+function parseRelativeOffset(text: string, today: Date): DateInterval | null {
+  const korean = text.match(/(\d+)\s*(일|주일?|개월|달|년)\s*(후|뒤|전|이내|안에|동안)/);
+  if (korean) {
+    const [label, amount, unit, direction] = korean;
+    const count = Number(amount);
+
+    if (direction === '이내' || direction === '안에' || direction === '동안') {
+      const isPast = /(?:지난|최근|과거)\s*$/.test(text.slice(0, korean.index));
+      return pastOrFutureSpan(today, count, koreanUnit(unit), isPast, label);
+    }
+    const sign = direction === '전' ? -1 : 1;
+    return unitPeriod(shift(today, sign * count, koreanUnit(unit)), koreanUnit(unit), label);
+  }
+
+  const span = text.match(/(지난|최근|과거|앞으로|향후)\s*(\d+)\s*(일|주일?|개월|달|년)/);
+  if (span) {
+    const [label, direction, amount, unit] = span;
+    return pastOrFutureSpan(today, Number(amount), koreanUnit(unit), direction !== '앞으로' && direction !== '향후', label);
+  }
+
+  const englishIn = text.match(/\bin (\d+) (day|week|month|year)s?\b/);
+  if (englishIn) {
+    const unit = englishIn[2] as TimeUnit;
+    return unitPeriod(shift(today, Number(englishIn[1]), unit), unit, englishIn[0]);
+  }
+
+  const englishAgo = text.match(/\b(\d+) (day|week|month|year)s? ago\b/);
+  if (englishAgo) {
+    const unit = englishAgo[2] as TimeUnit;
+    return unitPeriod(shift(today, -Number(englishAgo[1]), unit), unit, englishAgo[0]);
+  }
+
+  const englishSpan = text.match(/\b(within|next|last|past) (\d+) (day|week|month|year)s?\b/);
+  if (englishSpan) {
+    const isPast = englishSpan[1] === 'last' || englishSpan[1] === 'past';
+    return pastOrFutureSpan(today, Number(englishSpan[2]), englishSpan[3] as TimeUnit, isPast, englishSpan[0]);
+  }
+
+  return null;
+}
+
+// "오늘", "내일", "모레", "어제", "그저께"
+function parseNamedDay(text: string, today: Date): DateInterval | null {
+  const named: Array<[RegExp, number]> = [
+    [/그저께|그제|day before yesterday/, -2],
+    [/어제|yesterday/, -1],
+    [/오늘|today|tonight/, 0],
+    [/내일|tomorrow/, 1],
+    [/모레/, 2],
+  ];
+
+  for (const [pattern, offset] of named) {
+    const match = text.match(pattern);
+    if (match) {
+      const day = addDays(today, offset);
+      return { start: day, end: endOfDay(day), label: match[0] };
+    }
+  }
+  return null;
+}
+
+// "이번 주", "다음 주", "지난 주", "다다음 주", "이번 주말", "next week"
+function parseWeek(text: string, today: Date): DateInterval | null {
+  // "전주"(지명), "전달"(전하다)과 헷갈리지 않도록 "전"은 기간 표현으로 보지 않음
+  const korean = text.match(new RegExp(`(이번|금|다음|차|다다음|지난|저번)\\s*(주말|주)${PERIOD_PARTICLE}`));
+  const english = text.match(/\b(this|next|last) (week|weekend)\b/);
+  if (!korean && !english) return null;
+
+  const which = korean ? korean[1] : english![1];
+  const unit = korean ? korean[2] : english![2];
+  const offsets: Record<string, number> = {
+    이번: 0, 금: 0, this: 0,
+    다음: 1, 차: 1, next: 1,
+    다다음: 2,
+    지난: -1, 저번: -1, last: -1,
+  };
+
+  const weekStart = addDays(startOfWeek(today), (offsets[which] ?? 0) * 7);
+  const label = (korean ?? english)![0];
+
+  if (unit === '주말' || unit === 'weekend') {
+    const saturday = addDays(weekStart, 5);
+    return { start: saturday, end: endOfDay(addDays(saturday, 1)), label };
+  }
+  return { start: weekStart, end: endOfDay(addDays(weekStart, 6)), label };
+}
+
+// "이번 달", "다음 달", "지난달", "next month"
+function parseRelativeMonth(text: string, today: Date): DateInterval | null {
+  const korean = text.match(new RegExp(`(이번|금|다음|익|지난|저번)\\s*(달|월)(?!\\s*\\d)${PERIOD_PARTICLE}`));
+  const english = text.match(/\b(this|next|last) month\b/);
+  if (!korean && !english) return null;
+
+  const which = korean ? korean[1] : english![1];
+  const offsets: Record<string, number> = { 이번: 0, 금: 0, this: 0, 다음: 1, 익: 1, next: 1, 지난: -1, 저번: -1, last: -1 };
+  const monthStart = new Date(today.getFullYear(), today.getMonth() + (offsets[which] ?? 0), 1);
+
+  return monthPeriod(monthStart.getFullYear(), monthStart.getMonth() + 1, (korean ?? english)![0]);
+}
+
+// "이번 분기", "지난 분기", "3분기", "2025년 2분기", "q3", "last quarter"
+function parseQuarter(text: string, today: Date): DateInterval | null {
+  const currentQuarter = Math.floor(today.getMonth() / 3);
+
+  const relative = text.match(/(이번|다음|지난|저번|전)\s*분기/) ?? text.match(/\b(this|next|last) quarter\b/);
+  if (relative) {
+    const offsets: Record<string, number> = { 이번: 0, this: 0, 다음: 1, next: 1, 지난: -1, 저번: -1, 전: -1, last: -1 };
+    const quarterIndex = currentQuarter + (offsets[relative[1]] ?? 0);
+    const start = new Date(today.getFullYear(), quarterIndex * 3, 1);
+    const end = new Date(start.getFullYear(), start.getMonth() + 3, 0);
+    return { start, end: endOfDay(end), label: relative[0] };
+  }
+
+  const absolute = text.match(/(?:(\d{4})\s*년\s*)?([1-4])\s*분기/) ?? text.match(/\bq([1-4])(?:\s*(\d{4}))?\b/);
+  if (absolute) {
+    const isKorean = absolute[0].includes('분기');
+    const year = Number((isKorean ? absolute[1] : absolute[2]) || today.getFullYear());
+    const quarter = Number(isKorean ? absolute[2] : absolute[1]);
+    const start = new Date(year, (quarter - 1) * 3, 1);
+    const end = new Date(year, quarter * 3, 0);
+    return { start, end: endOfDay(end), label: absolute[0] };
+  }
+
+  return null;
+}
+
+// "7월", "2025년 7월", "7월 초/중순/말", "july", "july 2025"
+function parseMonthName(text: string, today: Date): DateInterval | null {
+  const korean = text.match(/(?:(\d{4})\s*년\s*)?(\d{1,2})\s*월(?!\s*\d)(?:\s*(초|중순|중|말))?/);
+  if (korean) {
+    const year = Number(korean[1] || today.getFullYear());
+    const month = Number(korean[2]);
+    if (month < 1 || month > 12) return null;
+
+    const period = monthPeriod(year, month, korean[0]);
+    const part = korean[3];
+    if (part === '초') {
+      return { ...period, end: endOfDay(new Date(year, month - 1, 10)) };
+    }
+    if (part === '중순' || part === '중') {
+      return { start: new Date(year, month - 1, 11), end: endOfDay(new Date(year, month - 1, 20)), label: korean[0] };
+    }
+    if (part === '말') {
+      return { ...period, start: new Date(year, month - 1, 21) };
+    }
+    return period;
+  }
+
+  const english = text.match(new RegExp(`\\b${ENGLISH_MONTH_PATTERN}(?:\\s+(\\d{4}))?\\b`));
+  if (english) {
+    const month = ENGLISH_MONTHS.indexOf(english[1]) + 1;
+    return monthPeriod(Number(english[2] || today.getFullYear()), month, english[0]);
+  }
+
+  return null;
+}
+
+// "올해", "내년", "작년", "2024년", "this year"
+function parseYear(text: string, today: Date): DateInterval | null {
+  const named: Array<[RegExp, number]> = [
+    [/올해|금년|이번 ?해|this year/, 0],
+    [/내년|다음 ?해|next year/, 1],
+    [/작년|지난 ?해|전년|last year/, -1],
+  ];
+
+  for (const [pattern, offset] of named) {
+    const match = text.match(pattern);
+    if (match) return yearPeriod(today.getFullYear() + offset, match[0]);
+  }
+
+  const absolute = text.match(/(\d{4})\s*년(?!\s*\d)/) ?? text.match(/\bin (20\d{2})\b/);
+  if (absolute) return yearPeriod(Number(absolute[1]), absolute[0]);
+
+  return null;
+}
+
+// 구체적인 기간이 없는 표현 ("최근", "다가오는", "지난")
+function parseVague(text: string, today: Date): DateInterval | null {
+  const recent = text.match(/최근|요즘|근래|지금|\brecent(?:ly)?\b|\blately\b/);
+  if (recent) {
+    return { start: addDays(today, -7), end: endOfDay(addDays(today, 7)), label: recent[0] };
+  }
+
+  const upcoming = text.match(/다가오는|앞으로|미래|예정|곧|\bupcoming\b|\bsoon\b|\bfuture\b/);
+  if (upcoming) {
+    return { start: today, end: null, label: upcoming[0] };
+  }
+
+  const past = text.match(/지난|과거|전에|이전|\bpast\b|\bprevious\b/);
+  if (past) {
+    return { start: null, end: endOfDay(addDays(today, -1)), label: past[0] };
+  }
+
+  return null;
+}
+
+// 텍스트에서 연/월/일이 모두(또는 월/일이) 명시된 날짜를 위치와 함께 찾기
+function scanDatePoints(text: string): DatePoint[] {
+  const patterns: Array<[RegExp, (match: RegExpExecArray) => Omit<DatePoint, 'index' | 'endIndex'>]> = [
+    [/(\d{4})[-./](\d{1,2})[-./](\d{1,2})/g, m => ({ year: Number(m[1]), month: Number(m[2]), day: Number(m[3]) })],
+    [/(?:(\d{4})\s*년\s*)?(\d{1,2})\s*월\s*(\d{1,2})\s*일/g, m => ({ year: m[1] ? Number(m[1]) : null, month: Number(m[2]), day: Number(m[3]) })],
+    // "1/2 정도", "3/4 완료"처럼 비율로 쓰인 값은 날짜로 보지 않음
+    [
+      /(?<![\d./])(\d{1,2})\/(\d{1,2})(?![\d/])(?!\s*(?:정도|만큼|이상|이하|미만|초과|가량|쯤|씩|배|수준|완료|진행|지점|of\b))/g,
+      m => ({ year: null, month: Number(m[1]), day: Number(m[2]) }),
+    ],
+    [
+      new RegExp(`\\b${ENGLISH_MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'g'),
+      m => ({ year: m[3] ? Number(m[3]) : null, month: ENGLISH_MONTHS.indexOf(m[1]) + 1, day: Number(m[2]) }),
+    ],
+  ];
+
+  const points: DatePoint[] = [];
+  for (const [pattern, toPoint] of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const index = match.index ?? 0;
+      const endIndex = index + match[0].length;
+      // 앞선 패턴이 이미 찾은 위치와 겹치면 무시
+      if (points.some(point => index < point.endIndex && endIndex > point.index)) continue;
+      points.push({ index, endIndex, ...toPoint(match as RegExpExecArray) });
+    }
+  }
+
+  return points.sort((a, b) => a.index - b.index);
+}
+
+type TimeUnit = 'day' | 'week' | 'month' | 'year';
+
+function koreanUnit(unit: string): TimeUnit {
+  if (unit.startsWith('주')) return 'week';
+  if (unit === '개월' || unit === '달') return 'month';
+  if (unit === '년') return 'year';
+  return 'day';
+}
+
+function shift(date: Date, amount: number, unit: TimeUnit): Date {
+  switch (unit) {
+    case 'day':
+      return addDays(date, amount);
+    case 'week':
+      return addDays(date, amount * 7);
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth() + amount, date.getDate());
+    case 'year':
+      return new Date(date.getFullYear() + amount, date.getMonth(), date.getDate());
+  }
+}
+
+// 단위에 맞는 기간 ("3일 후" -> 그날 하루, "2주 후" -> 그 주, "3개월 후" -> 그 달)
+function unitPeriod(date: Date, unit: TimeUnit, label: string): DateInterval {
+  switch (unit) {
+    case 'day':
+      return { start: date, end: endOfDay(date), label };
+    case 'week': {
+      const weekStart = startOfWeek(date);
+      return { start: weekStart, end: endOfDay(addDays(weekStart, 6)), label };
+    }
+    case 'month':
+      return monthPeriod(date.getFullYear(), date.getMonth() + 1, label);
+    case 'year':
+      return yearPeriod(date.getFullYear(), label);
+  }
+}
+
+// 오늘부터 앞으로 / 오늘까지 지난 N 단위 기간
+function pastOrFutureSpan(today: Date, amount: number, unit: TimeUnit, isPast: boolean, label: string): DateInterval {
+  return isPast
+    ? { start: shift(today, -amount, unit), end: endOfDay(today), label }
+    : { start: today, end: endOfDay(shift(today, amount, unit)), label };
+}
+
+function monthPeriod(year: number, month: number, label: string): DateInterval {
+  return {
+    start: new Date(year, month - 1, 1),
+    end: endOfDay(new Date(year, month, 0)),
+    label,
+  };
+}
+
+function yearPeriod(year: number, label: string): DateInterval {
+  return {
+    start: new Date(year, 0, 1),
+    end: endOfDay(new Date(year, 11, 31)),
+    label,
+  };
+}
+
+function toDate(point: Pick<DatePoint, 'year' | 'month' | 'day'>, defaultYear: number): Date | null {
+  const year = point.year ?? defaultYear;
+  const date = new Date(year, point.month - 1, point.day);
+  // 2월 30일처럼 존재하지 않는 날짜는 무시
+  if (date.getMonth() !== point.month - 1 || date.getDate() !== point.day) return null;
+  return date;
+}
+
+// 한 주는 월요일부터 시작
+function startOfWeek(date: Date): Date {
+  const day = (date.getDay() + 6) % 7;
+  return addDays(startOfDay(date), -day);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function endOfDay(date: Date): Date {
+  return new Date(startOfDay(date).getTime() + DAY_MS - 1);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
@@ -0,0 +1,70 @@
+// 설정 페이지(클라이언트)에서도 쓰므로 모델 실행 코드 없이 제공자 정보만 둠
+
+export type EmbeddingProviderId = 'openai' | 'local';
+
+export interface EmbeddingModelOption {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface EmbeddingProviderInfo {
+  id: EmbeddingProviderId;
+  name: string;
+  description: string;
+  defaultModel: string;
+  models: EmbeddingModelOption[];
+  requiresApiKey: boolean;
+}
+
+/**
+ * 인덱스를 만든 임베딩 모델 (검색 시 같은 모델로 쿼리를 임베딩해야 함)
+ */
+export interface EmbeddingInfo {
+  provider: EmbeddingProviderId;
+  model: string;
+  dimension: number;
+}
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderInfo[] = [
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    description: 'OpenAI 임베딩 API',
+    defaultModel: 'text-embedding-3-small',
+    models: [
+      { id: 'text-embedding-3-small', name: 'text-embedding-3-small', description: '1536차원, 빠르고 경제적' },
+      { id: 'text-embedding-3-large', name: 'text-embedding-3-large', description: '3072차원, 더 높은 정확도' },
+    ],
+    requiresApiKey: true,
+  },
+  {
+    id: 'local',
+    name: '로컬 (CPU)',
+    description: 'transformers.js로 서버에서 직접 실행, 외부 호출 없음',
+    defaultModel: 'Xenova/multilingual-e5-small',
+    models: [
+      { id: 'Xenova/multilingual-e5-small', name: 'multilingual-e5-small', description: '384차원, 한국어 포함 다국어 검색용' },
+      { id: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2', name: 'paraphrase-multilingual-MiniLM-L12-v2', description: '384차원, 가벼운 다국어 문장 임베딩' },
+    ],
+    requiresApiKey: false,
+  },
+];
+
+// 임베딩 정보를 기록하기 전에 만든 인덱스는 모두 이 모델로 만들어짐
+export const LEGACY_EMBEDDING: EmbeddingInfo = {
+  provider: 'openai',
+  model: 'text-embedding-3-small',
+  dimension: 1536,
+};
+
+/**
+ * 제공자 ID의 정보 (알 수 없는 값이면 OpenAI)
+ */
+export function getEmbeddingProviderInfo(id: unknown): EmbeddingProviderInfo {
+  return EMBEDDING_PROVIDERS.find(provider => provider.id === id) || EMBEDDING_PROVIDERS[0];
+}
+
+export function formatEmbeddingModel(provider: EmbeddingProviderId, model: string): string {
+  return `${getEmbeddingProviderInfo(provider).name} ${model}`;
+}
@@ -0,0 +1,131 @@
+import OpenAI from 'openai';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { EmbeddingProviderId, getEmbeddingProviderInfo } from '@/lib/embedding-providers';
+import type { WorkspaceSecrets } from '@/lib/secret-store';
+
+/**
+ * 문서와 쿼리를 벡터로 바꾸는 임베딩 제공자
+ */
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  model: string;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderId;
+  model: string;
+  apiKey?: string;
+}
+
+// 로컬 모델은 CPU에서 실행되므로 한 번에 조금씩 처리
+const LOCAL_BATCH_SIZE = 16;
+
+let localPipeline: { model: string; extractor: Promise<FeatureExtractionPipeline> } | null = null;
+
+/**
+ * 요청 설정과 키로 사용할 임베딩 설정 구성
+ *
+ * 설정에 없는 값은 EMBEDDING_PROVIDER/EMBEDDING_MODEL 환경 변수, 그다음 제공자 기본값을 사용합니다.
+ */
+export function resolveEmbeddingConfig(settings: Record<string, unknown>, secrets: WorkspaceSecrets): EmbeddingConfig {
+  const info = getEmbeddingProviderInfo(stringValue(settings.embeddingProvider) || process.env.EMBEDDING_PROVIDER);
+  const model = stringValue(settings.embeddingModel) || process.env.EMBEDDING_MODEL || info.defaultModel;
+
+  if (info.requiresApiKey && !secrets.openaiApiKey) {
+    throw new Error(`${info.name} 임베딩에는 OpenAI API 키가 필요합니다.`);
+  }
+
+  return { provider: info.id, model, apiKey: info.requiresApiKey ? secrets.openaiApiKey : undefined };
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIEmbeddings(config);
+    case 'local':
+      return createLocalEmbeddings(config);
+    default:
+      throw new Error(`지원하지 않는 임베딩 제공자입니다: ${String(config.provider)}`);
+  }
+}
+
+function createOpenAIEmbeddings(config: EmbeddingConfig): EmbeddingProvider {
+  const openai = new OpenAI({ apiKey: config.apiKey });
+
+  return {
+    id: 'openai',
+    model: config.model,
+
+    async embedDocuments(texts) {
+      const response = await openai.embeddings.create({ model: config.model, input: texts });
+      return response.data.map(item => item.embedding);
+    },
+
+    async embedQuery(text) {
+      const response = await openai.embeddings.create({ model: config.model, input: text });
+      return response.data[0].embedding;
+    },
+  };
+}
+
+/**
+ * transformers.js(ONNX)로 서버 CPU에서 실행하는 임베딩
+ *
+ * 모델은 처음 사용할 때 Hugging Face Hub에서 받아 캐시하며,
+ * LOCAL_EMBEDDING_MODEL_DIR을 설정하면 그 디렉토리의 모델만 사용해 네트워크에 접근하지 않습니다.
+ */
+function createLocalEmbeddings(config: EmbeddingConfig): EmbeddingProvider {
+  // E5 계열 모델은 쿼리와 문서에 서로 다른 접두어를 붙여 학습됨
+  const isE5 = /e5/i.test(config.model);
+
+  const embed = async (texts: string[]): Promise<number[][]> => {
+    const extractor = await getLocalPipeline(config.model);
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += LOCAL_BATCH_SIZE) {
+      const output = await extractor(texts.slice(i, i + LOCAL_BATCH_SIZE), { pooling: 'mean', normalize: true });
+      vectors.push(...(output.tolist() as number[][]));
+    }
+    return vectors;
+  };
+
+  return {
+    id: 'local',
+    model: config.model,
+    embedDocuments: texts => embed(isE5 ? texts.map(text => `passage: ${text}`) : texts),
+    embedQuery: async text => (await embed([isE5 ? `query: ${text}` : text]))[0],
+  };
+}
+
+// 모델 로드는 오래 걸리므로 프로세스에서 한 번만 (모델이 바뀌면 다시 로드)
+function getLocalPipeline(model: string): Promise<FeatureExtractionPipeline> {
+  if (localPipeline?.model !== model) {
+    const extractor = (async () => {
+      const { pipeline } = await importTransformers();
+      console.log(`로컬 임베딩 모델 로드 중: ${model}`);
+      return pipeline('feature-extraction', model, { dtype: 'q8' });
+    })();
+    // 실패한 로드는 캐시하지 않음
+    extractor.catch(() => { localPipeline = null; });
+    localPipeline = { model, extractor };
+  }
+  return localPipeline.extractor;
+}
+
+/**
+ * transformers.js 로드 (LOCAL_EMBEDDING_MODEL_DIR이 있으면 그 디렉토리의 모델만 사용)
+ */
+export async function importTransformers() {
+  const transformers = await import('@huggingface/transformers');
+  if (process.env.LOCAL_EMBEDDING_MODEL_DIR) {
+    transformers.env.localModelPath = process.env.LOCAL_EMBEDDING_MODEL_DIR;
+    transformers.env.allowRemoteModels = false;
+  }
+  return transformers;
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
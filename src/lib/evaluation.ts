@@ -0,0 +1,191 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { SearchResult } from '@/lib/rag';
+import type { SearchQuery } from '@/lib/query-expansion';
+
+/**
+ * 평가용 질문 (기대 페이지와 답변 키워드 중 하나 이상 필요)
+ */
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  expectedPageIds: string[]; // 검색되어야 하는 페이지 ID (하이픈 유무 무관)
+  answerKeywords: string[]; // 컨텍스트/답변에 들어 있어야 하는 단어 (대소문자 무관)
+  sources?: string[]; // 검색할 데이터 소스 ID (생략하면 전체)
+}
+
+/**
+ * 질문 하나의 평가 결과
+ */
+export interface QuestionEvaluation {
+  id: string;
+  question: string;
+  retrievedPageIds: string[]; // 검색 순위대로 중복을 제거한 페이지 ID
+  recall: number | null; // 상위 k개 페이지에 포함된 기대 페이지 비율 (기대 페이지가 없으면 null)
+  reciprocalRank: number | null; // 처음 나온 기대 페이지 순위의 역수 (없으면 0)
+  contextMatch: number | null; // 검색된 컨텍스트에 들어 있는 키워드 비율
+  answerMatch: number | null; // 생성한 답변에 들어 있는 키워드 비율 (답변을 생성하지 않으면 null)
+  queries?: SearchQuery[];
+  answer?: string;
+  error?: string;
+}
+
+export interface EvaluationSummary {
+  questions: number;
+  errors: number;
+  recallAtK: number | null;
+  mrr: number | null;
+  contextMatch: number | null;
+  answerMatch: number | null;
+}
+
+/**
+ * 평가 실행 결과 (다음 실행과 비교할 수 있도록 파일로 저장)
+ */
+export interface EvaluationReport {
+  createdAt: string;
+  config: Record<string, unknown>;
+  summary: EvaluationSummary;
+  results: QuestionEvaluation[];
+}
+
+export const SUMMARY_METRICS: Array<{ key: Exclude<keyof EvaluationSummary, 'questions' | 'errors'>; label: string }> = [
+  { key: 'recallAtK', label: 'Recall@k' },
+  { key: 'mrr', label: 'MRR' },
+  { key: 'contextMatch', label: '컨텍스트 키워드 일치' },
+  { key: 'answerMatch', label: '답변 키워드 일치' },
+];
+
+/**
+ * JSON 또는 YAML 질문 파일 읽기 (최상위 배열 또는 `questions` 배열)
+ */
+export function loadGoldenQuestions(filePath: string): GoldenQuestion[] {
+  const text = fs.readFileSync(filePath, 'utf-8');
+  const data = /\.ya?ml$/i.test(filePath) ? parseYaml(text) : JSON.parse(text);
+  const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.questions) ? data.questions : [];
+
+  return items.map((item, index) => {
+    const record = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const question = typeof record.question === 'string' ? record.question.trim() : '';
+    const expectedPageIds = stringList(record.expectedPageIds);
+    const answerKeywords = stringList(record.answerKeywords);
+
+    if (!question) {
+      throw new Error(`${path.basename(filePath)}의 ${index + 1}번째 항목에 question이 없습니다.`);
+    }
+    if (expectedPageIds.length === 0 && answerKeywords.length === 0) {
+      throw new Error(`"${question}"에 expectedPageIds나 answerKeywords가 필요합니다.`);
+    }
+
+    return {
+      id: typeof record.id === 'string' && record.id ? record.id : `q${index + 1}`,
+      question,
+      expectedPageIds,
+      answerKeywords,
+      sources: record.sources ? stringList(record.sources) : undefined,
+    };
+  });
+}
+
+/**
+ * 검색 결과와 답변으로 질문 하나를 채점
+ */
+export function evaluateQuestion(
+  golden: GoldenQuestion,
+  results: SearchResult[],
+  k: number,
+  answer?: string
+): QuestionEvaluation {
+  const retrievedPageIds = Array.from(new Set(results.map(result => result.chunk.metadata.pageId)));
+  const expected = new Set(golden.expectedPageIds.map(normalizePageId));
+  const topK = retrievedPageIds.slice(0, k).map(normalizePageId);
+
+  let recall: number | null = null;
+  let reciprocalRank: number | null = null;
+  if (expected.size > 0) {
+    recall = topK.filter(id => expected.has(id)).length / expected.size;
+    const rank = retrievedPageIds.findIndex(id => expected.has(normalizePageId(id)));
+    reciprocalRank = rank >= 0 ? 1 / (rank + 1) : 0;
+  }
+
+  const context = results.slice(0, k).map(result => result.chunk.content).join('\n');
+
+  return {
+    id: golden.id,
+    question: golden.question,
+    retrievedPageIds,
+    recall,
+    reciprocalRank,
+    contextMatch: keywordMatch(golden.answerKeywords, context),
+    answerMatch: answer === undefined ? null : keywordMatch(golden.answerKeywords, answer),
+    ...(answer !== undefined ? { answer } : {}),
+  };
+}
+
+/**
+ * 질문별 결과의 평균 (값이 없는 질문은 제외)
+ */
+export function summarizeEvaluation(results: QuestionEvaluation[]): EvaluationSummary {
+  return {
+    questions: results.length,
+    errors: results.filter(result => result.error).length,
+    recallAtK: average(results.map(result => result.recall)),
+    mrr: average(results.map(result => result.reciprocalRank)),
+    contextMatch: average(results.map(result => result.contextMatch)),
+    answerMatch: average(results.map(result => result.answerMatch)),
+  };
+}
+
+/**
+ * 이전 실행과 지표, 질문별 순위 변화 비교
+ */
+export function compareEvaluations(current: EvaluationReport, previous: EvaluationReport) {
+  const metrics = SUMMARY_METRICS.map(({ key, label }) => ({
+    label,
+    previous: previous.summary[key],
+    current: current.summary[key],
+    delta: current.summary[key] !== null && previous.summary[key] !== null
+      ? current.summary[key]! - previous.summary[key]!
+      : null,
+  }));
+
+  const previousById = new Map(previous.results.map(result => [result.id, result]));
+  const changes = current.results.flatMap(result => {
+    const before = previousById.get(result.id);
+    if (!before) return [];
+
+    const score = (item: QuestionEvaluation) =>
+      item.reciprocalRank ?? item.answerMatch ?? item.contextMatch ?? 0;
+    const delta = score(result) - score(before);
+    return delta !== 0 ? [{ id: result.id, question: result.question, previous: score(before), current: score(result), delta }] : [];
+  });
+
+  return {
+    metrics,
+    regressions: changes.filter(change => change.delta < 0),
+    improvements: changes.filter(change => change.delta > 0),
+  };
+}
+
+// Notion 페이지 ID는 하이픈이 있거나 없는 형태로 섞여 쓰임
+function normalizePageId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase();
+}
+
+function keywordMatch(keywords: string[], text: string): number | null {
+  if (keywords.length === 0) return null;
+
+  const lower = text.toLowerCase();
+  return keywords.filter(keyword => lower.includes(keyword.toLowerCase())).length / keywords.length;
+}
+
+function average(values: Array<number | null>): number | null {
+  const numbers = values.filter((value): value is number => value !== null);
+  return numbers.length > 0 ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : null;
+}
+
+function stringList(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+  return list.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim());
+}
@@ -0,0 +1,99 @@
+import { tokenize } from '@/lib/tokenizer';
+
+// 하이브리드 검색에서 키워드(BM25) 순위에 주는 기본 비중
+export const DEFAULT_KEYWORD_WEIGHT = 0.4;
+
+/**
+ * 청크 단위 BM25 키워드 인덱스
+ *
+ * 임베딩이 놓치기 쉬운 프로젝트 슬러그, 기술 이름, 사람 이름 같은 정확한 단어 일치를 찾는 데 씁니다.
+ */
+export class KeywordIndex {
+  private termFrequencies: Map<string, Map<string, number>> = new Map(); // 청크 ID -> (토큰 -> 빈도)
+  private documentLengths: Map<string, number> = new Map();
+  private documentFrequencies: Map<string, number> = new Map(); // 토큰 -> 등장한 청크 수
+  private totalLength = 0;
+
+  constructor(
+    private readonly k1: number = 1.2,
+    private readonly b: number = 0.75
+  ) {}
+
+  get size(): number {
+    return this.termFrequencies.size;
+  }
+
+  /**
+   * 청크 추가 (같은 ID가 있으면 교체)
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+
+    for (const token of frequencies.keys()) {
+      this.documentFrequencies.set(token, (this.documentFrequencies.get(token) || 0) + 1);
+    }
+
+    this.termFrequencies.set(id, frequencies);
+    this.documentLengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * 청크 제거
+   */
+  remove(id: string): void {
+    const frequencies = this.termFrequencies.get(id);
+    if (!frequencies) return;
+
+    for (const token of frequencies.keys()) {
+      const count = (this.documentFrequencies.get(token) || 1) - 1;
+      if (count > 0) {
+        this.documentFrequencies.set(token, count);
+      } else {
+        this.documentFrequencies.delete(token);
+      }
+    }
+
+    this.totalLength -= this.documentLengths.get(id) || 0;
+    this.termFrequencies.delete(id);
+    this.documentLengths.delete(id);
+  }
+
+  /**
+   * 쿼리에 대한 청크별 BM25 점수 (점수가 0인 청크는 포함하지 않음)
+   */
+  search(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const documentCount = this.termFrequencies.size;
+    if (documentCount === 0) return scores;
+
+    const averageLength = this.totalLength / documentCount;
+    const queryTokens = Array.from(new Set(tokenize(query)));
+
+    for (const token of queryTokens) {
+      const documentFrequency = this.documentFrequencies.get(token);
+      if (!documentFrequency) continue;
+
+      const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+      for (const [id, frequencies] of this.termFrequencies) {
+        const frequency = frequencies.get(token);
+        if (!frequency) continue;
+
+        const length = this.documentLengths.get(id) || 0;
+        const normalized = frequency * (this.k1 + 1) /
+          (frequency + this.k1 * (1 - this.b + this.b * length / averageLength));
+
+        scores.set(id, (scores.get(id) || 0) + idf * normalized);
+      }
+    }
+
+    return scores;
+  }
+}
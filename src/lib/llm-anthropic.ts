@@ -0,0 +1,111 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { LLMChatOptions, LLMConfig, LLMMessage, LLMProvider, LLMStreamEvent, LLMToolCall } from '@/lib/llm';
+
+// Messages API는 max_tokens가 필수
+const DEFAULT_MAX_TOKENS = 1024;
+
+/**
+ * Anthropic(Claude) 제공자
+ */
+export function createAnthropicProvider(config: LLMConfig): LLMProvider {
+  const client = new Anthropic({ apiKey: config.apiKey });
+
+  const buildParams = (messages: LLMMessage[], options: LLMChatOptions) => {
+    // 시스템 메시지는 별도 system 값으로 합침
+    const system = messages.filter(message => message.role === 'system').map(message => message.content);
+    if (options.responseFormat === 'json') {
+      // JSON 모드가 없으므로 지시로 대신하고 응답에서 JSON 객체만 꺼냄
+      system.push('반드시 다른 설명 없이 JSON 객체 하나로만 답하세요.');
+    }
+
+    return {
+      model: config.model,
+      system: system.join('\n\n') || undefined,
+      messages: toAnthropicMessages(messages),
+      temperature: options.temperature,
+      max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+      ...(options.tools?.length
+        ? {
+            tools: options.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+            })),
+          }
+        : {}),
+    };
+  };
+
+  return {
+    id: 'anthropic',
+    model: config.model,
+
+    async chat(messages, options = {}) {
+      const response = await client.messages.create(buildParams(messages, options), { signal: options.signal });
+      const text = response.content
+        .map(block => block.type === 'text' ? block.text : '')
+        .join('');
+
+      return {
+        content: options.responseFormat === 'json' ? extractJsonObject(text) : text,
+        toolCalls: response.content
+          .filter(block => block.type === 'tool_use')
+          .map(block => ({ id: block.id, name: block.name, arguments: JSON.stringify(block.input) })),
+      };
+    },
+
+    async *stream(messages, options = {}): AsyncGenerator<LLMStreamEvent> {
+      const events = await client.messages.create(
+        { ...buildParams(messages, options), stream: true },
+        { signal: options.signal }
+      );
+      // 도구 입력은 content block별로 나뉘어 오므로 block이 끝날 때 전달
+      const toolCalls = new Map<number, LLMToolCall>();
+
+      for await (const event of events) {
+        if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+          toolCalls.set(event.index, { id: event.content_block.id, name: event.content_block.name, arguments: '' });
+        } else if (event.type === 'content_block_delta') {
+          if (event.delta.type === 'text_delta') {
+            yield { type: 'text', content: event.delta.text };
+          } else if (event.delta.type === 'input_json_delta') {
+            const call = toolCalls.get(event.index);
+            if (call) call.arguments += event.delta.partial_json;
+          }
+        } else if (event.type === 'content_block_stop') {
+          const call = toolCalls.get(event.index);
+          if (call) {
+            yield { type: 'tool_call', call: { ...call, arguments: call.arguments || '{}' } };
+          }
+        }
+      }
+    },
+  };
+}
+
+/**
+ * 대화 메시지 변환 (같은 역할이 연달아 나오면 하나로 합침)
+ */
+function toAnthropicMessages(messages: LLMMessage[]): Anthropic.MessageParam[] {
+  const result: Anthropic.MessageParam[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    const last = result[result.length - 1];
+    if (last && last.role === message.role) {
+      last.content = `${last.content}\n\n${message.content}`;
+    } else {
+      result.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return result;
+}
+
+// 코드 블록이나 앞뒤 설명이 붙어도 첫 `{`부터 마지막 `}`까지를 JSON으로 사용
+function extractJsonObject(text: string): string {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text;
+}
@@ -0,0 +1,73 @@
+import OpenAI from 'openai';
+import type { LLMChatOptions, LLMConfig, LLMMessage, LLMProvider, LLMStreamEvent, LLMTool, LLMToolCall } from '@/lib/llm';
+
+/**
+ * OpenAI와 OpenAI 호환 서버(Ollama, vLLM, LM Studio 등) 제공자
+ */
+export function createOpenAIProvider(config: LLMConfig): LLMProvider {
+  const client = new OpenAI({
+    // 로컬 서버는 키를 확인하지 않지만 SDK는 빈 키를 허용하지 않음
+    apiKey: config.apiKey || 'not-needed',
+    baseURL: config.baseURL,
+  });
+
+  const buildParams = (messages: LLMMessage[], options: LLMChatOptions) => ({
+    model: config.model,
+    messages,
+    temperature: options.temperature,
+    max_tokens: options.maxTokens,
+    ...(options.tools?.length ? { tools: options.tools.map(toOpenAITool) } : {}),
+    ...(options.responseFormat === 'json' ? { response_format: { type: 'json_object' as const } } : {}),
+  });
+
+  return {
+    id: config.provider,
+    model: config.model,
+
+    async chat(messages, options = {}) {
+      const completion = await client.chat.completions.create(buildParams(messages, options), { signal: options.signal });
+      const message = completion.choices[0]?.message;
+
+      return {
+        content: message?.content || '',
+        toolCalls: (message?.tool_calls || [])
+          .filter(call => call.type === 'function')
+          .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments })),
+      };
+    },
+
+    async *stream(messages, options = {}): AsyncGenerator<LLMStreamEvent> {
+      const completion = await client.chat.completions.create(
+        { ...buildParams(messages, options), stream: true },
+        { signal: options.signal }
+      );
+      const toolCalls: LLMToolCall[] = [];
+
+      for await (const part of completion) {
+        const delta = part.choices[0]?.delta;
+        if (delta?.content) {
+          yield { type: 'text', content: delta.content };
+        }
+
+        // 도구 호출 인자는 여러 조각으로 나뉘어 오므로 index별로 이어 붙임
+        for (const toolCall of delta?.tool_calls || []) {
+          const call = toolCalls[toolCall.index] ||= { id: '', name: '', arguments: '' };
+          if (toolCall.id) call.id = toolCall.id;
+          if (toolCall.function?.name) call.name += toolCall.function.name;
+          if (toolCall.function?.arguments) call.arguments += toolCall.function.arguments;
+        }
+      }
+
+      for (const call of toolCalls.filter(Boolean)) {
+        yield { type: 'tool_call', call };
+      }
+    },
+  };
+}
+
+function toOpenAITool(tool: LLMTool): OpenAI.Chat.Completions.ChatCompletionTool {
+  return {
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  };
+}
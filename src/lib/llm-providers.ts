@@ -0,0 +1,77 @@
+// 설정 페이지(클라이언트)에서도 쓰므로 SDK 없이 제공자 정보만 둠
+
+export type LLMProviderId = 'openai' | 'openai-compatible' | 'anthropic';
+
+export interface LLMModelOption {
+  id: string;
+  name: string;
+  description: string;
+}
+
+/**
+ * 설정 페이지에 표시할 LLM 제공자 정보
+ */
+export interface LLMProviderInfo {
+  id: LLMProviderId;
+  name: string;
+  description: string;
+  defaultModel: string;
+  models: LLMModelOption[]; // 추천 모델 (목록에 없는 모델 이름도 입력 가능)
+  apiKeySecret: 'openaiApiKey' | 'anthropicApiKey' | 'compatibleApiKey';
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean;
+  baseUrlPlaceholder?: string;
+}
+
+export const LLM_PROVIDERS: LLMProviderInfo[] = [
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    description: 'OpenAI API',
+    defaultModel: 'gpt-4o-mini',
+    models: [
+      { id: 'gpt-4o', name: 'GPT-4o', description: '최신 모델, 가장 뛰어난 성능' },
+      { id: 'gpt-4o-mini', name: 'GPT-4o Mini', description: '빠르고 효율적인 모델' },
+      { id: 'gpt-4-turbo', name: 'GPT-4 Turbo', description: '향상된 성능과 속도' },
+      { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', description: '경제적이고 빠른 모델' },
+    ],
+    apiKeySecret: 'openaiApiKey',
+    requiresApiKey: true,
+    requiresBaseUrl: false,
+  },
+  {
+    id: 'openai-compatible',
+    name: 'OpenAI 호환 서버',
+    description: 'Ollama, vLLM, LM Studio 등 로컬/사설 모델',
+    defaultModel: 'llama3.1',
+    models: [
+      { id: 'llama3.1', name: 'Llama 3.1', description: 'Ollama 기본 예시' },
+      { id: 'qwen2.5', name: 'Qwen 2.5', description: '한국어와 도구 호출 지원' },
+      { id: 'mistral', name: 'Mistral', description: '가벼운 범용 모델' },
+    ],
+    apiKeySecret: 'compatibleApiKey',
+    requiresApiKey: false, // 로컬 서버는 대부분 키가 필요 없음
+    requiresBaseUrl: true,
+    baseUrlPlaceholder: 'http://localhost:11434/v1',
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    description: 'Claude 모델',
+    defaultModel: 'claude-haiku-4-5',
+    models: [
+      { id: 'claude-opus-4-5', name: 'Claude Opus 4.5', description: '가장 뛰어난 성능' },
+      { id: 'claude-haiku-4-5', name: 'Claude Haiku 4.5', description: '빠르고 경제적인 모델' },
+    ],
+    apiKeySecret: 'anthropicApiKey',
+    requiresApiKey: true,
+    requiresBaseUrl: false,
+  },
+];
+
+/**
+ * 제공자 ID의 정보 (알 수 없는 값이면 OpenAI)
+ */
+export function getLLMProviderInfo(id: unknown): LLMProviderInfo {
+  return LLM_PROVIDERS.find(provider => provider.id === id) || LLM_PROVIDERS[0];
+}
@@ -0,0 +1,101 @@
+import { LLMProviderId, getLLMProviderInfo } from '@/lib/llm-providers';
+import type { WorkspaceSecrets } from '@/lib/secret-store';
+import { createOpenAIProvider } from '@/lib/llm-openai';
+import { createAnthropicProvider } from '@/lib/llm-anthropic';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * 모델에 노출하는 도구 (parameters는 JSON 스키마)
+ */
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON 문자열
+}
+
+export interface LLMChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  tools?: LLMTool[];
+  responseFormat?: 'text' | 'json'; // json이면 JSON 객체 하나만 반환
+  signal?: AbortSignal;
+}
+
+export interface LLMChatResult {
+  content: string;
+  toolCalls: LLMToolCall[];
+}
+
+/**
+ * 스트리밍 응답 조각 (도구 호출은 인자가 모두 모인 뒤 한 번에 전달)
+ */
+export type LLMStreamEvent =
+  | { type: 'text'; content: string }
+  | { type: 'tool_call'; call: LLMToolCall };
+
+/**
+ * 채팅 모델 제공자 (OpenAI, OpenAI 호환 서버, Anthropic)
+ */
+export interface LLMProvider {
+  id: LLMProviderId;
+  model: string;
+  chat(messages: LLMMessage[], options?: LLMChatOptions): Promise<LLMChatResult>;
+  stream(messages: LLMMessage[], options?: LLMChatOptions): AsyncIterable<LLMStreamEvent>;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderId;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+}
+
+/**
+ * 요청 설정과 키로 사용할 제공자 설정 구성
+ *
+ * 설정에 없는 값은 LLM_PROVIDER/LLM_MODEL/LLM_BASE_URL 환경 변수, 그다음 제공자 기본값을 사용합니다.
+ */
+export function resolveLLMConfig(settings: Record<string, unknown>, secrets: WorkspaceSecrets): LLMConfig {
+  const info = getLLMProviderInfo(stringValue(settings.llmProvider) || process.env.LLM_PROVIDER);
+
+  // 이전 버전 설정의 openaiModel은 OpenAI 제공자에서만 사용
+  const legacyModel = info.id === 'openai' ? stringValue(settings.openaiModel) : undefined;
+  const model = stringValue(settings.llmModel) || legacyModel || process.env.LLM_MODEL || info.defaultModel;
+  const baseURL = info.requiresBaseUrl ? stringValue(settings.llmBaseUrl) || process.env.LLM_BASE_URL : undefined;
+  const apiKey = secrets[info.apiKeySecret];
+
+  if (info.requiresApiKey && !apiKey) {
+    throw new Error(`${info.name} API 키가 설정되지 않았습니다. 설정 페이지에서 키를 저장하거나 환경 변수를 설정해주세요.`);
+  }
+  if (info.requiresBaseUrl && !baseURL) {
+    throw new Error(`${info.name}의 Base URL이 설정되지 않았습니다. 설정 페이지나 LLM_BASE_URL 환경 변수를 확인해주세요.`);
+  }
+
+  return { provider: info.id, model, apiKey, baseURL };
+}
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case 'anthropic':
+      return createAnthropicProvider(config);
+    case 'openai':
+    case 'openai-compatible':
+      return createOpenAIProvider(config);
+    default:
+      throw new Error(`지원하지 않는 LLM 제공자입니다: ${String(config.provider)}`);
+  }
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
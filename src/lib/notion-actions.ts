@@ -0,0 +1,405 @@
+import { Client } from '@notionhq/client';
+import type { CreatePageParameters, UpdatePageParameters } from '@notionhq/client';
+import type { LLMTool } from '@/lib/llm';
+import { DatabaseSchema, NotionPage, extractProperty, extractTitle } from '@/lib/notion';
+
+/**
+ * 챗봇이 제안할 수 있는 Notion 변경 (사용자가 승인해야 적용됨)
+ */
+export type NotionAction =
+  | {
+      type: 'create_page';
+      title: string;
+      dateProperty?: string;
+      start?: string;
+      end?: string | null;
+      statusProperty?: string;
+      status?: string;
+    }
+  | { type: 'update_date'; pageId: string; property: string; start: string; end: string | null }
+  | { type: 'set_status'; pageId: string; property: string; value: string }
+  | { type: 'toggle_checkbox'; pageId: string; property: string; checked: boolean };
+
+export interface PropertyChange {
+  property: string;
+  before: string | null; // null이면 새로 생기는 값
+  after: string;
+}
+
+/**
+ * 승인 카드에 표시할 변경 제안 (action의 페이지 참조는 실제 페이지 ID로 확정됨)
+ */
+export interface NotionActionProposal {
+  id: string;
+  action: NotionAction;
+  description: string;
+  pageTitle: string;
+  pageUrl?: string;
+  changes: PropertyChange[];
+  sourceId?: string; // 변경할 데이터베이스의 데이터 소스 ID
+}
+
+export interface NotionActionResult {
+  pageId: string;
+  url?: string;
+  message: string;
+}
+
+type Properties = NonNullable<UpdatePageParameters['properties']>;
+
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d{3})?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+const PAGE_ID = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+
+const PAGE_PARAMETER = {
+  type: 'string',
+  description: '대상 페이지의 제목 (검색된 정보에 나온 제목 그대로) 또는 페이지 ID',
+};
+
+/**
+ * 모델의 도구 호출(function calling)에 노출하는 Notion 편집 도구
+ */
+export const NOTION_ACTION_TOOLS: LLMTool[] = [
+  {
+    name: 'create_page',
+    description: '데이터베이스에 새 페이지(일정)를 만듭니다.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: '페이지 제목' },
+        date_property: { type: 'string', description: '날짜를 넣을 date 속성 이름' },
+        start: { type: 'string', description: '시작 날짜 (YYYY-MM-DD 또는 ISO 8601 날짜시간)' },
+        end: { type: 'string', description: '종료 날짜 (선택)' },
+        status_property: { type: 'string', description: '상태를 넣을 status/select 속성 이름' },
+        status: { type: 'string', description: '상태 값 (속성의 선택지 중 하나)' },
+      },
+      required: ['title'],
+    },
+  },
+  {
+    name: 'update_date',
+    description: '기존 페이지의 날짜 속성을 변경합니다.',
+    parameters: {
+      type: 'object',
+      properties: {
+        page: PAGE_PARAMETER,
+        property: { type: 'string', description: 'date 타입 속성 이름' },
+        start: { type: 'string', description: '시작 날짜 (YYYY-MM-DD 또는 ISO 8601 날짜시간)' },
+        end: { type: 'string', description: '종료 날짜 (선택, 범위가 아니면 생략)' },
+      },
+      required: ['page', 'property', 'start'],
+    },
+  },
+  {
+    name: 'set_status',
+    description: '기존 페이지의 상태(status 또는 select 속성)를 변경합니다.',
+    parameters: {
+      type: 'object',
+      properties: {
+        page: PAGE_PARAMETER,
+        property: { type: 'string', description: 'status 또는 select 타입 속성 이름' },
+        value: { type: 'string', description: '속성의 선택지 중 하나' },
+      },
+      required: ['page', 'property', 'value'],
+    },
+  },
+  {
+    name: 'toggle_checkbox',
+    description: '기존 페이지의 체크박스 속성을 켜거나 끕니다.',
+    parameters: {
+      type: 'object',
+      properties: {
+        page: PAGE_PARAMETER,
+        property: { type: 'string', description: 'checkbox 타입 속성 이름' },
+        checked: { type: 'boolean', description: '체크 여부' },
+      },
+      required: ['page', 'property', 'checked'],
+    },
+  },
+];
+
+/**
+ * 모델의 도구 호출 인자를 NotionAction으로 변환 (페이지 참조는 아직 제목일 수 있음)
+ */
+export function toolCallToAction(name: string, argumentsJson: string): NotionAction {
+  let args: Record<string, unknown>;
+  try {
+    args = JSON.parse(argumentsJson || '{}');
+  } catch {
+    throw new Error(`도구 인자를 해석할 수 없습니다: ${name}`);
+  }
+
+  const action = sanitizeNotionAction({
+    type: name,
+    title: args.title,
+    dateProperty: args.date_property,
+    statusProperty: args.status_property,
+    status: args.status,
+    pageId: args.page,
+    property: args.property,
+    start: args.start,
+    end: args.end,
+    value: args.value,
+    checked: args.checked,
+  });
+
+  if (!action) {
+    throw new Error(`도구 인자가 올바르지 않습니다: ${name}`);
+  }
+  return action;
+}
+
+/**
+ * 요청 본문으로 받은 변경 내용 검증 (형식만 확인하고 스키마 검증은 prepareNotionAction에서 수행)
+ */
+export function sanitizeNotionAction(value: unknown): NotionAction | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const input = value as Record<string, unknown>;
+  const text = (key: string) => typeof input[key] === 'string' && (input[key] as string).trim() ? (input[key] as string).trim() : undefined;
+
+  switch (input.type) {
+    case 'create_page': {
+      const title = text('title');
+      if (!title) return null;
+      return {
+        type: 'create_page',
+        title,
+        dateProperty: text('dateProperty'),
+        start: text('start'),
+        end: text('end') ?? null,
+        statusProperty: text('statusProperty'),
+        status: text('status'),
+      };
+    }
+    case 'update_date': {
+      const pageId = text('pageId');
+      const property = text('property');
+      const start = text('start');
+      if (!pageId || !property || !start) return null;
+      return { type: 'update_date', pageId, property, start, end: text('end') ?? null };
+    }
+    case 'set_status': {
+      const pageId = text('pageId');
+      const property = text('property');
+      const status = text('value');
+      if (!pageId || !property || !status) return null;
+      return { type: 'set_status', pageId, property, value: status };
+    }
+    case 'toggle_checkbox': {
+      const pageId = text('pageId');
+      const property = text('property');
+      if (!pageId || !property || typeof input.checked !== 'boolean') return null;
+      return { type: 'toggle_checkbox', pageId, property, checked: input.checked };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * 변경 내용을 스키마와 대조해 검증하고, 대상 페이지를 찾아 변경 전/후 값을 계산
+ *
+ * 제안을 만들 때와 승인된 변경을 적용하기 직전에 모두 호출하므로 클라이언트가 보낸 값도 다시 검증됩니다.
+ */
+export async function prepareNotionAction(
+  notion: Client,
+  schema: DatabaseSchema,
+  action: NotionAction,
+  id: string
+): Promise<NotionActionProposal> {
+  if (action.type === 'create_page') {
+    const changes: PropertyChange[] = [{ property: schema.titleProperty, before: null, after: action.title }];
+
+    if (action.dateProperty || action.start) {
+      if (!action.dateProperty || !action.start) {
+        throw new Error('날짜를 넣으려면 date_property와 start가 모두 필요합니다.');
+      }
+      requireProperty(schema, action.dateProperty, ['date']);
+      validateDates(action.start, action.end ?? null);
+      changes.push({ property: action.dateProperty, before: null, after: formatDates(action.start, action.end ?? null) });
+    }
+
+    if (action.statusProperty || action.status) {
+      if (!action.statusProperty || !action.status) {
+        throw new Error('상태를 넣으려면 status_property와 status가 모두 필요합니다.');
+      }
+      requireOption(schema, action.statusProperty, action.status);
+      changes.push({ property: action.statusProperty, before: null, after: action.status });
+    }
+
+    return {
+      id,
+      action,
+      description: `새 페이지 "${action.title}" 만들기`,
+      pageTitle: action.title,
+      changes,
+    };
+  }
+
+  const page = await resolvePage(notion, schema, action.pageId);
+  const pageTitle = extractTitle(page.properties);
+  const current = page.properties[action.property];
+  const before = current ? extractProperty(current).text || null : null;
+  const resolved = { ...action, pageId: page.id };
+
+  switch (resolved.type) {
+    case 'update_date':
+      requireProperty(schema, resolved.property, ['date']);
+      validateDates(resolved.start, resolved.end);
+      return {
+        id,
+        action: resolved,
+        description: `"${pageTitle}"의 ${resolved.property} 변경`,
+        pageTitle,
+        pageUrl: page.url,
+        changes: [{ property: resolved.property, before, after: formatDates(resolved.start, resolved.end) }],
+      };
+    case 'set_status':
+      requireOption(schema, resolved.property, resolved.value);
+      return {
+        id,
+        action: resolved,
+        description: `"${pageTitle}"의 ${resolved.property}을(를) "${resolved.value}"(으)로 변경`,
+        pageTitle,
+        pageUrl: page.url,
+        changes: [{ property: resolved.property, before, after: resolved.value }],
+      };
+    case 'toggle_checkbox':
+      requireProperty(schema, resolved.property, ['checkbox']);
+      return {
+        id,
+        action: resolved,
+        description: `"${pageTitle}"의 ${resolved.property} ${resolved.checked ? '체크' : '체크 해제'}`,
+        pageTitle,
+        pageUrl: page.url,
+        changes: [{ property: resolved.property, before: current?.checkbox ? '✓' : '☐', after: resolved.checked ? '✓' : '☐' }],
+      };
+  }
+}
+
+/**
+ * 승인된 변경을 Notion에 적용
+ */
+export async function applyNotionAction(
+  notion: Client,
+  schema: DatabaseSchema,
+  action: NotionAction
+): Promise<NotionActionResult> {
+  // 승인 사이에 스키마나 페이지가 바뀌었을 수 있으므로 적용 직전에 다시 검증
+  const proposal = await prepareNotionAction(notion, schema, action, 'apply');
+  const verified = proposal.action;
+
+  if (verified.type === 'create_page') {
+    const properties: Properties = {
+      [schema.titleProperty]: { title: [{ text: { content: verified.title } }] },
+    };
+    if (verified.dateProperty && verified.start) {
+      properties[verified.dateProperty] = { date: { start: verified.start, end: verified.end ?? null } };
+    }
+    if (verified.statusProperty && verified.status) {
+      properties[verified.statusProperty] = statusValue(schema, verified.statusProperty, verified.status);
+    }
+
+    const page = await notion.pages.create({
+      parent: { database_id: schema.id },
+      properties: properties as CreatePageParameters['properties'],
+    }) as unknown as NotionPage;
+
+    return { pageId: page.id, url: page.url, message: `새 페이지 "${verified.title}"을(를) 만들었습니다.` };
+  }
+
+  let properties: Properties;
+  switch (verified.type) {
+    case 'update_date':
+      properties = { [verified.property]: { date: { start: verified.start, end: verified.end } } };
+      break;
+    case 'set_status':
+      properties = { [verified.property]: statusValue(schema, verified.property, verified.value) };
+      break;
+    case 'toggle_checkbox':
+      properties = { [verified.property]: { checkbox: verified.checked } };
+      break;
+  }
+
+  await notion.pages.update({ page_id: verified.pageId, properties });
+
+  const change = proposal.changes[0];
+  return {
+    pageId: verified.pageId,
+    url: proposal.pageUrl,
+    message: `"${proposal.pageTitle}"의 ${change.property}을(를) ${change.before ? `"${change.before}"에서 ` : ''}"${change.after}"(으)로 변경했습니다.`,
+  };
+}
+
+// 페이지 ID 또는 제목으로 데이터베이스 안의 페이지 찾기
+async function resolvePage(notion: Client, schema: DatabaseSchema, reference: string): Promise<NotionPage> {
+  if (PAGE_ID.test(reference)) {
+    const page = await notion.pages.retrieve({ page_id: reference }) as unknown as NotionPage & {
+      parent?: { database_id?: string };
+    };
+    if (normalizeId(page.parent?.database_id) !== normalizeId(schema.id)) {
+      throw new Error('설정된 데이터베이스의 페이지가 아닙니다.');
+    }
+    return page;
+  }
+
+  for (const operator of ['equals', 'contains'] as const) {
+    const response = await notion.databases.query({
+      database_id: schema.id,
+      filter: { property: schema.titleProperty, title: { [operator]: reference } } as Parameters<Client['databases']['query']>[0]['filter'],
+      page_size: 5,
+    });
+    const pages = (response.results as NotionPage[]).filter(page => page.object === 'page' && page.properties);
+
+    if (pages.length === 1) return pages[0];
+    if (pages.length > 1) {
+      throw new Error(`"${reference}"와(과) 일치하는 페이지가 여러 개입니다: ${pages.map(page => extractTitle(page.properties)).join(', ')}`);
+    }
+  }
+
+  throw new Error(`"${reference}" 페이지를 찾을 수 없습니다.`);
+}
+
+function requireProperty(schema: DatabaseSchema, name: string, types: string[]) {
+  const property = schema.properties[name];
+  if (!property) {
+    throw new Error(`"${name}" 속성이 데이터베이스에 없습니다.`);
+  }
+  if (!types.includes(property.type)) {
+    throw new Error(`"${name}" 속성은 ${property.type} 타입이라 변경할 수 없습니다. (필요한 타입: ${types.join(', ')})`);
+  }
+  return property;
+}
+
+function requireOption(schema: DatabaseSchema, name: string, value: string) {
+  const property = requireProperty(schema, name, ['status', 'select']);
+  if (property.options && !property.options.includes(value)) {
+    throw new Error(`"${value}"은(는) "${name}"의 선택지가 아닙니다. (가능한 값: ${property.options.join(', ')})`);
+  }
+}
+
+function statusValue(schema: DatabaseSchema, name: string, value: string) {
+  return schema.properties[name]?.type === 'status' ? { status: { name: value } } : { select: { name: value } };
+}
+
+function validateDates(start: string, end: string | null) {
+  if (!DATE_VALUE.test(start) || isNaN(new Date(start).getTime())) {
+    throw new Error(`날짜 형식이 올바르지 않습니다: ${start}`);
+  }
+  if (end !== null) {
+    if (!DATE_VALUE.test(end) || isNaN(new Date(end).getTime())) {
+      throw new Error(`날짜 형식이 올바르지 않습니다: ${end}`);
+    }
+    if (new Date(end) < new Date(start)) {
+      throw new Error('종료 날짜가 시작 날짜보다 앞설 수 없습니다.');
+    }
+  }
+}
+
+function formatDates(start: string, end: string | null): string {
+  return end ? `${start} → ${end}` : start;
+}
+
+function normalizeId(id: string | undefined): string {
+  return (id || '').replace(/-/g, '').toLowerCase();
+}
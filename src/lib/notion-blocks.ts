@@ -0,0 +1,355 @@
+import { Client } from '@notionhq/client';
+
+type RichText = Array<{ plain_text: string }>;
+
+interface RichTextBlock {
+  rich_text?: RichText;
+}
+
+interface MediaBlock {
+  type?: 'file' | 'external' | 'file_upload';
+  caption?: RichText;
+  name?: string;
+  external?: { url: string };
+}
+
+// Notion 블록 타입 정의
+export interface NotionBlock {
+  id: string;
+  type: string;
+  has_children?: boolean;
+  paragraph?: RichTextBlock;
+  heading_1?: RichTextBlock;
+  heading_2?: RichTextBlock;
+  heading_3?: RichTextBlock;
+  bulleted_list_item?: RichTextBlock;
+  numbered_list_item?: RichTextBlock;
+  to_do?: RichTextBlock & {
+    checked?: boolean;
+  };
+  toggle?: RichTextBlock;
+  code?: RichTextBlock & {
+    language?: string;
+  };
+  quote?: RichTextBlock;
+  callout?: RichTextBlock & {
+    icon?: { type: string; emoji?: string } | null;
+  };
+  equation?: { expression: string };
+  bookmark?: { url: string; caption?: RichText };
+  link_preview?: { url: string };
+  embed?: { url: string; caption?: RichText };
+  link_to_page?: { type: string; page_id?: string; database_id?: string };
+  synced_block?: { synced_from: { block_id: string } | null };
+  child_page?: { title: string };
+  child_database?: { title: string };
+  table?: { table_width: number; has_column_header: boolean; has_row_header: boolean };
+  table_row?: { cells: RichText[] };
+  image?: MediaBlock;
+  file?: MediaBlock;
+  pdf?: MediaBlock;
+  video?: MediaBlock;
+  audio?: MediaBlock;
+}
+
+/**
+ * 자식 블록까지 포함한 블록 트리의 노드
+ */
+export interface BlockNode {
+  block: NotionBlock;
+  children: BlockNode[];
+}
+
+export interface FetchBlocksOptions {
+  maxDepth?: number; // 0이면 최상위 블록만 가져옴
+  concurrency?: number; // 동시에 보내는 blocks.children.list 요청 수
+}
+
+export const DEFAULT_BLOCK_MAX_DEPTH = 5;
+export const DEFAULT_BLOCK_CONCURRENCY = 3; // Notion API 평균 요청 제한(초당 3회) 고려
+
+type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * 동시에 실행되는 비동기 작업 수를 제한하는 함수 생성
+ */
+export function createLimiter(concurrency: number): Limiter {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= concurrency) {
+      // 끝나는 작업이 슬롯을 그대로 넘겨줌
+      await new Promise<void>(resolve => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const waiting = queue.shift();
+      if (waiting) {
+        waiting();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+/**
+ * 블록의 자식 목록을 커서 페이지네이션으로 모두 가져와 재귀적으로 트리 구성
+ *
+ * 동시성 제한은 개별 API 요청에만 걸기 때문에, 부모가 자식을 기다리는 동안
+ * 요청 슬롯을 점유하지 않습니다.
+ */
+export async function fetchBlockTree(
+  notion: Client,
+  blockId: string,
+  options: FetchBlocksOptions = {},
+  limit: Limiter = createLimiter(options.concurrency ?? DEFAULT_BLOCK_CONCURRENCY),
+  depth: number = 0
+): Promise<BlockNode[]> {
+  const maxDepth = options.maxDepth ?? DEFAULT_BLOCK_MAX_DEPTH;
+  const blocks: NotionBlock[] = [];
+  let hasMore = true;
+  let nextCursor: string | undefined = undefined;
+
+  while (hasMore) {
+    const response = await limit(() =>
+      notion.blocks.children.list({
+        block_id: blockId,
+        start_cursor: nextCursor,
+        page_size: 100,
+      })
+    );
+
+    blocks.push(...(response.results as NotionBlock[]).filter(block => block.type));
+    hasMore = response.has_more;
+    nextCursor = response.next_cursor || undefined;
+  }
+
+  return Promise.all(
+    blocks.map(async (block) => ({
+      block,
+      children: depth < maxDepth
+        ? await fetchChildren(notion, block, options, limit, depth + 1)
+        : [],
+    }))
+  );
+}
+
+// 블록 종류에 따라 자식 블록을 가져올 위치 결정
+async function fetchChildren(
+  notion: Client,
+  block: NotionBlock,
+  options: FetchBlocksOptions,
+  limit: Limiter,
+  depth: number
+): Promise<BlockNode[]> {
+  // 하위 페이지/데이터베이스는 별도 문서이므로 참조만 남기고 내려가지 않음
+  if (block.type === 'child_page' || block.type === 'child_database') {
+    return [];
+  }
+
+  // 동기화된 블록의 사본은 원본 블록의 자식을 따라감
+  const sourceId = block.synced_block?.synced_from?.block_id;
+  if (sourceId) {
+    try {
+      return await fetchBlockTree(notion, sourceId, options, limit, depth);
+    } catch (error) {
+      // 원본이 통합에 공유되지 않은 경우 등은 건너뜀
+      console.warn(`동기화된 블록 원본을 가져올 수 없습니다 (${sourceId}):`, error);
+      return [];
+    }
+  }
+
+  return block.has_children
+    ? fetchBlockTree(notion, block.id, options, limit, depth)
+    : [];
+}
+
+/**
+ * 여러 페이지의 본문을 Markdown 텍스트로 가져오기 (페이지 ID -> 본문)
+ *
+ * 모든 페이지가 하나의 동시성 제한을 공유하므로 큰 데이터베이스에서도
+ * 한 번에 보내는 요청 수가 늘어나지 않습니다.
+ */
+export async function fetchPagesContent(
+  notion: Client,
+  pageIds: string[],
+  options: FetchBlocksOptions = {}
+): Promise<Map<string, string>> {
+  const limit = createLimiter(options.concurrency ?? DEFAULT_BLOCK_CONCURRENCY);
+  const contents = new Map<string, string>();
+
+  await Promise.all(
+    pageIds.map(async (pageId) => {
+      try {
+        const tree = await fetchBlockTree(notion, pageId, options, limit);
+        contents.set(pageId, renderBlocks(tree));
+      } catch (error) {
+        // 본문을 가져오지 못해도 속성 정보는 인덱싱되도록 빈 본문으로 처리
+        console.error(`페이지 본문 가져오기 오류 (${pageId}):`, error);
+        contents.set(pageId, '');
+      }
+    })
+  );
+
+  return contents;
+}
+
+/**
+ * 블록 트리를 Markdown 텍스트로 변환
+ */
+export function renderBlocks(nodes: BlockNode[], indent: string = ''): string {
+  return nodes
+    .map((node) => renderNode(node, indent))
+    .filter(Boolean)
+    .join('\n');
+}
+
+// 블록과 그 자식을 함께 변환 (컨테이너 블록은 자식의 배치 방식이 다름)
+function renderNode(node: BlockNode, indent: string): string {
+  const { block, children } = node;
+
+  switch (block.type) {
+    case 'table':
+      return prefixLines(renderTable(block, children), indent);
+    case 'column_list':
+    case 'column':
+    case 'synced_block':
+      // 레이아웃용 블록은 자식 내용만 이어 붙임
+      return renderBlocks(children, indent);
+    case 'quote':
+    case 'callout': {
+      // 인용/콜아웃 안의 자식 블록도 인용문 안에 포함
+      const body = [renderBlock(block), renderBlocks(children)].filter(Boolean).join('\n');
+      return prefixLines(body.split('\n').map(line => line.startsWith('>') ? line : `> ${line}`).join('\n'), indent);
+    }
+  }
+
+  const line = renderBlock(block);
+  const isNested = ['bulleted_list_item', 'numbered_list_item', 'to_do', 'toggle'].includes(block.type);
+
+  // 목록 항목과 토글의 자식은 들여쓰기해서 중첩 구조로 표현
+  const childText = renderBlocks(children, isNested ? `${indent}  ` : indent);
+
+  return [prefixLines(line, indent), childText].filter(Boolean).join('\n');
+}
+
+// 블록 하나를 Markdown 한 줄(또는 여러 줄)로 변환
+function renderBlock(block: NotionBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+      return joinRichText(block.paragraph?.rich_text);
+    case 'heading_1':
+      return `# ${joinRichText(block.heading_1?.rich_text)}`;
+    case 'heading_2':
+      return `## ${joinRichText(block.heading_2?.rich_text)}`;
+    case 'heading_3':
+      return `### ${joinRichText(block.heading_3?.rich_text)}`;
+    case 'bulleted_list_item':
+      return `• ${joinRichText(block.bulleted_list_item?.rich_text)}`;
+    case 'numbered_list_item':
+      return `1. ${joinRichText(block.numbered_list_item?.rich_text)}`;
+    case 'to_do': {
+      const checked = block.to_do?.checked ? '[x]' : '[ ]';
+      return `${checked} ${joinRichText(block.to_do?.rich_text)}`;
+    }
+    case 'toggle':
+      return `▸ ${joinRichText(block.toggle?.rich_text)}`;
+    case 'quote':
+      return `> ${joinRichText(block.quote?.rich_text)}`;
+    case 'callout': {
+      const emoji = block.callout?.icon?.emoji;
+      return `> ${emoji ? `${emoji} ` : ''}${joinRichText(block.callout?.rich_text)}`;
+    }
+    case 'code':
+      return `\`\`\`${block.code?.language || ''}\n${joinRichText(block.code?.rich_text)}\n\`\`\``;
+    case 'equation':
+      return `$$${block.equation?.expression || ''}$$`;
+    case 'divider':
+      return '---';
+    case 'bookmark':
+      return renderLink(block.bookmark?.url, joinRichText(block.bookmark?.caption));
+    case 'link_preview':
+      return renderLink(block.link_preview?.url);
+    case 'embed':
+      return renderLink(block.embed?.url, joinRichText(block.embed?.caption));
+    case 'link_to_page': {
+      const targetId = block.link_to_page?.page_id || block.link_to_page?.database_id;
+      return targetId ? `→ 연결된 페이지: ${notionUrl(targetId)}` : '';
+    }
+    case 'child_page':
+      return `📄 하위 페이지: ${block.child_page?.title || 'Untitled'}`;
+    case 'child_database':
+      return `🗃️ 하위 데이터베이스: ${block.child_database?.title || 'Untitled'}`;
+    case 'image':
+      return renderMedia('이미지', block.image);
+    case 'file':
+      return renderMedia('파일', block.file);
+    case 'pdf':
+      return renderMedia('PDF', block.pdf);
+    case 'video':
+      return renderMedia('동영상', block.video);
+    case 'audio':
+      return renderMedia('오디오', block.audio);
+    default:
+      return '';
+  }
+}
+
+// 표 블록을 Markdown 표로 변환 (열 머리글이 없으면 빈 머리글 행을 넣음)
+function renderTable(block: NotionBlock, rows: BlockNode[]): string {
+  const cells = rows
+    .filter(row => row.block.type === 'table_row')
+    .map(row => (row.block.table_row?.cells || []).map(cell => escapeTableCell(joinRichText(cell))));
+  if (cells.length === 0) return '';
+
+  const width = block.table?.table_width || Math.max(...cells.map(row => row.length));
+  const toRow = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => row[index] || '').join(' | ')} |`;
+  const header = block.table?.has_column_header ? cells.shift()! : [];
+
+  return [
+    toRow(header),
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...cells.map(toRow),
+  ].join('\n');
+}
+
+function renderLink(url: string | undefined, caption: string = ''): string {
+  if (!url) return '';
+  return `[${caption || url}](${url})`;
+}
+
+// 첨부 파일은 만료되는 Notion 파일 URL 대신 캡션과 이름만 남김
+function renderMedia(label: string, media: MediaBlock | undefined): string {
+  if (!media) return '';
+  const caption = joinRichText(media.caption);
+  const description = [media.name, caption].filter(Boolean).join(' - ');
+  const externalUrl = media.type === 'external' ? media.external?.url : undefined;
+
+  if (externalUrl) {
+    return `[${label}: ${description || externalUrl}](${externalUrl})`;
+  }
+  return description ? `[${label}: ${description}]` : '';
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function prefixLines(text: string, indent: string): string {
+  if (!text || !indent) return text;
+  return text.split('\n').map(line => `${indent}${line}`).join('\n');
+}
+
+function notionUrl(id: string): string {
+  return `https://www.notion.so/${id.replace(/-/g, '')}`;
+}
+
+function joinRichText(richText: RichText | undefined): string {
+  return richText?.map((text) => text.plain_text).join('') || '';
+}
@@ -0,0 +1,140 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { parseNotionExport } from '@/lib/notion-export';
+
+const DATABASE = 'Projects 0123456789abcdef0123456789abcdef';
+const SHAPERANK = 'ShapeRank fedcba9876543210fedcba9876543210';
+const SNAPTALK = 'SnapTalk 11112222333344445555666677778888';
+
+const CSV = [
+  'Name,Status,Tags,Date,마감,Done,Score,Link,Related,Created,Description',
+  [
+    'ShapeRank', 'Done', '"Fitness, Community"', '"June 20, 2025 → June 22, 2025"', '2025년 6월 30일 오후 3:00',
+    'Yes', '4.5', 'https://shaperank.fit', `SnapTalk (${encodeURI(`${DATABASE}/${SNAPTALK}.md`)})`,
+    '"June 23, 2025 10:22 AM"', '내 눈바디는 몇 점일까? 다른 사람들과 경쟁해보세요!',
+  ].join(','),
+  [
+    'SnapTalk', 'Done', 'AI', '2025-06-02', '', 'No', '3', 'https://play.google.com', '',
+    '"June 17, 2025 1:33 PM"', '사진으로 시작하는 영어 회화',
+  ].join(','),
+].join('\n');
+
+const SHAPERANK_MD = [
+  '# ShapeRank',
+  '',
+  'Status: Done',
+  'Tags: Fitness, Community',
+  '',
+  '## 주요 특징',
+  '1대1 매칭을 통한 [ELO 랭킹](Ranking%20aaaa.md) 시스템',
+  '![스크린샷](ShapeRank/screenshot.png)',
+].join('\n');
+
+async function buildZip(files: Record<string, string | Buffer>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+function exportFiles(csv: string = CSV): Record<string, string> {
+  return {
+    [`Export/${DATABASE}.csv`]: `\uFEFF${csv}`,
+    [`Export/${DATABASE}/${SHAPERANK}.md`]: SHAPERANK_MD,
+    [`Export/${DATABASE}/${SNAPTALK}.md`]: '# SnapTalk\n\n사진 한 장으로 시작하는 영어 회화 학습 앱',
+  };
+}
+
+describe('parseNotionExport', () => {
+  it('CSV와 Markdown을 API와 같은 형태의 페이지로 변환한다', async () => {
+    const result = await parseNotionExport(await buildZip(exportFiles()));
+
+    expect(result.databases).toHaveLength(1);
+    const [database] = result.databases;
+    expect(database).toMatchObject({ id: '01234567-89ab-cdef-0123-456789abcdef', title: 'Projects' });
+
+    const [shaperank, snaptalk] = database.pages;
+    expect(shaperank.id).toBe('fedcba98-7654-3210-fedc-ba9876543210');
+    expect(snaptalk.id).toBe('11112222-3333-4444-5555-666677778888');
+    expect(shaperank.url).toBe('https://www.notion.so/fedcba9876543210fedcba9876543210');
+    expect(shaperank.created_time).toBe('2025-06-23T10:22');
+    expect(snaptalk.created_time).toBe('2025-06-17T13:33');
+  });
+
+  it('값의 형식으로 속성 종류를 추정한다', async () => {
+    const result = await parseNotionExport(await buildZip(exportFiles()));
+    const { properties } = result.databases[0].pages[0];
+
+    expect(properties.Name).toEqual({ type: 'title', title: [{ plain_text: 'ShapeRank' }] });
+    expect(properties.Status).toEqual({ type: 'select', select: { name: 'Done' } });
+    expect(properties.Tags).toEqual({ type: 'multi_select', multi_select: [{ name: 'Fitness' }, { name: 'Community' }] });
+    expect(properties.Date).toEqual({ type: 'date', date: { start: '2025-06-20', end: '2025-06-22' } });
+    expect(properties['마감']).toEqual({ type: 'date', date: { start: '2025-06-30T15:00', end: null } });
+    expect(properties.Done).toEqual({ type: 'checkbox', checkbox: true });
+    expect(properties.Score).toEqual({ type: 'number', number: 4.5 });
+    expect(properties.Link).toEqual({ type: 'url', url: 'https://shaperank.fit' });
+    expect(properties.Created).toEqual({ type: 'created_time', created_time: '2025-06-23T10:22' });
+    expect(properties.Description.type).toBe('rich_text');
+  });
+
+  it('관계형 속성의 페이지 ID와 제목을 읽는다', async () => {
+    const result = await parseNotionExport(await buildZip(exportFiles()));
+    const [shaperank, snaptalk] = result.databases[0].pages;
+
+    expect(shaperank.properties.Related).toEqual({ type: 'relation', relation: [{ id: snaptalk.id }] });
+    expect(snaptalk.properties.Related).toEqual({ type: 'relation', relation: [] });
+    expect(result.relationTitles.get(snaptalk.id)).toBe('SnapTalk');
+  });
+
+  it('본문에서 속성 줄, 내부 링크, 첨부 이미지를 정리한다', async () => {
+    const result = await parseNotionExport(await buildZip(exportFiles()));
+    const [shaperank, snaptalk] = result.databases[0].pages;
+
+    expect(result.contents.get(shaperank.id)).toBe('## 주요 특징\n1대1 매칭을 통한 ELO 랭킹 시스템');
+    expect(result.contents.get(snaptalk.id)).toBe('사진 한 장으로 시작하는 영어 회화 학습 앱');
+  });
+
+  it('전체 행이 든 `_all.csv`가 있으면 보기 기준의 CSV 대신 쓴다', async () => {
+    const viewCsv = CSV.split('\n').slice(0, 2).join('\n');
+    const result = await parseNotionExport(await buildZip({
+      ...exportFiles(viewCsv),
+      [`Export/${DATABASE}_all.csv`]: CSV,
+    }));
+
+    expect(result.databases).toHaveLength(1);
+    expect(result.databases[0].pages.map(page => page.id)).toEqual([
+      'fedcba98-7654-3210-fedc-ba9876543210',
+      '11112222-3333-4444-5555-666677778888',
+    ]);
+  });
+
+  it('여러 부분으로 나뉜 압축 파일 안의 압축 파일을 읽는다', async () => {
+    const part = await buildZip(exportFiles());
+    const result = await parseNotionExport(await buildZip({ 'Export-Part-1.zip': part }));
+
+    expect(result.databases[0].pages).toHaveLength(2);
+  });
+
+  it('데이터베이스 CSV가 없거나 압축 파일이 아니면 알려준다', async () => {
+    await expect(parseNotionExport(await buildZip({ 'Page.md': '# Page' }))).rejects.toThrow('데이터베이스 CSV를 찾을 수 없습니다');
+    await expect(parseNotionExport(Buffer.from('not a zip'))).rejects.toThrow('압축 파일을 열 수 없습니다.');
+  });
+
+  it('압축을 푼 크기가 한도를 넘으면 중단한다', async () => {
+    const data = await buildZip({ ...exportFiles(), [`Export/${DATABASE}/Big.md`]: 'a'.repeat(64 * 1024) });
+
+    await expect(parseNotionExport(data, { maxUncompressedSize: 16 * 1024, maxEntries: 100 }))
+      .rejects.toThrow('압축을 푼 크기가 16KB를 넘어 가져올 수 없습니다.');
+  });
+
+  it('안에 든 압축 파일까지 합쳐 파일 수 한도를 확인한다', async () => {
+    const part = await buildZip(exportFiles());
+    // 바깥 압축 파일 2개 + 안쪽 파일 3개씩
+    const data = await buildZip({ 'Export-Part-1.zip': part, 'Export-Part-2.zip': part });
+
+    await expect(parseNotionExport(data, { maxUncompressedSize: 1024 * 1024, maxEntries: 8 })).resolves.toBeDefined();
+    await expect(parseNotionExport(data, { maxUncompressedSize: 1024 * 1024, maxEntries: 7 }))
+      .rejects.toThrow('압축 파일에 든 파일이 너무 많습니다. (최대 7개)');
+  });
+});
@@ -0,0 +1,401 @@
+import { createHash } from 'crypto';
+import JSZip from 'jszip';
+import Papa from 'papaparse';
+import type { Readable } from 'stream';
+import { NotionPage, NotionPropertyValue } from '@/lib/notion';
+
+/**
+ * Notion "내보내기 → Markdown & CSV" 압축 파일에서 읽은 데이터베이스
+ */
+export interface NotionExportDatabase {
+  id: string; // 파일 이름에 붙은 데이터베이스 ID (없으면 이름으로 만든 ID)
+  title: string;
+  pages: NotionPage[];
+}
+
+export interface NotionExport {
+  databases: NotionExportDatabase[];
+  contents: Map<string, string>; // 페이지 ID -> 본문 (Markdown)
+  relationTitles: Map<string, string>; // 관계형 속성의 페이지 ID -> 제목
+}
+
+/**
+ * 압축을 풀 때의 제한 (작은 압축 파일이 메모리를 다 쓰는 압축 폭탄 방지, 안에 든 압축 파일까지 합산)
+ */
+export interface ExportLimits {
+  maxUncompressedSize: number; // 압축을 푼 전체 크기 (바이트)
+  maxEntries: number; // 전체 파일 수
+}
+
+interface ExportFile {
+  path: string;
+  date: Date;
+  read: () => Promise<string>;
+}
+
+// 압축을 풀며 센 파일 수와 크기 (안에 든 압축 파일까지 합산)
+interface ZipBudget {
+  entries: number;
+  bytes: number;
+  limits: ExportLimits;
+}
+
+interface MarkdownPage {
+  id: string;
+  title: string;
+  body: string;
+  date: Date;
+}
+
+// 압축 파일 안의 압축 파일(큰 워크스페이스는 Part-1.zip 등으로 나뉨)을 풀어 볼 최대 깊이
+const MAX_ZIP_DEPTH = 2;
+const DEFAULT_EXPORT_LIMITS: ExportLimits = { maxUncompressedSize: 500 * 1024 * 1024, maxEntries: 50000 };
+// 이보다 길거나 문장 부호가 있는 값은 선택 항목이 아니라 텍스트로 봄
+const MAX_OPTION_LENGTH = 40;
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+/**
+ * 내보내기 압축 파일을 API로 가져온 것과 같은 형태의 페이지로 변환
+ *
+ * 데이터베이스 CSV에서 속성을, 페이지별 Markdown 파일에서 본문을 읽습니다.
+ * CSV에는 속성 종류가 없으므로 값의 형식으로 날짜, 체크박스, 숫자, 선택 항목 등을 추정합니다.
+ */
+export async function parseNotionExport(
+  data: ArrayBuffer | Buffer,
+  limits: ExportLimits = DEFAULT_EXPORT_LIMITS
+): Promise<NotionExport> {
+  const files = await readZipFiles(data, MAX_ZIP_DEPTH, { entries: 0, bytes: 0, limits });
+  const csvFiles = selectDatabaseFiles(files);
+
+  if (csvFiles.length === 0) {
+    throw new Error('압축 파일에서 데이터베이스 CSV를 찾을 수 없습니다. Notion에서 "Markdown & CSV" 형식으로 내보낸 파일인지 확인해주세요.');
+  }
+
+  const result: NotionExport = { databases: [], contents: new Map(), relationTitles: new Map() };
+
+  for (const csvFile of csvFiles) {
+    const { title, id } = parseFileName(csvFile.path.replace(/(_all)?\.csv$/i, ''));
+    const databaseId = id || hashId(`database:${title}`);
+    const rows = parseCsv(await csvFile.read());
+    if (rows.length < 2) continue;
+
+    const [header, ...records] = rows;
+    const columnTypes = header.map((name, index) =>
+      index === 0 ? 'title' : inferColumnType(name, records.map(record => record[index] || ''))
+    );
+    const markdownPages = await readMarkdownPages(files, csvFile.path);
+    const pages: NotionPage[] = [];
+
+    for (const record of records) {
+      if (record.every(value => !value.trim())) continue;
+
+      const pageTitle = record[0]?.trim() || 'Untitled';
+      const markdown = takeMarkdownPage(markdownPages, pageTitle);
+      const pageId = markdown?.id || hashId(`page:${databaseId}:${pageTitle}:${pages.length}`);
+      const fallbackTime = (markdown?.date || csvFile.date).toISOString();
+
+      const properties: Record<string, NotionPropertyValue> = {};
+      header.forEach((name, index) => {
+        properties[name] = toPropertyValue(columnTypes[index], record[index] || '', result.relationTitles);
+      });
+
+      pages.push({
+        object: 'page',
+        id: pageId,
+        url: markdown ? `https://www.notion.so/${pageId.replace(/-/g, '')}` : '',
+        created_time: properties[findColumn(header, columnTypes, 'created_time')]?.created_time || fallbackTime,
+        last_edited_time: properties[findColumn(header, columnTypes, 'last_edited_time')]?.last_edited_time || fallbackTime,
+        properties,
+      });
+      result.relationTitles.set(pageId, pageTitle);
+
+      if (markdown) {
+        const content = stripPropertyLines(markdown.body, header);
+        if (content) {
+          result.contents.set(pageId, content);
+        }
+      }
+    }
+
+    result.databases.push({ id: databaseId, title, pages });
+  }
+
+  return result;
+}
+
+/**
+ * 압축 파일의 파일 목록 (안에 든 압축 파일도 풀어서 포함)
+ *
+ * 압축을 풀기 전에 파일 수를 확인하고, 압축 파일에 기록된 크기는 실제와 다를 수 있으므로
+ * 풀면서 실제 크기를 세어 `maxUncompressedSize`를 넘으면 중단합니다.
+ */
+async function readZipFiles(data: ArrayBuffer | Buffer | Uint8Array, depth: number, budget: ZipBudget): Promise<ExportFile[]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error('압축 파일을 열 수 없습니다.');
+  }
+
+  const entries = Object.values(zip.files).filter(entry => !entry.dir && !entry.name.startsWith('__MACOSX/'));
+  budget.entries += entries.length;
+  if (budget.entries > budget.limits.maxEntries) {
+    throw new Error(`압축 파일에 든 파일이 너무 많습니다. (최대 ${budget.limits.maxEntries}개)`);
+  }
+
+  const files: ExportFile[] = [];
+  for (const entry of entries) {
+    if (/\.zip$/i.test(entry.name) && depth > 0) {
+      files.push(...await readZipFiles(await inflateEntry(entry, budget), depth - 1, budget));
+    } else {
+      files.push({ path: entry.name, date: entry.date, read: async () => (await inflateEntry(entry, budget)).toString('utf-8') });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * 압축 항목을 풀면서 크기를 셈 (전체 한도를 넘으면 더 풀지 않고 중단)
+ */
+function inflateEntry(entry: JSZip.JSZipObject, budget: ZipBudget): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    // JSZip 타입은 NodeJS.ReadableStream이지만 실제로는 destroy를 지원하는 Readable
+    const stream = entry.nodeStream('nodebuffer') as Readable;
+
+    stream.on('data', (chunk: Buffer) => {
+      budget.bytes += chunk.length;
+      if (budget.bytes > budget.limits.maxUncompressedSize) {
+        reject(new Error(`압축을 푼 크기가 ${formatSize(budget.limits.maxUncompressedSize)}를 넘어 가져올 수 없습니다.`));
+        stream.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * 데이터베이스 CSV 목록 (전체 행이 든 `_all.csv`가 있으면 보기 기준의 CSV 대신 사용)
+ */
+function selectDatabaseFiles(files: ExportFile[]): ExportFile[] {
+  const csvFiles = files.filter(file => /\.csv$/i.test(file.path));
+  const allPaths = new Set(csvFiles.filter(file => /_all\.csv$/i.test(file.path)).map(file => file.path));
+
+  return csvFiles.filter(file => !allPaths.has(file.path.replace(/\.csv$/i, '_all.csv')));
+}
+
+/**
+ * CSV와 같은 이름의 폴더에 있는 페이지 Markdown (하위 페이지 폴더는 제외)
+ */
+async function readMarkdownPages(files: ExportFile[], csvPath: string): Promise<Map<string, MarkdownPage[]>> {
+  const basePath = csvPath.replace(/(_all)?\.csv$/i, '');
+  const folders = new Set([`${basePath}/`, `${basePath.replace(/\s+[0-9a-f]{32}$/i, '')}/`]);
+  const pages = new Map<string, MarkdownPage[]>();
+
+  for (const file of files) {
+    const folder = file.path.slice(0, file.path.lastIndexOf('/') + 1);
+    if (!folders.has(folder) || !/\.md$/i.test(file.path)) continue;
+
+    const { title: fileTitle, id } = parseFileName(file.path.replace(/\.md$/i, ''));
+    const text = (await file.read()).replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+    // 파일 이름은 잘리거나 특수 문자가 바뀌므로 첫 줄의 제목을 우선 사용
+    const heading = text.match(/^#\s+(.+)\n?/);
+    const title = heading ? heading[1].trim() : fileTitle;
+    const page = {
+      id: id || hashId(`page:${file.path}`),
+      title,
+      body: heading ? text.slice(heading[0].length) : text,
+      date: file.date,
+    };
+
+    pages.set(title, [...(pages.get(title) || []), page]);
+  }
+
+  return pages;
+}
+
+// 제목이 같은 페이지는 CSV 행 순서대로 대응
+function takeMarkdownPage(pages: Map<string, MarkdownPage[]>, title: string): MarkdownPage | undefined {
+  return pages.get(title)?.shift();
+}
+
+/**
+ * Markdown 본문 앞에 붙는 `속성: 값` 줄은 CSV와 겹치므로 제거하고, 내보내기 파일끼리의 링크는 텍스트만 남김
+ */
+function stripPropertyLines(body: string, columns: string[]): string {
+  const lines = body.replace(/^\n+/, '').split('\n');
+  let start = 0;
+  while (start < lines.length && columns.some(column => lines[start].startsWith(`${column}: `))) {
+    start++;
+  }
+
+  return lines.slice(start).join('\n')
+    .replace(/!\[[^\]]*\]\((?!https?:)[^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\((?!https?:)[^)]*\)/g, '$1')
+    .trim();
+}
+
+/**
+ * 값의 형식으로 열의 속성 종류 추정
+ */
+function inferColumnType(name: string, values: string[]): string {
+  if (/^(created( time)?|생성 일시)$/i.test(name)) return 'created_time';
+  if (/^(last edited( time)?|최종 편집 일시)$/i.test(name)) return 'last_edited_time';
+
+  const filled = values.map(value => value.trim()).filter(Boolean);
+  if (filled.length === 0) return 'rich_text';
+
+  if (filled.every(value => parseDateRange(value))) return 'date';
+  if (filled.every(value => /^(yes|no)$/i.test(value))) return 'checkbox';
+  if (filled.every(value => /^-?\d+(\.\d+)?$/.test(value))) return 'number';
+  if (filled.every(value => /^https?:\/\/\S+$/.test(value))) return 'url';
+  if (filled.every(value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value))) return 'email';
+  if (filled.some(value => /\.md\)/.test(value)) && filled.every(value => parseRelation(value).length > 0)) return 'relation';
+
+  const isOption = (value: string) => value.length <= MAX_OPTION_LENGTH && !/[.?!]\s|\n/.test(value);
+  const items = filled.map(splitOptions);
+  if (items.every(list => list.every(isOption))) {
+    if (items.some(list => list.length > 1)) return 'multi_select';
+    // 같은 값이 반복되는 짧은 텍스트는 선택 항목으로 봄
+    if (new Set(filled).size < filled.length) return 'select';
+  }
+
+  return 'rich_text';
+}
+
+/**
+ * CSV 값을 API 응답과 같은 형태의 속성 값으로 변환
+ */
+function toPropertyValue(type: string, raw: string, relationTitles: Map<string, string>): NotionPropertyValue {
+  const value = raw.trim();
+  const richText = (text: string) => (text ? [{ plain_text: text }] : []);
+
+  switch (type) {
+    case 'title':
+      return { type, title: richText(value) };
+    case 'date':
+      return { type, date: parseDateRange(value) };
+    case 'checkbox':
+      return { type, checkbox: /^yes$/i.test(value) };
+    case 'number':
+      return { type, number: value ? Number(value) : null };
+    case 'url':
+      return { type, url: value || null };
+    case 'email':
+      return { type, email: value || null };
+    case 'select':
+      return { type, select: value ? { name: value } : null };
+    case 'multi_select':
+      return { type, multi_select: splitOptions(value).map(name => ({ name })) };
+    case 'relation': {
+      const relations = parseRelation(value);
+      relations.forEach(relation => relationTitles.set(relation.id, relation.title));
+      return { type, relation: relations.map(relation => ({ id: relation.id })) };
+    }
+    case 'created_time':
+      return { type, created_time: parseDateRange(value)?.start };
+    case 'last_edited_time':
+      return { type, last_edited_time: parseDateRange(value)?.start };
+    default:
+      return { type: 'rich_text', rich_text: richText(value) };
+  }
+}
+
+/**
+ * 내보내기의 날짜 표기("June 20, 2025 → June 25, 2025", "2025년 6월 20일 오후 3:00", "2025-06-20")를 날짜 범위로 변환
+ */
+function parseDateRange(value: string): { start: string; end: string | null } | null {
+  const [startText, endText, ...rest] = value.split(/\s*→\s*/);
+  if (rest.length > 0) return null;
+
+  const start = parseDate(startText);
+  const end = endText !== undefined ? parseDate(endText) : null;
+  if (!start || (endText !== undefined && !end)) return null;
+
+  return { start, end };
+}
+
+function parseDate(text: string): string | null {
+  const value = text.trim().replace(/\s*\((GMT|UTC)[^)]*\)$/, '');
+  let date: { year: number; month: number; day: number } | null = null;
+  let time = '';
+
+  const english = value.match(/^([A-Za-z]+) (\d{1,2}), (\d{4})(?: (\d{1,2}):(\d{2}) ?(AM|PM))?$/);
+  const korean = value.match(/^(\d{4})년 (\d{1,2})월 (\d{1,2})일(?: (오전|오후) (\d{1,2}):(\d{2}))?$/);
+  const iso = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?$/);
+
+  if (english) {
+    const month = MONTHS.indexOf(english[1].toLowerCase()) + 1;
+    if (month === 0) return null;
+    date = { year: Number(english[3]), month, day: Number(english[2]) };
+    if (english[4]) time = formatTime(Number(english[4]), english[5], english[6] === 'PM');
+  } else if (korean) {
+    date = { year: Number(korean[1]), month: Number(korean[2]), day: Number(korean[3]) };
+    if (korean[4]) time = formatTime(Number(korean[5]), korean[6], korean[4] === '오후');
+  } else if (iso) {
+    date = { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+    if (iso[4]) time = `T${iso[4].padStart(2, '0')}:${iso[5]}`;
+  }
+
+  if (!date || date.month > 12 || date.day > 31) return null;
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}${time}`;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / 1024 / 1024)}MB` : `${Math.round(bytes / 1024)}KB`;
+}
+
+function formatTime(hour: number, minute: string, pm: boolean): string {
+  const hours = (hour % 12) + (pm ? 12 : 0);
+  return `T${String(hours).padStart(2, '0')}:${minute}`;
+}
+
+/**
+ * 관계형 속성 값 ("제목 (경로/제목 <ID>.md), ...")
+ */
+function parseRelation(value: string): Array<{ id: string; title: string }> {
+  return Array.from(value.matchAll(/(?:^|,\s*)(.+?) \(([^()]*?\.md)\)/g), match => {
+    // 경로의 폴더 이름에도 데이터베이스 ID가 있으므로 파일 이름의 ID를 사용
+    const { id } = parseFileName(decodeURIComponent(match[2]).replace(/\.md$/i, ''));
+    return { id: id || hashId(`page:${match[1]}`), title: match[1] };
+  });
+}
+
+function splitOptions(value: string): string[] {
+  return value.split(/,\s*/).map(item => item.trim()).filter(Boolean);
+}
+
+function findColumn(header: string[], types: string[], type: string): string {
+  return header[types.indexOf(type)];
+}
+
+/**
+ * `경로/제목 <32자리 ID>`에서 제목과 페이지 ID 분리
+ */
+function parseFileName(path: string): { title: string; id: string | null } {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const match = name.match(/^(.*?)\s*([0-9a-f]{32})$/i);
+
+  return match ? { title: match[1] || name, id: formatId(match[2]) } : { title: name, id: null };
+}
+
+function parseCsv(text: string): string[][] {
+  const { data } = Papa.parse<string[]>(text.replace(/^\uFEFF/, ''), { skipEmptyLines: true });
+  return data;
+}
+
+// API의 페이지 ID와 같은 형식 (8-4-4-4-12)
+function formatId(hex: string): string {
+  const id = hex.toLowerCase();
+  return `${id.slice(0, 8)}-${id.slice(8, 12)}-${id.slice(12, 16)}-${id.slice(16, 20)}-${id.slice(20)}`;
+}
+
+// 파일 이름에 ID가 없는 내보내기는 다시 가져와도 같은 ID가 되도록 이름으로 만듦
+function hashId(seed: string): string {
+  return formatId(createHash('sha1').update(seed).digest('hex').slice(0, 32));
+}
@@ -0,0 +1,480 @@
+import { Client } from '@notionhq/client';
+
+// Notion API 응답 중 사용하는 부분만 정의한 타입
+interface NotionRichText {
+  plain_text: string;
+  href?: string | null;
+}
+
+interface NotionUser {
+  id: string;
+  name?: string | null;
+  person?: { email?: string };
+}
+
+interface NotionDate {
+  start: string;
+  end?: string | null;
+  time_zone?: string | null;
+}
+
+interface NotionFile {
+  name: string;
+  type?: 'file' | 'external' | 'file_upload';
+  file?: { url: string };
+  external?: { url: string };
+}
+
+export interface NotionPropertyValue {
+  type: string;
+  title?: NotionRichText[];
+  rich_text?: NotionRichText[];
+  number?: number | null;
+  select?: { name: string } | null;
+  multi_select?: Array<{ name: string }>;
+  status?: { name: string } | null;
+  date?: NotionDate | null;
+  checkbox?: boolean;
+  url?: string | null;
+  email?: string | null;
+  phone_number?: string | null;
+  people?: NotionUser[];
+  relation?: Array<{ id: string }>;
+  formula?: {
+    type: 'string' | 'number' | 'boolean' | 'date';
+    string?: string | null;
+    number?: number | null;
+    boolean?: boolean | null;
+    date?: NotionDate | null;
+  };
+  rollup?: {
+    type: 'number' | 'date' | 'array' | 'unsupported' | 'incomplete';
+    number?: number | null;
+    date?: NotionDate | null;
+    array?: NotionPropertyValue[];
+    function?: string;
+  };
+  files?: NotionFile[];
+  created_by?: NotionUser;
+  last_edited_by?: NotionUser;
+  created_time?: string;
+  last_edited_time?: string;
+  unique_id?: { prefix: string | null; number: number | null };
+  verification?: { state: string } | null;
+}
+
+export interface NotionPage {
+  object: 'page';
+  id: string;
+  url: string;
+  created_time: string;
+  last_edited_time: string;
+  in_trash?: boolean;
+  properties: Record<string, NotionPropertyValue>;
+}
+
+interface NotionDatabase {
+  object: 'database';
+  id: string;
+  title?: NotionRichText[];
+  properties: Record<string, {
+    type: string;
+    select?: { options: Array<{ name: string }> };
+    multi_select?: { options: Array<{ name: string }> };
+    status?: { options: Array<{ name: string }> };
+  }>;
+}
+
+/**
+ * 데이터베이스 속성 정의 (선택형 속성은 선택지 포함)
+ */
+export interface DatabasePropertySchema {
+  type: string;
+  options?: string[];
+}
+
+export interface DatabaseSchema {
+  id: string;
+  title: string;
+  titleProperty: string; // 제목(title) 속성 이름
+  properties: Record<string, DatabasePropertySchema>;
+}
+
+export interface DateRange {
+  start: string;
+  end: string | null;
+}
+
+export type PropertyValue = string | number | boolean | string[] | DateRange | null;
+
+export interface NormalizedProperty {
+  type: string;
+  text: string; // 사람이 읽을 수 있는 텍스트 (비어 있으면 값 없음)
+  value: PropertyValue; // 구조화된 값
+}
+
+/**
+ * 어느 라우트에서 만들어도 동일한 정규화된 페이지 모델
+ */
+export interface NormalizedPage {
+  id: string;
+  title: string;
+  url: string;
+  createdTime: string;
+  lastEditedTime: string;
+  properties: Record<string, NormalizedProperty>;
+  content: string; // 페이지 본문 (Markdown)
+}
+
+export interface NormalizeOptions {
+  content?: string;
+  relationTitles?: Map<string, string>; // 관계형 속성의 페이지 ID -> 제목
+  propertyMapping?: Record<string, string>; // 속성 이름 바꾸기 (데이터베이스마다 다른 이름을 통일)
+}
+
+/**
+ * 데이터베이스의 모든 페이지를 페이지네이션하며 가져오기
+ */
+export async function queryDatabasePages(notion: Client, databaseId: string): Promise<NotionPage[]> {
+  let allResults: unknown[] = [];
+  let hasMore = true;
+  let nextCursor: string | undefined = undefined;
+
+  while (hasMore) {
+    const response = await notion.databases.query({
+      database_id: databaseId,
+      start_cursor: nextCursor,
+      page_size: 100,
+    });
+
+    allResults = allResults.concat(response.results);
+    hasMore = response.has_more;
+    nextCursor = response.next_cursor || undefined;
+  }
+
+  // 속성이 없는 부분 응답은 제외
+  return (allResults as NotionPage[]).filter(page => page.object === 'page' && page.properties);
+}
+
+/**
+ * 데이터베이스 스키마 (속성 이름, 타입, 선택지) 조회
+ */
+export async function retrieveDatabaseSchema(notion: Client, databaseId: string): Promise<DatabaseSchema> {
+  const database = await notion.databases.retrieve({ database_id: databaseId }) as unknown as NotionDatabase;
+  if (!database.properties) {
+    throw new Error('데이터베이스 속성 정보를 가져올 수 없습니다.');
+  }
+
+  const properties: Record<string, DatabasePropertySchema> = {};
+  let titleProperty = '';
+
+  for (const [name, property] of Object.entries(database.properties)) {
+    const options = property.select?.options || property.multi_select?.options || property.status?.options;
+    properties[name] = options
+      ? { type: property.type, options: options.map(option => option.name) }
+      : { type: property.type };
+
+    if (property.type === 'title') {
+      titleProperty = name;
+    }
+  }
+
+  return {
+    id: database.id,
+    title: joinRichText(database.title) || 'Untitled',
+    titleProperty,
+    properties,
+  };
+}
+
+/**
+ * 모델에게 보여 줄 스키마 설명 (`- 이름 (타입: 선택지)` 목록)
+ */
+export function describeSchema(schema: DatabaseSchema): string {
+  return Object.entries(schema.properties)
+    .map(([name, property]) => {
+      const options = property.options?.length ? `: ${property.options.join(', ')}` : '';
+      return `- ${name} (${property.type}${options})`;
+    })
+    .join('\n');
+}
+
+/**
+ * 페이지 ID -> 제목 맵 (같은 데이터베이스를 가리키는 관계형 속성 표시용)
+ */
+export function buildTitleMap(pages: NotionPage[]): Map<string, string> {
+  return new Map(pages.map(page => [page.id, extractTitle(page.properties)]));
+}
+
+/**
+ * Notion 페이지를 정규화된 페이지 모델로 변환
+ */
+export function normalizePage(page: NotionPage, options: NormalizeOptions = {}): NormalizedPage {
+  const properties: Record<string, NormalizedProperty> = {};
+
+  for (const [key, property] of Object.entries(page.properties)) {
+    properties[options.propertyMapping?.[key] || key] = extractProperty(property, options.relationTitles);
+  }
+
+  return {
+    id: page.id,
+    title: extractTitle(page.properties),
+    url: page.url || `https://www.notion.so/${page.id.replace(/-/g, '')}`,
+    createdTime: page.created_time,
+    lastEditedTime: page.last_edited_time,
+    properties,
+    content: options.content || '',
+  };
+}
+
+/**
+ * 페이지 제목 추출
+ */
+export function extractTitle(properties: Record<string, NotionPropertyValue>): string {
+  for (const property of Object.values(properties)) {
+    if (property.type === 'title' && property.title) {
+      return joinRichText(property.title) || 'Untitled';
+    }
+  }
+  return 'Untitled';
+}
+
+/**
+ * 속성 하나를 텍스트와 구조화된 값으로 변환
+ */
+export function extractProperty(
+  property: NotionPropertyValue,
+  relationTitles?: Map<string, string>
+): NormalizedProperty {
+  const result = (value: PropertyValue, text: string = valueToText(value)): NormalizedProperty => ({
+    type: property.type,
+    text,
+    value,
+  });
+
+  switch (property.type) {
+    case 'title':
+      return result(joinRichText(property.title) || null);
+    case 'rich_text':
+      return result(joinRichText(property.rich_text) || null);
+    case 'number':
+      return result(property.number ?? null);
+    case 'select':
+      return result(property.select?.name || null);
+    case 'status':
+      return result(property.status?.name || null);
+    case 'multi_select':
+      return result(property.multi_select?.map(item => item.name) || []);
+    case 'date':
+      return result(toDateRange(property.date));
+    case 'checkbox':
+      return result(property.checkbox ?? false);
+    case 'url':
+      return result(property.url || null);
+    case 'email':
+      return result(property.email || null);
+    case 'phone_number':
+      return result(property.phone_number || null);
+    case 'people':
+      return result(property.people?.map(userName) || []);
+    case 'relation': {
+      const ids = property.relation?.map(item => item.id) || [];
+      const text = ids.map(id => relationTitles?.get(id) || id).join(', ');
+      return result(ids, text);
+    }
+    case 'formula':
+      return extractFormula(property);
+    case 'rollup':
+      return extractRollup(property, relationTitles);
+    case 'files': {
+      const files = property.files || [];
+      const urls = files.map(file => file.file?.url || file.external?.url || file.name);
+      return result(urls, files.map(file => file.name).join(', '));
+    }
+    case 'created_by':
+      return result(property.created_by ? userName(property.created_by) : null);
+    case 'last_edited_by':
+      return result(property.last_edited_by ? userName(property.last_edited_by) : null);
+    case 'created_time':
+      return result(property.created_time || null);
+    case 'last_edited_time':
+      return result(property.last_edited_time || null);
+    case 'unique_id': {
+      const uniqueId = property.unique_id;
+      if (!uniqueId || uniqueId.number === null) return result(null);
+      return result(uniqueId.prefix ? `${uniqueId.prefix}-${uniqueId.number}` : String(uniqueId.number));
+    }
+    case 'verification':
+      return result(property.verification?.state || null);
+    default:
+      return result(null, '');
+  }
+}
+
+/**
+ * 값이 있는 속성만 `키: 텍스트` 형태로 정리 (제목 제외)
+ */
+export function getPropertyTexts(page: NormalizedPage): Record<string, string> {
+  const texts: Record<string, string> = {};
+
+  for (const [key, property] of Object.entries(page.properties)) {
+    if (property.type === 'title' || !property.text) continue;
+    texts[key] = property.text;
+  }
+
+  return texts;
+}
+
+/**
+ * 청크 메타데이터용 속성 값 (날짜 범위는 `키`, `키_end`로 펼침)
+ */
+export function getPropertyMetadata(page: NormalizedPage): Record<string, string | number | boolean | string[]> {
+  const metadata: Record<string, string | number | boolean | string[]> = {};
+
+  for (const [key, property] of Object.entries(page.properties)) {
+    const { value } = property;
+    if (property.type === 'title' || value === null) continue;
+
+    if (isDateRange(value)) {
+      metadata[key] = value.start;
+      if (value.end) {
+        metadata[`${key}_end`] = value.end;
+      }
+    } else if (!Array.isArray(value) || value.length > 0) {
+      metadata[key] = value;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * 생성 일시/최종 편집 일시 속성 이름 (날짜 값이지만 일정 날짜는 아님)
+ */
+export function getTimestampPropertyNames(page: NormalizedPage): string[] {
+  return Object.entries(page.properties)
+    .filter(([, property]) => property.type === 'created_time' || property.type === 'last_edited_time')
+    .map(([key]) => key);
+}
+
+/**
+ * 정규화된 페이지를 챗봇 컨텍스트용 텍스트로 변환 (`content`를 주면 본문 대신 사용)
+ */
+export function formatPageText(page: NormalizedPage, content: string | undefined = page.content): string {
+  let text = formatPageHeader(page);
+
+  if (content) {
+    text += `내용:\n${content}\n`;
+  }
+
+  return text + formatPageFooter(page);
+}
+
+/**
+ * 페이지 제목과 속성 (`maxValueLength`를 주면 긴 속성 값은 줄임)
+ */
+export function formatPageHeader(page: NormalizedPage, maxValueLength?: number): string {
+  let text = `제목: ${page.title}\n`;
+
+  const propertyTexts = getPropertyTexts(page);
+  if (Object.keys(propertyTexts).length > 0) {
+    text += '속성:\n';
+    Object.entries(propertyTexts).forEach(([key, value]) => {
+      const shown = maxValueLength && value.length > maxValueLength ? `${value.slice(0, maxValueLength)}…` : value;
+      text += `- ${key}: ${shown}\n`;
+    });
+  }
+
+  return text;
+}
+
+/**
+ * 페이지 생성일과 수정일
+ */
+export function formatPageFooter(page: NormalizedPage): string {
+  // 날짜 정보를 더 명확하게 표시
+  let text = `생성일: ${new Date(page.createdTime).toLocaleString('ko-KR')}\n`;
+  text += `마지막 수정: ${new Date(page.lastEditedTime).toLocaleString('ko-KR')}\n`;
+
+  // ISO 날짜도 포함 (정확한 비교를 위해)
+  text += `생성일(ISO): ${page.createdTime}\n`;
+  text += `마지막 수정(ISO): ${page.lastEditedTime}\n`;
+  text += '---\n';
+
+  return text;
+}
+
+export function isDateRange(value: PropertyValue): value is DateRange {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'start' in value;
+}
+
+function extractFormula(property: NotionPropertyValue): NormalizedProperty {
+  const formula = property.formula;
+  let value: PropertyValue = null;
+
+  switch (formula?.type) {
+    case 'string':
+      value = formula.string || null;
+      break;
+    case 'number':
+      value = formula.number ?? null;
+      break;
+    case 'boolean':
+      value = formula.boolean ?? null;
+      break;
+    case 'date':
+      value = toDateRange(formula.date);
+      break;
+  }
+
+  return { type: property.type, text: valueToText(value), value };
+}
+
+function extractRollup(property: NotionPropertyValue, relationTitles?: Map<string, string>): NormalizedProperty {
+  const rollup = property.rollup;
+  let value: PropertyValue = null;
+  let text = '';
+
+  switch (rollup?.type) {
+    case 'number':
+      value = rollup.number ?? null;
+      text = valueToText(value);
+      break;
+    case 'date':
+      value = toDateRange(rollup.date);
+      text = valueToText(value);
+      break;
+    case 'array': {
+      // 배열 항목은 각각 일반 속성과 같은 형태이므로 재귀적으로 처리
+      const items = (rollup.array || [])
+        .map(item => extractProperty(item, relationTitles).text)
+        .filter(Boolean);
+      value = items;
+      text = items.join(', ');
+      break;
+    }
+  }
+
+  return { type: property.type, text, value };
+}
+
+function valueToText(value: PropertyValue): string {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? '예' : '아니오';
+  if (Array.isArray(value)) return value.join(', ');
+  if (isDateRange(value)) return value.end ? `${value.start} ~ ${value.end}` : value.start;
+  return String(value);
+}
+
+function toDateRange(date: NotionDate | null | undefined): DateRange | null {
+  if (!date?.start) return null;
+  return { start: date.start, end: date.end || null };
+}
+
+function joinRichText(richText: NotionRichText[] | undefined): string {
+  return richText?.map(text => text.plain_text).join('') || '';
+}
+
+function userName(user: NotionUser): string {
+  return user.name || user.person?.email || user.id;
+}
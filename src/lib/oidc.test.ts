@@ -0,0 +1,21 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getOidcRole } from '@/lib/oidc';
+
+describe('getOidcRole', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('OIDC_ADMIN_EMAILS에 있고 확인된 이메일만 admin', () => {
+    vi.stubEnv('OIDC_ADMIN_EMAILS', 'admin@example.com, owner@example.com');
+
+    expect(getOidcRole({ subject: '1', name: 'Admin', email: 'Admin@example.com', emailVerified: true })).toBe('admin');
+    expect(getOidcRole({ subject: '2', name: 'Member', email: 'member@example.com', emailVerified: true })).toBe('member');
+  });
+
+  it('확인되지 않은 관리자 이메일은 member', () => {
+    vi.stubEnv('OIDC_ADMIN_EMAILS', 'admin@example.com');
+
+    expect(getOidcRole({ subject: '3', name: 'Impostor', email: 'admin@example.com', emailVerified: false })).toBe('member');
+  });
+});
@@ -0,0 +1,175 @@
+import { Role } from '@/lib/session';
+
+/**
+ * OIDC 제공자에서 받은 사용자 정보
+ */
+export interface OidcProfile {
+  subject: string;
+  name: string;
+  email?: string;
+  emailVerified: boolean; // IdP가 이메일 소유를 확인했는지 (`email_verified` 클레임)
+}
+
+/**
+ * 인가 코드 흐름을 처리하는 로그인 제공자 (실제 OIDC 서버 또는 개발용 목 제공자)
+ */
+export interface OidcProvider {
+  id: string;
+  name: string; // 로그인 버튼에 표시할 이름
+  getAuthorizationUrl(params: { origin: string; redirectUri: string; state: string; nonce: string }): Promise<string>;
+  exchangeCode(params: { code: string; redirectUri: string; nonce: string }): Promise<OidcProfile>;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+let discoveryCache: { issuer: string; document: Promise<DiscoveryDocument> } | null = null;
+
+/**
+ * 환경 변수로 설정된 로그인 제공자
+ *
+ * OIDC_ISSUER/OIDC_CLIENT_ID/OIDC_CLIENT_SECRET이 있으면 해당 서버를, 개발 환경에서 OIDC_MOCK=true면 목 제공자를 사용합니다.
+ */
+export function getOidcProvider(): OidcProvider | null {
+  const { OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET } = process.env;
+  if (OIDC_ISSUER && OIDC_CLIENT_ID && OIDC_CLIENT_SECRET) {
+    return createOidcProvider(OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET);
+  }
+
+  if (process.env.OIDC_MOCK === 'true' && process.env.NODE_ENV !== 'production') {
+    return mockOidcProvider;
+  }
+
+  return null;
+}
+
+/**
+ * OIDC 사용자의 역할 (OIDC_ADMIN_EMAILS에 있고 IdP가 확인한 이메일만 admin)
+ *
+ * 사용자가 확인되지 않은 이메일을 정할 수 있는 IdP에서 관리자 이메일을 사칭하지 못하도록 `email_verified`를 요구합니다.
+ */
+export function getOidcRole(profile: OidcProfile): Role {
+  const adminEmails = (process.env.OIDC_ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  return profile.email && profile.emailVerified && adminEmails.includes(profile.email.toLowerCase()) ? 'admin' : 'member';
+}
+
+function createOidcProvider(issuer: string, clientId: string, clientSecret: string): OidcProvider {
+  return {
+    id: 'oidc',
+    name: process.env.OIDC_NAME || 'SSO',
+
+    async getAuthorizationUrl({ redirectUri, state, nonce }) {
+      const discovery = await discover(issuer);
+      const url = new URL(discovery.authorization_endpoint);
+      url.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: clientId,
+        redirect_uri: redirectUri,
+        scope: 'openid profile email',
+        state,
+        nonce,
+      }).toString();
+      return url.toString();
+    },
+
+    async exchangeCode({ code, redirectUri, nonce }) {
+      const discovery = await discover(issuer);
+      const response = await fetch(discovery.token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: redirectUri,
+          client_id: clientId,
+          client_secret: clientSecret,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`OIDC 토큰 요청 실패 (${response.status})`);
+      }
+
+      const { id_token: idToken } = await response.json();
+      if (typeof idToken !== 'string') {
+        throw new Error('OIDC 응답에 ID 토큰이 없습니다.');
+      }
+
+      // 토큰 엔드포인트에서 TLS로 직접 받은 ID 토큰이므로 서명 대신 발급자, 대상, nonce, 만료만 확인
+      const claims = decodeJwtPayload(idToken);
+      const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+      if (claims.iss !== discovery.issuer) throw new Error('ID 토큰의 발급자가 일치하지 않습니다.');
+      if (!audience.includes(clientId)) throw new Error('ID 토큰의 대상이 일치하지 않습니다.');
+      if (claims.nonce !== nonce) throw new Error('ID 토큰의 nonce가 일치하지 않습니다.');
+      if (typeof claims.exp === 'number' && claims.exp * 1000 < Date.now()) throw new Error('ID 토큰이 만료되었습니다.');
+
+      return toProfile(claims);
+    },
+  };
+}
+
+/**
+ * 실제 OIDC 서버 없이 로그인 흐름을 확인하기 위한 목 제공자
+ *
+ * `/api/auth/mock-oidc`에서 입력한 사용자 정보를 인가 코드에 그대로 담아 돌려줍니다.
+ */
+const mockOidcProvider: OidcProvider = {
+  id: 'mock',
+  name: 'Mock SSO',
+
+  async getAuthorizationUrl({ origin, redirectUri, state, nonce }) {
+    const url = new URL('/api/auth/mock-oidc', origin);
+    url.search = new URLSearchParams({ redirect_uri: redirectUri, state, nonce }).toString();
+    return url.toString();
+  },
+
+  async exchangeCode({ code, nonce }) {
+    const claims = JSON.parse(Buffer.from(code, 'base64url').toString('utf8'));
+    if (claims.nonce !== nonce) {
+      throw new Error('ID 토큰의 nonce가 일치하지 않습니다.');
+    }
+    return toProfile(claims);
+  },
+};
+
+function discover(issuer: string): Promise<DiscoveryDocument> {
+  if (discoveryCache?.issuer !== issuer) {
+    const document = fetch(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`).then(async response => {
+      if (!response.ok) {
+        throw new Error(`OIDC 설정을 불러오지 못했습니다 (${response.status})`);
+      }
+      return response.json() as Promise<DiscoveryDocument>;
+    });
+    // 실패한 조회는 캐시하지 않음
+    document.catch(() => { discoveryCache = null; });
+    discoveryCache = { issuer, document };
+  }
+  return discoveryCache.document;
+}
+
+function decodeJwtPayload(token: string): Record<string, any> { // eslint-disable-line @typescript-eslint/no-explicit-any
+  const [, payload] = token.split('.');
+  if (!payload) {
+    throw new Error('ID 토큰 형식이 올바르지 않습니다.');
+  }
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+}
+
+function toProfile(claims: Record<string, unknown>): OidcProfile {
+  const subject = String(claims.sub || '');
+  if (!subject) {
+    throw new Error('ID 토큰에 사용자 식별자가 없습니다.');
+  }
+
+  const email = typeof claims.email === 'string' ? claims.email : undefined;
+  const name = typeof claims.name === 'string' && claims.name ? claims.name : email || subject;
+  return { subject, name, email, emailVerified: claims.email_verified === true };
+}
@@ -0,0 +1,95 @@
+import type { LLMProvider } from '@/lib/llm';
+
+/**
+ * 검색에 사용한 질의 (original: 검색 질문, multi-query: 다른 표현, hyde: 가상 답변 문서)
+ */
+export interface SearchQuery {
+  type: 'original' | 'multi-query' | 'hyde';
+  text: string;
+}
+
+export interface QueryExpansionOptions {
+  multiQuery?: boolean; // 같은 의도를 다른 표현으로 바꾼 질의 추가
+  hyde?: boolean; // 질문에 대한 가상의 답변 문서를 만들어 벡터 검색에 사용 (Hypothetical Document Embeddings)
+}
+
+// 다른 표현으로 만들 질의 수
+const MULTI_QUERY_COUNT = 3;
+const HYDE_MAX_TOKENS = 300;
+
+/**
+ * 검색 질문을 켜진 방식으로 확장 (실패한 방식은 건너뛰고 원래 질문은 항상 포함)
+ */
+export async function expandQuery(
+  llm: LLMProvider,
+  question: string,
+  options: QueryExpansionOptions
+): Promise<SearchQuery[]> {
+  const [variants, hypothetical] = await Promise.all([
+    options.multiQuery ? generateQueryVariants(llm, question) : [],
+    options.hyde ? generateHypotheticalDocument(llm, question) : null,
+  ]);
+
+  return [
+    { type: 'original', text: question },
+    ...variants.map(text => ({ type: 'multi-query' as const, text })),
+    ...(hypothetical ? [{ type: 'hyde' as const, text: hypothetical }] : []),
+  ];
+}
+
+/**
+ * 모호한 질문을 검색하기 좋은 구체적인 질의 여러 개로 바꿈
+ */
+async function generateQueryVariants(llm: LLMProvider, question: string): Promise<string[]> {
+  try {
+    const completion = await llm.chat(
+      [
+        {
+          role: 'system',
+          content: `Notion 데이터베이스에서 문서를 찾기 위한 검색 질의를 만듭니다.
+사용자의 질문과 같은 의도를 가진 서로 다른 검색 질의 ${MULTI_QUERY_COUNT}개를 만드세요.
+모호한 표현은 프로젝트, 일정, 담당자, 상태 등 문서에 나올 법한 구체적인 단어로 바꾸고, 날짜 표현은 그대로 유지하세요.
+{"queries": ["질의1", "질의2"]} 형식의 JSON으로만 답하세요.`,
+        },
+        { role: 'user', content: question },
+      ],
+      { temperature: 0.3, maxTokens: 300, responseFormat: 'json' }
+    );
+
+    const parsed = JSON.parse(completion.content);
+    const queries: unknown[] = Array.isArray(parsed?.queries) ? parsed.queries : [];
+    return Array.from(new Set(
+      queries
+        .filter((query): query is string => typeof query === 'string')
+        .map(query => query.trim())
+        .filter(query => query && query !== question)
+    )).slice(0, MULTI_QUERY_COUNT);
+  } catch (error) {
+    console.warn('검색 질의 확장 실패, 건너뜁니다:', error);
+    return [];
+  }
+}
+
+/**
+ * 질문에 답하는 Notion 페이지를 가정해 짧게 작성 (내용이 사실일 필요는 없음)
+ */
+async function generateHypotheticalDocument(llm: LLMProvider, question: string): Promise<string | null> {
+  try {
+    const completion = await llm.chat(
+      [
+        {
+          role: 'system',
+          content: `사용자의 질문에 답하는 Notion 페이지의 일부를 가정해 3~5문장으로 작성하세요.
+실제 데이터를 모르므로 그럴듯한 내용으로 쓰되, 문서에 나올 법한 제목, 속성, 용어를 사용하세요. 문서 내용 외의 설명은 쓰지 마세요.`,
+        },
+        { role: 'user', content: question },
+      ],
+      { temperature: 0.7, maxTokens: HYDE_MAX_TOKENS }
+    );
+
+    return completion.content.trim() || null;
+  } catch (error) {
+    console.warn('가상 답변 문서 생성 실패, 건너뜁니다:', error);
+    return null;
+  }
+}
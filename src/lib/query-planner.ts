@@ -0,0 +1,346 @@
+import { Client } from '@notionhq/client';
+import type { LLMProvider } from '@/lib/llm';
+import type { SearchSource } from '@/lib/rag';
+import { formatDate } from '@/lib/date-range';
+import {
+  DatabaseSchema,
+  NotionPage,
+  buildTitleMap,
+  describeSchema,
+  formatPageText,
+  normalizePage,
+} from '@/lib/notion';
+
+/**
+ * 모델이 만든 Notion `databases.query` 조건
+ */
+export interface QueryPlan {
+  filter?: Record<string, unknown>;
+  sorts?: Array<Record<string, unknown>>;
+}
+
+export interface QueryPlanResult {
+  plan: QueryPlan;
+  pages: NotionPage[];
+  truncated: boolean; // MAX_QUERY_ROWS를 넘어 일부만 가져왔는지
+}
+
+const MAX_QUERY_ROWS = 50;
+const MAX_FILTER_DEPTH = 2; // Notion은 and/or를 두 단계까지만 중첩 허용
+
+type ValueKind = 'string' | 'number' | 'boolean' | 'date' | 'empty' | 'option' | 'id';
+
+// 속성 타입별 허용 연산자와 값 종류
+const TEXT_OPERATORS: Record<string, ValueKind> = {
+  equals: 'string', does_not_equal: 'string', contains: 'string', does_not_contain: 'string',
+  starts_with: 'string', ends_with: 'string', is_empty: 'boolean', is_not_empty: 'boolean',
+};
+const NUMBER_OPERATORS: Record<string, ValueKind> = {
+  equals: 'number', does_not_equal: 'number', greater_than: 'number', less_than: 'number',
+  greater_than_or_equal_to: 'number', less_than_or_equal_to: 'number', is_empty: 'boolean', is_not_empty: 'boolean',
+};
+const DATE_OPERATORS: Record<string, ValueKind> = {
+  equals: 'date', before: 'date', after: 'date', on_or_before: 'date', on_or_after: 'date',
+  is_empty: 'boolean', is_not_empty: 'boolean',
+  past_week: 'empty', past_month: 'empty', past_year: 'empty', this_week: 'empty',
+  next_week: 'empty', next_month: 'empty', next_year: 'empty',
+};
+const SELECT_OPERATORS: Record<string, ValueKind> = {
+  equals: 'option', does_not_equal: 'option', is_empty: 'boolean', is_not_empty: 'boolean',
+};
+const MULTI_SELECT_OPERATORS: Record<string, ValueKind> = {
+  contains: 'option', does_not_contain: 'option', is_empty: 'boolean', is_not_empty: 'boolean',
+};
+const ID_OPERATORS: Record<string, ValueKind> = {
+  contains: 'id', does_not_contain: 'id', is_empty: 'boolean', is_not_empty: 'boolean',
+};
+
+const OPERATORS_BY_TYPE: Record<string, Record<string, ValueKind>> = {
+  title: TEXT_OPERATORS,
+  rich_text: TEXT_OPERATORS,
+  url: TEXT_OPERATORS,
+  email: TEXT_OPERATORS,
+  phone_number: TEXT_OPERATORS,
+  number: NUMBER_OPERATORS,
+  checkbox: { equals: 'boolean', does_not_equal: 'boolean' },
+  select: SELECT_OPERATORS,
+  status: SELECT_OPERATORS,
+  multi_select: MULTI_SELECT_OPERATORS,
+  date: DATE_OPERATORS,
+  created_time: DATE_OPERATORS,
+  last_edited_time: DATE_OPERATORS,
+  people: ID_OPERATORS,
+  created_by: ID_OPERATORS,
+  last_edited_by: ID_OPERATORS,
+  relation: ID_OPERATORS,
+  files: { is_empty: 'boolean', is_not_empty: 'boolean' },
+};
+
+// formula 속성은 결과 타입(string/number/checkbox/date)별 조건을 한 단계 더 감쌈
+const FORMULA_OPERATORS: Record<string, Record<string, ValueKind>> = {
+  string: TEXT_OPERATORS,
+  number: NUMBER_OPERATORS,
+  checkbox: { equals: 'boolean', does_not_equal: 'boolean' },
+  date: DATE_OPERATORS,
+};
+
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * 질문을 데이터베이스 조회 조건으로 변환
+ *
+ * 속성 값만으로 정확히 답할 수 있는 질문(특정 상태, 기간, 태그 등)일 때만 조건을 만들고,
+ * 본문 내용을 찾아야 하는 질문이면 null을 반환해 RAG 검색을 쓰도록 합니다.
+ */
+export async function planDatabaseQuery(
+  llm: LLMProvider,
+  schema: DatabaseSchema,
+  question: string,
+  dateHint?: string
+): Promise<QueryPlan | null> {
+  // 날짜 범위 힌트와 같은 기준이 되도록 UTC가 아닌 현지 날짜 사용
+  const today = formatDate(new Date());
+
+  const completion = await llm.chat(
+    [
+      {
+        role: 'system',
+        content: `당신은 Notion 데이터베이스 조회 조건을 만드는 도우미입니다.
+질문이 아래 속성 값(상태, 날짜, 태그, 체크박스 등)만으로 정확히 걸러낼 수 있는 질문이면 Notion API databases.query의 filter와 sorts를 JSON으로 만드세요.
+페이지 본문 내용을 읽어야 답할 수 있는 질문이면 {"structured": false}만 반환하세요.
+
+반환 형식: {"structured": true, "filter": {...}, "sorts": [...]}
+- 조건 하나: {"property": "속성 이름", "<속성 타입>": {"<연산자>": 값}}
+- 여러 조건: {"and": [...]} 또는 {"or": [...]} (두 단계까지 중첩 가능)
+- 날짜 값은 YYYY-MM-DD, 선택지 값은 아래 목록에 있는 값만 사용
+- 정렬: [{"property": "속성 이름", "direction": "ascending" | "descending"}]
+- 오늘 날짜: ${today}${dateHint ? `\n- 질문의 날짜 범위: ${dateHint}` : ''}
+
+데이터베이스 "${schema.title}" 속성:
+${describeSchema(schema)}`,
+      },
+      { role: 'user', content: question },
+    ],
+    { temperature: 0, maxTokens: 500, responseFormat: 'json' }
+  );
+
+  const content = completion.content;
+  if (!content) {
+    throw new Error('쿼리 계획 결과가 비어 있습니다.');
+  }
+
+  const output = JSON.parse(content);
+  if (!output || output.structured === false) {
+    return null;
+  }
+
+  const plan: QueryPlan = {};
+  if (output.filter && Object.keys(output.filter).length > 0) plan.filter = output.filter;
+  if (Array.isArray(output.sorts) && output.sorts.length > 0) plan.sorts = output.sorts;
+
+  if (!plan.filter && !plan.sorts) {
+    return null;
+  }
+
+  validateQueryPlan(plan, schema);
+  return plan;
+}
+
+/**
+ * 쿼리 조건을 스키마와 대조해 검증 (문제가 있으면 모든 문제를 모아 예외 발생)
+ */
+export function validateQueryPlan(plan: QueryPlan, schema: DatabaseSchema): void {
+  const errors: string[] = [];
+
+  if (plan.filter) {
+    validateFilter(plan.filter, schema, 0, errors);
+  }
+
+  for (const sort of plan.sorts || []) {
+    if (sort.direction !== 'ascending' && sort.direction !== 'descending') {
+      errors.push(`정렬 방향이 올바르지 않습니다: ${String(sort.direction)}`);
+    }
+    if (typeof sort.property === 'string') {
+      if (!schema.properties[sort.property]) errors.push(`정렬 속성 "${sort.property}"이(가) 없습니다.`);
+    } else if (sort.timestamp !== 'created_time' && sort.timestamp !== 'last_edited_time') {
+      errors.push('정렬에는 property 또는 timestamp가 필요합니다.');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`쿼리 조건 검증 실패: ${errors.join(' / ')}`);
+  }
+}
+
+/**
+ * 검증된 조건으로 데이터베이스 조회 (최대 MAX_QUERY_ROWS개)
+ */
+export async function runQueryPlan(
+  notion: Client,
+  schema: DatabaseSchema,
+  plan: QueryPlan
+): Promise<QueryPlanResult> {
+  type QueryParameters = Parameters<Client['databases']['query']>[0];
+
+  const pages: NotionPage[] = [];
+  let nextCursor: string | undefined = undefined;
+  let hasMore = true;
+
+  while (hasMore && pages.length < MAX_QUERY_ROWS) {
+    const response = await notion.databases.query({
+      database_id: schema.id,
+      filter: plan.filter as QueryParameters['filter'],
+      sorts: plan.sorts as QueryParameters['sorts'],
+      start_cursor: nextCursor,
+      page_size: Math.min(100, MAX_QUERY_ROWS - pages.length),
+    });
+
+    pages.push(...(response.results as NotionPage[]).filter(page => page.object === 'page' && page.properties));
+    hasMore = response.has_more;
+    nextCursor = response.next_cursor || undefined;
+  }
+
+  return { plan, pages, truncated: hasMore };
+}
+
+/**
+ * 조회 결과를 답변 컨텍스트로 변환 (번호는 getQuerySources와 같음)
+ */
+export function formatQueryResults(result: QueryPlanResult, sourceName?: string): string {
+  const database = sourceName ? `"${sourceName}" 데이터베이스` : '데이터베이스';
+  if (result.pages.length === 0) {
+    return `${database}를 다음 조건으로 조회했지만 일치하는 페이지가 없습니다.\n조건: ${JSON.stringify(result.plan)}`;
+  }
+
+  const titles = buildTitleMap(result.pages);
+  let context = `${database}를 다음 조건으로 조회한 결과 ${result.pages.length}개 페이지${result.truncated ? ` (상위 ${MAX_QUERY_ROWS}개만 표시)` : ''}가 일치합니다. 이 목록이 조건에 맞는 전체 결과입니다.\n`;
+  context += `조건: ${JSON.stringify(result.plan)}\n\n`;
+
+  result.pages.forEach((page, index) => {
+    context += `[${index + 1}] ${formatPageText(normalizePage(page, { relationTitles: titles }))}\n`;
+  });
+
+  return context;
+}
+
+/**
+ * 조회 결과를 답변의 [n] 인용 표시와 짝을 이루는 출처 목록으로 변환
+ */
+export function getQuerySources(result: QueryPlanResult, sourceName?: string): SearchSource[] {
+  const titles = buildTitleMap(result.pages);
+  return result.pages.map((page, index) => ({
+    index: index + 1,
+    title: titles.get(page.id) || 'Untitled',
+    url: page.url,
+    pageId: page.id,
+    sourceName,
+    chunkIndex: 0,
+    score: 1,
+  }));
+}
+
+function validateFilter(filter: Record<string, unknown>, schema: DatabaseSchema, depth: number, errors: string[]) {
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+    errors.push('필터는 객체여야 합니다.');
+    return;
+  }
+
+  for (const compound of ['and', 'or'] as const) {
+    if (compound in filter) {
+      const conditions = filter[compound];
+      if (!Array.isArray(conditions) || conditions.length === 0) {
+        errors.push(`"${compound}"에는 조건 배열이 필요합니다.`);
+      } else if (depth >= MAX_FILTER_DEPTH) {
+        errors.push(`and/or는 ${MAX_FILTER_DEPTH}단계까지만 중첩할 수 있습니다.`);
+      } else {
+        conditions.forEach(condition => validateFilter(condition, schema, depth + 1, errors));
+      }
+      return;
+    }
+  }
+
+  if (typeof filter.timestamp === 'string') {
+    const timestamp = filter.timestamp;
+    if (timestamp !== 'created_time' && timestamp !== 'last_edited_time') {
+      errors.push(`알 수 없는 timestamp: ${timestamp}`);
+      return;
+    }
+    validateCondition(filter[timestamp], DATE_OPERATORS, `timestamp ${timestamp}`, undefined, errors);
+    return;
+  }
+
+  const name = filter.property;
+  if (typeof name !== 'string') {
+    errors.push('조건에 property가 없습니다.');
+    return;
+  }
+
+  const property = schema.properties[name];
+  if (!property) {
+    errors.push(`"${name}" 속성이 데이터베이스에 없습니다.`);
+    return;
+  }
+
+  if (property.type === 'formula') {
+    const formula = filter.formula as Record<string, unknown> | undefined;
+    const kind = formula ? Object.keys(formula).find(key => key in FORMULA_OPERATORS) : undefined;
+    if (!formula || !kind) {
+      errors.push(`"${name}"(formula) 조건은 formula.string/number/checkbox/date 형식이어야 합니다.`);
+      return;
+    }
+    validateCondition(formula[kind], FORMULA_OPERATORS[kind], name, undefined, errors);
+    return;
+  }
+
+  const operators = OPERATORS_BY_TYPE[property.type];
+  if (!operators) {
+    errors.push(`"${name}" 속성(${property.type})은 조건으로 사용할 수 없습니다.`);
+    return;
+  }
+  if (!(property.type in filter)) {
+    errors.push(`"${name}" 속성은 ${property.type} 타입이므로 "${property.type}" 조건을 써야 합니다.`);
+    return;
+  }
+
+  validateCondition(filter[property.type], operators, name, property.options, errors);
+}
+
+function validateCondition(
+  condition: unknown,
+  operators: Record<string, ValueKind>,
+  name: string,
+  options: string[] | undefined,
+  errors: string[]
+) {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    errors.push(`"${name}" 조건 형식이 올바르지 않습니다.`);
+    return;
+  }
+
+  const entries = Object.entries(condition);
+  if (entries.length !== 1) {
+    errors.push(`"${name}" 조건에는 연산자가 하나만 있어야 합니다.`);
+    return;
+  }
+
+  const [operator, value] = entries[0];
+  const kind = operators[operator];
+  if (!kind) {
+    errors.push(`"${name}"에는 "${operator}" 연산자를 쓸 수 없습니다. (가능: ${Object.keys(operators).join(', ')})`);
+    return;
+  }
+
+  const valid =
+    kind === 'string' ? typeof value === 'string' :
+    kind === 'number' ? typeof value === 'number' :
+    kind === 'boolean' ? typeof value === 'boolean' :
+    kind === 'date' ? typeof value === 'string' && DATE_VALUE.test(value) :
+    kind === 'empty' ? typeof value === 'object' && value !== null && Object.keys(value).length === 0 :
+    kind === 'id' ? typeof value === 'string' :
+    typeof value === 'string' && (!options || options.includes(value));
+
+  if (!valid) {
+    const expected = kind === 'option' && options ? `선택지 중 하나 (${options.join(', ')})` : kind;
+    errors.push(`"${name}"의 ${operator} 값이 올바르지 않습니다: ${JSON.stringify(value)} (필요: ${expected})`);
+  }
+}
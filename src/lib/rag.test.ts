@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentChunk, extractDateRangesFromChunk } from '@/lib/rag';
+import { formatDate } from '@/lib/date-range';
+
+function chunk(content: string, properties: Record<string, string>, timestampProperties?: string[]): DocumentChunk {
+  return {
+    id: 'page-0',
+    content,
+    metadata: { title: 'ShapeRank', pageId: 'page', lastModified: '2025-06-23T01:55:00.000Z', properties, timestampProperties },
+  };
+}
+
+function ranges(target: DocumentChunk): string[][] {
+  return extractDateRangesFromChunk(target).map(range => [formatDate(range.start), formatDate(range.end)]);
+}
+
+describe('extractDateRangesFromChunk', () => {
+  it('날짜 속성과 `_end` 범위를 일정 기간으로 쓴다', () => {
+    expect(ranges(chunk('', { Date: '2025-06-20', Date_end: '2025-06-22' }))).toEqual([['2025-06-20', '2025-06-22']]);
+  });
+
+  it('생성/수정 일시 속성은 일정 기간으로 쓰지 않는다', () => {
+    const timestamps = { Created: '2025-06-23T01:22:00.000Z', 'Last edited': '2025-06-23T01:55:00.000Z' };
+    const target = chunk('', { ...timestamps, 'Start Date': '2025-06-20' }, ['Created', 'Last edited']);
+
+    expect(ranges(target)).toEqual([['2025-06-20', '2025-06-20']]);
+  });
+
+  it('일정 날짜가 없으면 생성/수정 일시 줄을 뺀 본문의 날짜를 쓴다', () => {
+    const content = [
+      '제목: ShapeRank',
+      '속성:',
+      '- Created: 2025-06-23T01:22:00.000Z',
+      '내용:',
+      '2025년 6월 22일에 배포했습니다.',
+      '생성일(ISO): 2025-06-23T01:22:00.000Z',
+    ].join('\n');
+    const target = chunk(content, { Created: '2025-06-23T01:22:00.000Z' }, ['Created']);
+
+    expect(ranges(target)).toEqual([['2025-06-22', '2025-06-22']]);
+  });
+});
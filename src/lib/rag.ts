@@ -1,4 +1,13 @@
-import OpenAI from 'openai';
+import { NormalizedPage, formatPageFooter, formatPageHeader, formatPageText, getPropertyMetadata, getTimestampPropertyNames } from '@/lib/notion';
+import { DEFAULT_KEYWORD_WEIGHT, KeywordIndex } from '@/lib/keyword-index';
+import { splitContent } from '@/lib/chunking';
+import type { EmbeddingProvider } from '@/lib/embeddings';
+import { EmbeddingInfo, LEGACY_EMBEDDING, formatEmbeddingModel } from '@/lib/embedding-providers';
+import { DateInterval, overlapsInterval, parseDateRange, parseDateValue } from '@/lib/date-range';
+import { VectorRecord, VectorStore, createVectorStore } from '@/lib/vector-store';
+import { VectorStoreId, getVectorStoreInfo } from '@/lib/vector-store-providers';
+import { QueryExpansionOptions, SearchQuery, expandQuery } from '@/lib/query-expansion';
+import type { LLMProvider } from '@/lib/llm';
 
 export interface DocumentChunk {
   id: string;
@@ -8,232 +17,484 @@ export interface DocumentChunk {
     pageId: string;
     lastModified: string;
     url?: string;
+    source?: string; // 데이터 소스 ID
+    sourceName?: string; // 답변과 출처에 표시할 데이터 소스 이름
     properties?: Record<string, any>; // eslint-disable-line @typescript-eslint/no-explicit-any
+    timestampProperties?: string[]; // 생성 일시/최종 편집 일시 속성 이름
     chunkIndex?: number;
     totalChunks?: number;
   };
-  embedding?: number[];
+  embedding?: number[]; // 벡터 저장소에 넣기 전까지만 보관
 }
 
+// 청크 생성 방식이 바뀌면 올려서 다음 동기화 때 모든 페이지를 다시 인덱싱
+const INDEX_FORMAT_VERSION = 8;
+
 export interface SearchResult {
   chunk: DocumentChunk;
+  score: number; // 벡터/키워드 순위를 결합한 점수 (0~1)
+  vectorScore?: number; // 날짜 가중치를 적용한 코사인 유사도
+  keywordScore?: number; // 날짜 가중치를 적용한 BM25 점수
+  rerankScore?: number; // 재정렬기가 매긴 관련도 (0~1)
+}
+
+export interface HybridSearchOptions {
+  keywordWeight?: number; // 0이면 벡터 검색만, 1이면 키워드 검색만 사용
+  rrfK?: number; // Reciprocal Rank Fusion 상수 (클수록 하위 순위의 영향이 커짐)
+  dateRange?: DateInterval | null; // 생략하면 쿼리에서 직접 해석, null이면 날짜 가중치 없음
+  sources?: string[]; // 검색할 데이터 소스 ID (생략하면 전체)
+}
+
+const DEFAULT_RRF_K = 60;
+
+/**
+ * 질의 확장을 포함한 검색 옵션 (llm이 없으면 확장하지 않음)
+ */
+export interface ExpandedSearchOptions extends HybridSearchOptions {
+  llm?: LLMProvider;
+  expansion?: QueryExpansionOptions;
+}
+
+// 청크 최대 길이 (글자 수, 제목/속성/날짜 포함)
+const CHUNK_SIZE = 1000;
+// 본문이 긴 페이지의 청크마다 남길 최소 본문 길이
+const MIN_CONTENT_LENGTH = 400;
+// 두 번째 이후 청크에 반복하는 속성 값의 최대 길이
+const MAX_REPEATED_PROPERTY_LENGTH = 100;
+
+// 벡터 저장소에서 가져올 후보 수 (날짜 가중치와 키워드 순위를 적용하기 전)
+const MIN_VECTOR_CANDIDATES = 100;
+
+/**
+ * 답변의 [n] 인용 표시와 짝을 이루는 출처 정보
+ */
+export interface SearchSource {
+  index: number; // 컨텍스트에 붙인 [n] 번호
+  title: string;
+  url?: string;
+  pageId: string;
+  sourceName?: string;
+  chunkIndex: number;
   score: number;
+  vectorScore?: number;
+  keywordScore?: number;
+  rerankScore?: number;
+}
+
+/**
+ * 증분 동기화 대상 페이지가 최소한으로 가져야 하는 필드
+ */
+export interface SyncablePage {
+  id: string;
+  last_edited_time: string;
+}
+
+export interface SyncResult {
+  added: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  embeddedChunks: number;
+}
+
+/**
+ * 동기화하는 페이지가 속한 데이터 소스
+ */
+export interface IndexSource {
+  id: string;
+  name: string;
+}
+
+export interface SyncOptions {
+  storePages?: boolean; // 정규화된 페이지를 인덱스에 보관 (다시 가져올 수 없는 내보내기 소스용)
 }
 
 export class RAGSystem {
   private chunks: DocumentChunk[] = [];
-  private embeddings: Map<string, number[]> = new Map();
-  private openai: OpenAI | null = null;
+  private vectorStore: VectorStore | null = null; // 현재 인덱스의 벡터가 저장된 곳
+  private pendingVectorStore: VectorStore | null = null; // 다음 동기화 때 옮겨갈 저장소
+  private vectorCount = 0;
+  private pageVersions: Map<string, string> = new Map(); // pageId -> last_edited_time
+  private lastUpdated: string | null = null;
+  private syncInProgress = false;
+  private keywordIndex: KeywordIndex | null = null;
+  private chunkById: Map<string, DocumentChunk> = new Map(); // 키워드 인덱스와 함께 구성
+  private embeddingInfo: EmbeddingInfo | null = null; // 인덱스를 만든 임베딩 모델
+  private embeddingProvider: EmbeddingProvider | null = null;
+  private storedPages: Map<string, Map<string, NormalizedPage>> = new Map(); // 소스 ID -> 페이지 ID -> 정규화된 페이지
 
   /**
-   * OpenAI 클라이언트 초기화
+   * 문서와 쿼리 임베딩에 사용할 제공자 설정
    */
-  initializeOpenAI(apiKey: string) {
-    this.openai = new OpenAI({
-      apiKey: apiKey,
-    });
+  setEmbeddingProvider(provider: EmbeddingProvider) {
+    this.embeddingProvider = provider;
   }
 
   /**
-   * Notion 데이터를 처리하여 청크로 분할
+   * 벡터 저장소 설정 (인덱스가 다른 저장소에 있으면 다음 동기화 때 새 저장소에 다시 만듦)
    */
-  async processNotionData(notionData: any[]): Promise<DocumentChunk[]> { // eslint-disable-line @typescript-eslint/no-explicit-any
-    this.chunks = [];
-    
-    for (const page of notionData) {
-      const content = this.extractTextContent(page);
-      const title = page.properties?.title?.title?.[0]?.plain_text || 'Untitled';
-      
-      // 페이지를 청크로 분할
-      const pageChunks = this.splitIntoChunks(content, title, page);
-      this.chunks.push(...pageChunks);
+  setVectorStore(store: VectorStore) {
+    if (!this.vectorStore || this.chunks.length === 0) {
+      this.vectorStore = store;
+      this.pendingVectorStore = null;
+    } else if (this.vectorStore.id !== store.id) {
+      this.pendingVectorStore = store;
+    } else {
+      this.pendingVectorStore = null;
     }
+  }
+
+  /**
+   * 설정한 임베딩 모델이나 벡터 저장소가 인덱스와 달라 다음 동기화 때 인덱스 전체를 다시 만드는지
+   */
+  needsRebuild(): boolean {
+    if (this.chunks.length === 0) return false;
+    return Boolean(this.pendingVectorStore) || !this.matchesEmbedding(this.requireEmbeddingProvider());
+  }
+
+  /**
+   * 현재 인덱스를 만든 임베딩 모델 (비어 있는 인덱스는 null)
+   */
+  getEmbeddingInfo(): EmbeddingInfo | null {
+    return this.embeddingInfo;
+  }
+
+  /**
+   * Notion 데이터를 처리하여 청크로 분할
+   */
+  async processNotionData(notionData: NormalizedPage[]): Promise<DocumentChunk[]> {
+    this.chunks = this.buildChunks(notionData);
+    this.keywordIndex = null;
+    this.vectorCount = 0;
+    this.embeddingInfo = null;
+    this.pageVersions = new Map(notionData.map(page => [page.id, page.lastEditedTime]));
     
     return this.chunks;
   }
 
   /**
-   * 페이지에서 텍스트 콘텐츠 추출
+   * 변경된 페이지만 다시 청크로 분할하고 임베딩하는 증분 동기화
+   *
+   * `pages`는 데이터베이스의 전체 페이지 목록이며, last_edited_time이 바뀌었거나
+   * 새로 생긴 페이지만 `prepare`로 정규화해 재처리됩니다. 목록에 없는 페이지는 삭제됩니다.
+   * `source`를 지정하면 같은 소스의 페이지만 삭제 대상으로 보므로 소스별로 나눠 동기화할 수 있습니다.
+   * `storePages`를 주면 정규화된 페이지를 보관해 두었다가 `syncStoredSource`로 다시 인덱싱합니다.
    */
-  private extractTextContent(page: any): string { // eslint-disable-line @typescript-eslint/no-explicit-any
-    let content = '';
-    
-    // 직접 content 속성이 있는 경우 (chat API에서 전처리된 데이터)
-    if (page.content) {
-      return page.content;
-    }
-    
-    // 제목 추출
-    if (page.properties?.title?.title) {
-      const title = page.properties.title.title
-        .map((t: any) => t.plain_text) // eslint-disable-line @typescript-eslint/no-explicit-any
-        .join('');
-      content += `제목: ${title}\n`;
+  async syncPages<T extends SyncablePage>(
+    pages: T[],
+    prepare: (changedPages: T[]) => Promise<NormalizedPage[]>,
+    source?: IndexSource,
+    options: SyncOptions = {}
+  ): Promise<SyncResult> {
+    if (this.syncInProgress) {
+      throw new Error('이미 동기화가 진행 중입니다.');
     }
-    
-    // 다른 속성들 추출
-    if (page.properties) {
-      for (const [key, property] of Object.entries(page.properties)) {
-        if (key === 'title') continue; // 이미 처리됨
-        
-        const propertyText = this.extractPropertyText(property);
-        if (propertyText) {
-          content += `${key}: ${propertyText}\n`;
+    this.syncInProgress = true;
+
+    try {
+      // 인덱스와 다른 임베딩 모델로는 벡터를 비교할 수 없으므로 모든 페이지를 다시 임베딩
+      const provider = this.requireEmbeddingProvider();
+      const reembed = !this.matchesEmbedding(provider);
+      if (reembed) {
+        console.log(`임베딩 모델이 바뀌어 인덱스를 다시 만듭니다: ${formatEmbeddingModel(this.embeddingInfo!.provider, this.embeddingInfo!.model)} → ${formatEmbeddingModel(provider.id, provider.model)}`);
+      }
+
+      // 저장소를 바꾸는 경우에도 새 저장소에 모든 페이지를 다시 넣음
+      const previousStore = this.vectorStore;
+      const store = this.pendingVectorStore || this.requireVectorStore();
+      const moveStore = store !== previousStore;
+      if (moveStore && previousStore) {
+        console.log(`벡터 저장소가 바뀌어 인덱스를 다시 만듭니다: ${getVectorStoreInfo(previousStore.id).name} → ${getVectorStoreInfo(store.id).name}`);
+      }
+      const rebuild = reembed || moveStore;
+
+      const incomingIds = new Set(pages.map(page => page.id));
+      const changedPages = pages.filter(page => rebuild || this.pageVersions.get(page.id) !== page.last_edited_time);
+      const sourcePageIds = source ? this.getSourcePageIds(source.id) : new Set(this.pageVersions.keys());
+      const deletedIds = Array.from(sourcePageIds).filter(id => !incomingIds.has(id));
+      const added = changedPages.filter(page => !this.pageVersions.has(page.id)).length;
+
+      console.log(`동기화 대상: 변경 ${changedPages.length}개, 삭제 ${deletedIds.length}개, 유지 ${pages.length - changedPages.length}개`);
+
+      // 새 청크의 준비와 임베딩이 모두 끝난 뒤에 인덱스를 교체 (실패 시 기존 인덱스 유지)
+      const preparedPages = changedPages.length > 0 ? await prepare(changedPages) : [];
+      const newChunks = this.buildChunks(preparedPages, source);
+      await this.embedChunks(newChunks, provider);
+      const embeddingInfo = this.checkEmbeddings(provider, newChunks, reembed ? null : this.embeddingInfo);
+
+      // 옮겨갈 저장소에 남아 있던 벡터는 현재 인덱스와 무관하므로 비우고 시작
+      if (moveStore) {
+        await store.clear();
+      } else if (changedPages.length > 0) {
+        // 청크 수가 줄어 남는 벡터가 없도록 바뀐 페이지의 벡터를 페이지 단위로 지운 뒤 다시 넣음
+        await store.deleteByPageIds(changedPages.map(page => page.id));
+      }
+      await store.upsert(newChunks.map(toVectorRecord));
+
+      // 다시 만들 때는 다른 소스의 페이지도 인덱스에서 빠짐
+      const changedIds = new Set(changedPages.map(page => page.id));
+      const removedPageIds = rebuild
+        ? Array.from(this.pageVersions.keys()).filter(id => !changedIds.has(id))
+        : deletedIds;
+
+      // 다른 소스의 페이지도 이전 모델의 임베딩이므로 모두 버림
+      // (Notion 소스는 해당 소스를 동기화할 때, 내보내기 소스는 보관한 페이지로 syncStoredSource를 호출할 때 다시 추가됨)
+      if (rebuild) {
+        this.clearIndex();
+      }
+
+      const staleIds = new Set([...deletedIds, ...changedIds]);
+      const isCurrent = (chunk: DocumentChunk) =>
+        this.pageVersions.has(chunk.metadata.pageId) && !staleIds.has(chunk.metadata.pageId);
+
+      if (moveStore) {
+        this.vectorStore = store;
+        this.pendingVectorStore = null;
+        // 이전 저장소를 비우지 못해도 새 인덱스는 이미 완성되었으므로 계속 진행
+        await previousStore?.clear().catch(error => console.warn('이전 벡터 저장소 정리 실패:', error));
+      } else if (removedPageIds.length > 0) {
+        await store.deleteByPageIds(removedPageIds);
+      }
+
+      for (const chunk of newChunks) {
+        delete chunk.embedding;
+      }
+      this.chunks = this.chunks.filter(isCurrent).concat(newChunks);
+      this.vectorCount = this.chunks.length;
+      this.keywordIndex = null;
+      if (source) {
+        // 소스 이름을 바꾼 경우 다시 임베딩하지 않고 표시 이름만 갱신
+        for (const chunk of this.chunks) {
+          if (chunk.metadata.source === source.id) chunk.metadata.sourceName = source.name;
         }
       }
+      this.embeddingInfo = embeddingInfo;
+
+      for (const id of deletedIds) {
+        this.pageVersions.delete(id);
+      }
+      for (const page of changedPages) {
+        this.pageVersions.set(page.id, page.last_edited_time);
+      }
+      if (source && options.storePages) {
+        const stored = this.storedPages.get(source.id) || new Map<string, NormalizedPage>();
+        deletedIds.forEach(id => stored.delete(id));
+        preparedPages.forEach(page => stored.set(page.id, page));
+        this.storedPages.set(source.id, stored);
+      }
+      this.lastUpdated = new Date().toISOString();
+
+      return {
+        added,
+        updated: changedPages.length - added,
+        deleted: deletedIds.length,
+        unchanged: pages.length - changedPages.length,
+        embeddedChunks: newChunks.length,
+      };
+    } finally {
+      this.syncInProgress = false;
     }
-    
-    // 페이지 메타데이터
-    if (page.created_time) {
-      content += `생성일: ${new Date(page.created_time).toLocaleString('ko-KR')}\n`;
+  }
+
+  /**
+   * 보관해 둔 페이지로 소스를 다시 동기화 (인덱스를 다시 만든 뒤 내보내기 소스를 복원)
+   *
+   * 보관한 페이지가 없으면 null을 반환하며, 이 경우 내보내기를 다시 가져와야 합니다.
+   */
+  async syncStoredSource(source: IndexSource): Promise<SyncResult | null> {
+    const stored = this.storedPages.get(source.id);
+    if (!stored) return null;
+
+    const pages = Array.from(stored.values());
+    return this.syncPages(
+      pages.map(page => ({ id: page.id, last_edited_time: page.lastEditedTime })),
+      async (changedPages) => changedPages.map(page => stored.get(page.id)!),
+      source,
+      { storePages: true }
+    );
+  }
+
+  /**
+   * 남길 소스에 속하지 않는 페이지를 인덱스에서 제거 (꺼지거나 삭제된 데이터 소스 정리)
+   */
+  async pruneSources(activeSourceIds: string[]): Promise<number> {
+    if (this.syncInProgress) {
+      throw new Error('이미 동기화가 진행 중입니다.');
     }
-    if (page.last_edited_time) {
-      content += `마지막 수정: ${new Date(page.last_edited_time).toLocaleString('ko-KR')}\n`;
+
+    const active = new Set(activeSourceIds);
+    for (const sourceId of Array.from(this.storedPages.keys())) {
+      if (!active.has(sourceId)) this.storedPages.delete(sourceId);
     }
-    
-    return content;
+
+    const removedIds = new Set(
+      this.chunks
+        .filter(chunk => !chunk.metadata.source || !active.has(chunk.metadata.source))
+        .map(chunk => chunk.metadata.pageId)
+    );
+    if (removedIds.size === 0) return 0;
+
+    await this.vectorStore?.deleteByPageIds(Array.from(removedIds));
+    this.chunks = this.chunks.filter(chunk => !removedIds.has(chunk.metadata.pageId));
+    this.vectorCount = Math.min(this.vectorCount, this.chunks.length);
+    this.keywordIndex = null;
+    removedIds.forEach(id => this.pageVersions.delete(id));
+    this.lastUpdated = new Date().toISOString();
+
+    return removedIds.size;
   }
 
   /**
-   * 프로퍼티에서 텍스트 추출
+   * 인덱스 전체 비우기 (임베딩 모델이나 벡터 저장소가 바뀐 경우, 보관한 페이지는 다시 인덱싱할 수 있도록 유지)
    */
-  private extractPropertyText(property: any): string { // eslint-disable-line @typescript-eslint/no-explicit-any
-    if (!property) return '';
-    
-    switch (property.type) {
-      case 'title':
-        return property.title?.[0]?.plain_text || '';
-      case 'rich_text':
-        return property.rich_text?.map((t: any) => t.plain_text).join('') || ''; // eslint-disable-line @typescript-eslint/no-explicit-any
-      case 'select':
-        return property.select?.name || '';
-      case 'multi_select':
-        return property.multi_select?.map((s: any) => s.name).join(', ') || ''; // eslint-disable-line @typescript-eslint/no-explicit-any
-      case 'date':
-        return property.date?.start || '';
-      case 'number':
-        return property.number?.toString() || '';
-      case 'checkbox':
-        return property.checkbox ? '예' : '아니오';
-      case 'url':
-        return property.url || '';
-      case 'email':
-        return property.email || '';
-      case 'phone_number':
-        return property.phone_number || '';
-      default:
-        return '';
+  private clearIndex() {
+    this.chunks = [];
+    this.vectorCount = 0;
+    this.pageVersions = new Map();
+    this.keywordIndex = null;
+    this.embeddingInfo = null;
+  }
+
+  private requireEmbeddingProvider(): EmbeddingProvider {
+    if (!this.embeddingProvider) {
+      throw new Error('임베딩 제공자가 설정되지 않았습니다.');
+    }
+    return this.embeddingProvider;
+  }
+
+  private requireVectorStore(): VectorStore {
+    if (!this.vectorStore) {
+      throw new Error('벡터 저장소가 설정되지 않았습니다.');
     }
+    return this.vectorStore;
+  }
+
+  private matchesEmbedding(provider: EmbeddingProvider): boolean {
+    return !this.embeddingInfo ||
+      (this.embeddingInfo.provider === provider.id && this.embeddingInfo.model === provider.model);
   }
 
   /**
-   * 콘텐츠를 청크로 분할
+   * 새로 만든 임베딩이 기존 인덱스와 같은 차원인지 확인하고, 반영 후의 임베딩 정보 반환
    */
-  private splitIntoChunks(content: string, title: string, page: any): DocumentChunk[] { // eslint-disable-line @typescript-eslint/no-explicit-any
-    const chunks: DocumentChunk[] = [];
-    const chunkSize = 1000;
-    const overlap = 200;
-    
-    // 페이지 메타데이터 추출 (날짜 정보 포함)
-    const metadata: Record<string, any> = { // eslint-disable-line @typescript-eslint/no-explicit-any
-      title,
-      pageId: page.id || 'unknown',
-      lastModified: page.last_edited_time || new Date().toISOString(),
+  private checkEmbeddings(
+    provider: EmbeddingProvider,
+    chunks: DocumentChunk[],
+    current: EmbeddingInfo | null
+  ): EmbeddingInfo | null {
+    const dimension = current?.dimension ?? chunks[0]?.embedding?.length;
+    if (!dimension) return current;
+
+    const mismatched = chunks.find(chunk => chunk.embedding!.length !== dimension);
+    if (mismatched) {
+      throw new Error(`임베딩 차원이 일치하지 않습니다: ${mismatched.embedding!.length} (기대값 ${dimension})`);
+    }
+    return { provider: provider.id, model: provider.model, dimension };
+  }
+
+  /**
+   * 주어진 소스에 속한 인덱스의 페이지 ID
+   */
+  private getSourcePageIds(sourceId: string): Set<string> {
+    return new Set(
+      this.chunks
+        .filter(chunk => chunk.metadata.source === sourceId)
+        .map(chunk => chunk.metadata.pageId)
+    );
+  }
+
+  /**
+   * 페이지 목록을 청크로 변환
+   */
+  private buildChunks(pages: NormalizedPage[], source?: IndexSource): DocumentChunk[] {
+    return pages.flatMap(page => this.splitIntoChunks(page, source));
+  }
+
+  /**
+   * 페이지를 청크로 분할 (한 페이지는 가능하면 한 청크, 긴 본문은 제목과 문단 경계에서 나눔)
+   *
+   * 나뉜 청크에도 제목, 속성, 날짜를 반복해 청크 하나만으로 어떤 페이지인지 알 수 있게 합니다.
+   */
+  private splitIntoChunks(page: NormalizedPage, source?: IndexSource): DocumentChunk[] {
+    // 페이지 메타데이터 (날짜 범위는 `키`, `키_end`로 펼쳐 저장)
+    const metadata = {
+      title: page.title,
+      pageId: page.id,
+      lastModified: page.lastEditedTime,
       url: page.url,
-      properties: {}
+      source: source?.id,
+      sourceName: source?.name,
+      properties: getPropertyMetadata(page),
+      timestampProperties: getTimestampPropertyNames(page),
     };
-    
-    // 날짜 속성 추출하여 메타데이터에 저장
-    if (page.metadata?.properties) {
-      metadata.properties = { ...page.metadata.properties };
-    } else if (page.properties) {
-      // 직접 properties에서 날짜 정보 추출
-      for (const [key, property] of Object.entries(page.properties)) {
-        const prop = property as any; // eslint-disable-line @typescript-eslint/no-explicit-any
-        if (prop.type === 'date' && prop.date?.start) {
-          metadata.properties[key] = prop.date.start;
-          if (prop.date.end) {
-            metadata.properties[`${key}_end`] = prop.date.end;
-          }
-        }
-      }
-    }
-    
-    if (content.length <= chunkSize) {
-      // 내용이 청크 크기보다 작으면 그대로 사용
-      chunks.push({
-        id: `${page.id || 'chunk'}-0`,
-        content,
-        metadata: {
-          title: metadata.title,
-          pageId: metadata.pageId,
-          lastModified: metadata.lastModified,
-          url: metadata.url,
-          properties: metadata.properties,
-          chunkIndex: 0,
-          totalChunks: 1
-        }
-      });
-    } else {
-      // 내용을 여러 청크로 분할
-      let startIndex = 0;
-      let chunkIndex = 0;
-      
-      while (startIndex < content.length) {
-        const endIndex = Math.min(startIndex + chunkSize, content.length);
-        const chunkContent = content.substring(startIndex, endIndex);
-        
-        chunks.push({
-          id: `${page.id || 'chunk'}-${chunkIndex}`,
-          content: chunkContent,
-          metadata: {
-            title: metadata.title,
-            pageId: metadata.pageId,
-            lastModified: metadata.lastModified,
-            url: metadata.url,
-            properties: metadata.properties,
-            chunkIndex,
-            totalChunks: Math.ceil(content.length / (chunkSize - overlap))
-          }
-        });
-        
-        startIndex += chunkSize - overlap;
-        chunkIndex++;
+
+    const fullText = formatPageText(page);
+    let contents = [fullText];
+
+    if (fullText.length > CHUNK_SIZE) {
+      // 나뉜 청크에서는 긴 속성 값(설명 등)을 줄여 본문 자리를 확보
+      const header = formatPageHeader(page, MAX_REPEATED_PROPERTY_LENGTH);
+      const footer = formatPageFooter(page);
+      const budget = Math.max(CHUNK_SIZE - header.length - footer.length - '내용:\n\n'.length, MIN_CONTENT_LENGTH);
+      const pieces = splitContent(page.content || '', budget);
+
+      if (pieces.length > 1) {
+        // 첫 청크에는 속성 값을 모두 남김
+        contents = pieces.map((piece, index) =>
+          `${index === 0 ? formatPageHeader(page) : header}내용:\n${piece}\n${footer}`
+        );
       }
     }
-    
-    return chunks;
+
+    return contents.map((content, chunkIndex) => ({
+      id: `${page.id}-${chunkIndex}`,
+      content,
+      metadata: { ...metadata, chunkIndex, totalChunks: contents.length },
+    }));
   }
 
   /**
    * 청크들의 임베딩 생성
    */
   async generateEmbeddings(): Promise<void> {
-    console.log(`${this.chunks.length}개 청크의 임베딩을 생성 중...`);
+    const provider = this.requireEmbeddingProvider();
+    const store = this.pendingVectorStore || this.requireVectorStore();
+    await this.embedChunks(this.chunks, provider);
+    this.embeddingInfo = this.checkEmbeddings(provider, this.chunks, null);
+
+    await store.clear();
+    await store.upsert(this.chunks.map(toVectorRecord));
+    for (const chunk of this.chunks) {
+      delete chunk.embedding;
+    }
+    this.vectorStore = store;
+    this.pendingVectorStore = null;
+    this.vectorCount = this.chunks.length;
+    this.lastUpdated = new Date().toISOString();
+  }
+
+  /**
+   * 주어진 청크들만 임베딩 생성
+   */
+  private async embedChunks(chunks: DocumentChunk[], provider: EmbeddingProvider): Promise<void> {
+    if (chunks.length === 0) return;
+
+    console.log(`${chunks.length}개 청크의 임베딩을 생성 중... (${formatEmbeddingModel(provider.id, provider.model)})`);
     
     const batchSize = 100; // OpenAI API 제한 고려
     
-    for (let i = 0; i < this.chunks.length; i += batchSize) {
-      const batch = this.chunks.slice(i, i + batchSize);
+    for (let i = 0; i < chunks.length; i += batchSize) {
+      const batch = chunks.slice(i, i + batchSize);
       const texts = batch.map(chunk => chunk.content);
       
       try {
-        if (!this.openai) {
-          throw new Error('OpenAI 클라이언트가 초기화되지 않았습니다.');
-        }
-
-        const response = await this.openai.embeddings.create({
-          model: 'text-embedding-3-small',
-          input: texts,
-        });
+        const embeddings = await provider.embedDocuments(texts);
         
-        response.data.forEach((embedding: any, index: number) => { // eslint-disable-line @typescript-eslint/no-explicit-any
-          const chunkId = batch[index].id;
-          this.embeddings.set(chunkId, embedding.embedding);
-          this.chunks[i + index].embedding = embedding.embedding;
+        embeddings.forEach((embedding, index) => {
+          batch[index].embedding = embedding;
         });
         
-        console.log(`${Math.min(i + batchSize, this.chunks.length)}/${this.chunks.length} 임베딩 완료`);
+        console.log(`${Math.min(i + batchSize, chunks.length)}/${chunks.length} 임베딩 완료`);
       } catch (error) {
         console.error('임베딩 생성 오류:', error);
         throw error;
@@ -242,133 +503,185 @@ export class RAGSystem {
   }
 
   /**
-   * 쿼리에 대한 유사한 청크 검색 (날짜 필터링 개선)
+   * 쿼리에 대한 유사한 청크 검색 (벡터 + 키워드 하이브리드, 날짜 필터링 포함)
    */
-  async searchSimilarChunks(query: string, topK: number = 5): Promise<SearchResult[]> {
-    // 쿼리 임베딩 생성
+  async searchSimilarChunks(query: string, topK: number = 5, options: HybridSearchOptions = {}): Promise<SearchResult[]> {
+    const keywordWeight = Math.min(Math.max(options.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT, 0), 1);
+    const vectorWeight = 1 - keywordWeight;
+    const rrfK = options.rrfK ?? DEFAULT_RRF_K;
+
+    // 인덱스와 같은 모델로 쿼리 임베딩 생성
     const queryEmbedding = await this.getQueryEmbedding(query);
     
-    // 현재 날짜 기준 설정
-    const now = new Date();
-    const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-    const sevenDaysLater = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-    
-    // 날짜 관련 키워드 감지
-    const isRecentQuery = /최근|요즘|지금|오늘|이번|근래/i.test(query);
-    const isUpcomingQuery = /다가오는|앞으로|미래|예정|곧/i.test(query);
-    const isPastQuery = /지난|과거|전에|이전/i.test(query);
-    
-    // 모든 청크와 유사도 계산
-    const similarities: SearchResult[] = [];
-    
-    for (const chunk of this.chunks) {
-      if (!chunk.embedding) continue;
+    // 질문의 날짜 표현을 기간으로 변환 (호출한 쪽에서 이미 계산했으면 그대로 사용)
+    const dateRange = options.dateRange !== undefined ? options.dateRange : parseDateRange(query);
+    const sourceScope = options.sources?.length ? new Set(options.sources) : null;
+    const inScope = (chunk: DocumentChunk) => !sourceScope || sourceScope.has(chunk.metadata.source || '');
+    
+    // 벡터 저장소의 유사도 상위 후보와 키워드가 일치하는 청크를 함께 후보로 사용
+    const chunkById = this.getChunkMap();
+    const matches = await this.requireVectorStore().query(
+      queryEmbedding,
+      Math.max(topK * 20, MIN_VECTOR_CANDIDATES),
+      sourceScope ? { source: Array.from(sourceScope) } : undefined
+    );
+    const similarities = new Map(matches.map(match => [match.id, match.score]));
+    const keywordScores = this.getKeywordIndex().search(query);
+    const candidateIds = new Set([...similarities.keys(), ...keywordScores.keys()]);
+    
+    // 후보 청크의 날짜 가중치 계산
+    const candidates: Array<{ chunk: DocumentChunk; similarity?: number; dateFactor: number }> = [];
+    
+    for (const id of candidateIds) {
+      const chunk = chunkById.get(id);
+      if (!chunk || !inScope(chunk)) continue;
       
-      const similarity = this.cosineSimilarity(queryEmbedding, chunk.embedding);
+      const similarity = similarities.get(id);
       
-      // 날짜 필터링 적용
-      if (isRecentQuery || isUpcomingQuery || isPastQuery) {
-        const chunkDates = this.extractDatesFromChunk(chunk);
-        
-        if (chunkDates.length > 0) {
-          let dateMatches = false;
-          
-          for (const chunkDate of chunkDates) {
-            if (isRecentQuery) {
-              // 최근: 현재 날짜 기준 ±7일
-              if (chunkDate >= sevenDaysAgo && chunkDate <= sevenDaysLater) {
-                dateMatches = true;
-                break;
-              }
-            } else if (isUpcomingQuery) {
-              // 다가오는: 현재 날짜 이후
-              if (chunkDate > now) {
-                dateMatches = true;
-                break;
-              }
-            } else if (isPastQuery) {
-              // 지난: 현재 날짜 이전
-              if (chunkDate < now) {
-                dateMatches = true;
-                break;
-              }
-            }
-          }
-          
-          // 날짜 조건에 맞지 않으면 제외 (단, 너무 오래된 데이터는 더 강하게 필터링)
-          if (!dateMatches) {
-            // 2024년 이전 데이터는 "최근"에서 완전 제외
-            if (isRecentQuery && chunkDates.some(d => d.getFullYear() < 2024)) {
-              continue;
-            }
-            // 다른 경우는 유사도를 낮춤
-            similarities.push({
-              chunk,
-              score: similarity * 0.3 // 날짜 조건에 맞지 않으면 점수를 크게 낮춤
-            });
-            continue;
-          }
-          
-          // 날짜 조건에 맞으면 보너스 점수
-          similarities.push({
-            chunk,
-            score: similarity * 1.2 // 날짜 조건에 맞으면 점수 향상
-          });
-        } else {
-          // 날짜 정보가 없는 청크는 점수를 낮춤
-          similarities.push({
-            chunk,
-            score: similarity * 0.5
-          });
-        }
-      } else {
+      if (!dateRange) {
         // 날짜 관련 쿼리가 아닌 경우 기본 점수
-        similarities.push({
-          chunk,
-          score: similarity
-        });
+        candidates.push({ chunk, similarity, dateFactor: 1 });
+        continue;
+      }
+      
+      const chunkRanges = extractDateRangesFromChunk(chunk);
+      if (chunkRanges.length === 0) {
+        // 날짜 정보가 없는 청크는 점수를 낮춤
+        candidates.push({ chunk, similarity, dateFactor: 0.5 });
+      } else if (chunkRanges.some(range => overlapsInterval(dateRange, range.start, range.end))) {
+        // 기간과 겹치는 일정은 점수 향상
+        candidates.push({ chunk, similarity, dateFactor: 1.2 });
+      } else {
+        // 기간을 벗어난 일정은 점수를 크게 낮춤
+        candidates.push({ chunk, similarity, dateFactor: 0.3 });
       }
     }
     
-    // 유사도 순으로 정렬하여 상위 K개 반환
-    return similarities
+    // 벡터/키워드 순위를 각각 매긴 뒤 Reciprocal Rank Fusion으로 결합
+    const scored = candidates.map(({ chunk, similarity, dateFactor }) => ({
+      chunk,
+      vectorScore: similarity !== undefined ? similarity * dateFactor : undefined,
+      keywordScore: (keywordScores.get(chunk.id) || 0) * dateFactor,
+    }));
+    
+    const vectorRanks = rankBy(scored.filter(item => item.vectorScore !== undefined), item => item.vectorScore!);
+    const keywordRanks = rankBy(scored.filter(item => item.keywordScore > 0), item => item.keywordScore);
+    
+    // 두 목록 모두 1위일 때 1이 되도록 정규화
+    const maxFused = (vectorWeight + keywordWeight) / (rrfK + 1);
+    
+    const results: SearchResult[] = scored.map(item => {
+      const vectorRank = vectorRanks.get(item.chunk.id);
+      const keywordRank = keywordRanks.get(item.chunk.id);
+      const fused =
+        (vectorRank ? vectorWeight / (rrfK + vectorRank) : 0) +
+        (keywordRank ? keywordWeight / (rrfK + keywordRank) : 0);
+      
+      return {
+        chunk: item.chunk,
+        score: maxFused > 0 ? fused / maxFused : 0,
+        vectorScore: item.vectorScore,
+        keywordScore: item.keywordScore,
+      };
+    });
+    
+    // 결합 점수 순으로 정렬하여 상위 K개 반환
+    return results
       .sort((a, b) => b.score - a.score)
       .slice(0, topK);
   }
 
   /**
-   * 쿼리 임베딩 생성
+   * 청크 ID -> 청크
    */
-  private async getQueryEmbedding(query: string): Promise<number[]> {
-    if (!this.openai) {
-      throw new Error('OpenAI 클라이언트가 초기화되지 않았습니다.');
+  private getChunkMap(): Map<string, DocumentChunk> {
+    this.getKeywordIndex();
+    return this.chunkById;
+  }
+
+  /**
+   * 질문을 여러 질의로 확장해 각각 검색한 뒤 결과를 합침
+   *
+   * 다른 표현의 질의는 하이브리드 검색을, 가상 답변 문서(HyDE)는 벡터 검색만 사용하며
+   * 결과 목록들은 Reciprocal Rank Fusion으로 결합합니다. 검색에 쓴 질의도 함께 반환합니다.
+   */
+  async searchWithExpansion(
+    query: string,
+    topK: number = 5,
+    options: ExpandedSearchOptions = {}
+  ): Promise<{ results: SearchResult[]; queries: SearchQuery[] }> {
+    const { llm, expansion, ...searchOptions } = options;
+    const queries = llm && (expansion?.multiQuery || expansion?.hyde)
+      ? await expandQuery(llm, query, expansion)
+      : [{ type: 'original' as const, text: query }];
+
+    // 날짜 범위는 원래 질문에서 한 번만 해석 (가상 답변의 날짜는 실제 일정이 아님)
+    const dateRange = searchOptions.dateRange !== undefined ? searchOptions.dateRange : parseDateRange(query);
+    const resultLists = await Promise.all(queries.map(searchQuery =>
+      this.searchSimilarChunks(searchQuery.text, topK, {
+        ...searchOptions,
+        dateRange,
+        keywordWeight: searchQuery.type === 'hyde' ? 0 : searchOptions.keywordWeight,
+      })
+    ));
+
+    if (resultLists.length === 1) {
+      return { results: resultLists[0], queries };
     }
 
-    const response = await this.openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: query,
-    });
-    
-    return response.data[0].embedding;
+    // 여러 목록에서 높은 순위에 오른 청크일수록 높은 점수 (모든 목록에서 1위면 1)
+    const rrfK = searchOptions.rrfK ?? DEFAULT_RRF_K;
+    const merged = new Map<string, { result: SearchResult; fused: number }>();
+    for (const results of resultLists) {
+      results.forEach((result, index) => {
+        const entry = merged.get(result.chunk.id);
+        const fused = 1 / (rrfK + index + 1);
+        if (!entry) {
+          merged.set(result.chunk.id, { result, fused });
+        } else {
+          entry.fused += fused;
+          if (result.score > entry.result.score) entry.result = result;
+        }
+      });
+    }
+
+    const maxFused = resultLists.length / (rrfK + 1);
+    const results = Array.from(merged.values())
+      .map(({ result, fused }) => ({ ...result, score: fused / maxFused }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+
+    return { results, queries };
   }
 
   /**
-   * 코사인 유사도 계산
+   * 키워드 인덱스 (청크가 바뀐 뒤 처음 검색할 때 다시 구성)
    */
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-    
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-    
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
+  private getKeywordIndex(): KeywordIndex {
+    if (!this.keywordIndex) {
+      this.keywordIndex = new KeywordIndex();
+      this.chunkById = new Map(this.chunks.map(chunk => [chunk.id, chunk]));
+      for (const chunk of this.chunks) {
+        this.keywordIndex.add(chunk.id, chunk.content);
+      }
     }
-    
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+    return this.keywordIndex;
+  }
+
+  /**
+   * 쿼리 임베딩 생성
+   */
+  private async getQueryEmbedding(query: string): Promise<number[]> {
+    const provider = this.requireEmbeddingProvider();
+    if (!this.matchesEmbedding(provider)) {
+      throw new Error(`인덱스는 ${formatEmbeddingModel(this.embeddingInfo!.provider, this.embeddingInfo!.model)} 임베딩으로 만들어졌습니다. 같은 모델로 검색하거나 인덱스를 다시 동기화해주세요.`);
+    }
+
+    const embedding = await provider.embedQuery(query);
+    if (this.embeddingInfo && embedding.length !== this.embeddingInfo.dimension) {
+      throw new Error(`임베딩 차원이 일치하지 않습니다: 쿼리 ${embedding.length}, 인덱스 ${this.embeddingInfo.dimension}`);
+    }
+    return embedding;
   }
 
   /**
@@ -382,38 +695,60 @@ export class RAGSystem {
     let context = '다음은 관련된 정보들입니다:\n\n';
     
     results.forEach((result, index) => {
-      const { chunk, score } = result;
-      context += `[${index + 1}] ${chunk.metadata.title}\n`;
+      const { chunk } = result;
+      const score = result.rerankScore ?? result.score;
+      const source = chunk.metadata.sourceName ? ` (출처: ${chunk.metadata.sourceName})` : '';
+      context += `[${index + 1}] ${chunk.metadata.title}${source}\n`;
       context += `${chunk.content}\n`;
-      context += `(유사도: ${(score * 100).toFixed(1)}%)\n\n`;
+      context += `(관련도: ${(score * 100).toFixed(1)}%)\n\n`;
     });
     
     return context;
   }
 
   /**
-   * 데이터 저장 (임시 디렉토리 또는 메모리)
+   * 검색 결과를 formatSearchResults와 같은 번호의 출처 목록으로 변환
+   */
+  getSearchSources(results: SearchResult[]): SearchSource[] {
+    return results.map((result, index) => ({
+      index: index + 1,
+      title: result.chunk.metadata.title,
+      url: result.chunk.metadata.url,
+      pageId: result.chunk.metadata.pageId,
+      sourceName: result.chunk.metadata.sourceName,
+      chunkIndex: result.chunk.metadata.chunkIndex ?? 0,
+      score: result.score,
+      vectorScore: result.vectorScore,
+      keywordScore: result.keywordScore,
+      rerankScore: result.rerankScore,
+    }));
+  }
+
+  /**
+   * 데이터 저장 (인덱스 파일 또는 메모리)
    */
   async saveToLocalStorage(): Promise<void> {
     const data = {
-      chunks: this.chunks,
-      embeddings: Array.from(this.embeddings.entries()),
-      lastUpdated: new Date().toISOString(),
+      version: INDEX_FORMAT_VERSION,
+      // 임베딩은 벡터 저장소에만 저장
+      chunks: this.chunks.map(chunk => ({ ...chunk, embedding: undefined })),
+      embedding: this.embeddingInfo,
+      vectorStore: this.vectorStore?.id ?? null,
+      pages: Array.from(this.pageVersions.entries()),
+      storedPages: Array.from(this.storedPages, ([sourceId, pages]) => [sourceId, Array.from(pages.values())]),
+      lastUpdated: this.lastUpdated || new Date().toISOString(),
     };
     
     // Node.js 환경에서는 임시 디렉토리 사용 (Vercel 호환)
     if (typeof window === 'undefined') {
       try {
         const fs = await import('fs');
-        const path = await import('path');
-        const os = await import('os');
+        const dataPath = await getDataPath();
         
-        // Vercel에서는 /tmp 디렉토리만 쓰기 가능
-        const tmpDir = os.tmpdir();
-        const dataPath = path.join(tmpDir, 'rag-data.json');
-        
-        fs.writeFileSync(dataPath, JSON.stringify(data, null, 2));
-        console.log(`RAG 데이터를 임시 디렉토리에 저장했습니다: ${dataPath}`);
+        // 쓰는 도중 다른 요청이 읽지 않도록 임시 파일에 쓴 뒤 교체
+        fs.writeFileSync(`${dataPath}.tmp`, JSON.stringify(data));
+        fs.renameSync(`${dataPath}.tmp`, dataPath);
+        console.log(`RAG 데이터를 저장했습니다: ${dataPath}`);
       } catch (error) {
         console.warn('파일 시스템 저장 실패, 메모리에서만 유지됩니다:', error);
         // 파일 저장에 실패해도 메모리에는 데이터가 있으므로 계속 진행
@@ -422,30 +757,54 @@ export class RAGSystem {
   }
 
   /**
-   * 데이터 로드 (임시 디렉토리에서)
+   * 데이터 로드 (저장된 인덱스 파일에서)
    */
   async loadFromLocalStorage(): Promise<boolean> {
     try {
       if (typeof window === 'undefined') {
         const fs = await import('fs');
-        const path = await import('path');
-        const os = await import('os');
-        
-        // 임시 디렉토리에서 데이터 찾기
-        const tmpDir = os.tmpdir();
-        const dataPath = path.join(tmpDir, 'rag-data.json');
+        const dataPath = await getDataPath();
         
         if (!fs.existsSync(dataPath)) {
-          console.log('임시 디렉토리에 RAG 데이터가 없습니다.');
+          console.log(`저장된 RAG 데이터가 없습니다: ${dataPath}`);
           return false;
         }
         
         const data = JSON.parse(fs.readFileSync(dataPath, 'utf-8'));
         
         this.chunks = data.chunks || [];
-        this.embeddings = new Map(data.embeddings || []);
+        this.keywordIndex = null;
+        this.pageVersions = new Map(data.pages || []);
+        this.storedPages = new Map(
+          (data.storedPages || []).map(([sourceId, pages]: [string, NormalizedPage[]]) =>
+            [sourceId, new Map(pages.map(page => [page.id, page]))]
+          )
+        );
+        this.lastUpdated = data.lastUpdated || null;
+
+        // 벡터 저장소 항목이 없는 이전 인덱스는 임베딩을 파일에 함께 저장했으므로 로컬 파일 저장소로 옮김
+        const legacyEmbeddings = this.readLegacyEmbeddings(data);
+        const storeId: VectorStoreId = getVectorStoreInfo(data.vectorStore || 'file').id;
+        await this.restoreVectorStore(storeId, legacyEmbeddings);
+        for (const chunk of this.chunks) {
+          delete chunk.embedding;
+        }
+
+        // 임베딩 정보가 없는 이전 인덱스는 text-embedding-3-small로 만든 것
+        this.embeddingInfo = data.embedding || (legacyEmbeddings.size > 0 ? LEGACY_EMBEDDING : null);
+
+        if (data.version !== INDEX_FORMAT_VERSION) {
+          // 이전 형식의 인덱스는 검색에는 그대로 쓰되, 다음 동기화 때 전체를 다시 만듦
+          console.log('인덱스 형식이 바뀌어 다음 동기화 때 모든 페이지를 다시 인덱싱합니다.');
+          this.pageVersions = new Map();
+        }
+        if (this.vectorCount < this.chunks.length) {
+          // 메모리 저장소처럼 벡터가 사라진 경우 검색은 키워드로만 하고, 다음 동기화 때 다시 임베딩
+          console.log(`벡터 저장소에 ${this.chunks.length - this.vectorCount}개 청크의 벡터가 없어 다음 동기화 때 모든 페이지를 다시 인덱싱합니다.`);
+          this.pageVersions = new Map();
+        }
         
-        console.log(`${this.chunks.length}개 청크와 ${this.embeddings.size}개 임베딩을 로드했습니다.`);
+        console.log(`${this.chunks.length}개 청크와 ${this.vectorCount}개 임베딩을 로드했습니다.`);
         return true;
       }
       
@@ -456,64 +815,159 @@ export class RAGSystem {
     }
   }
 
+  /**
+   * 이전 형식의 인덱스 파일에 들어 있던 임베딩 (청크 ID -> 벡터)
+   */
+  private readLegacyEmbeddings(data: { embeddings?: Array<[string, number[]]> }): Map<string, number[]> {
+    const embeddings = new Map(data.embeddings || []);
+    for (const chunk of this.chunks) {
+      if (chunk.embedding && !embeddings.has(chunk.id)) {
+        embeddings.set(chunk.id, chunk.embedding);
+      }
+    }
+    return embeddings;
+  }
+
+  /**
+   * 저장된 인덱스의 벡터 저장소 연결 (이전 형식의 임베딩이 있으면 저장소로 옮김)
+   */
+  private async restoreVectorStore(storeId: VectorStoreId, legacyEmbeddings: Map<string, number[]>) {
+    this.vectorStore = null;
+    this.pendingVectorStore = null;
+    this.vectorCount = 0;
+
+    try {
+      const store = createVectorStore(storeId);
+      if (legacyEmbeddings.size > 0) {
+        await store.clear();
+        await store.upsert(this.chunks
+          .filter(chunk => legacyEmbeddings.has(chunk.id))
+          .map(chunk => toVectorRecord({ ...chunk, embedding: legacyEmbeddings.get(chunk.id) })));
+        console.log(`이전 인덱스의 임베딩 ${legacyEmbeddings.size}개를 벡터 저장소로 옮겼습니다.`);
+      }
+
+      const { count } = await store.stats();
+      this.vectorStore = store;
+      this.vectorCount = Math.min(count, this.chunks.length);
+    } catch (error) {
+      console.error('벡터 저장소 연결 오류:', error);
+    }
+  }
+
   /**
    * RAG 시스템 상태 확인
    */
   getStatus() {
     return {
       chunksCount: this.chunks.length,
-      embeddingsCount: this.embeddings.size,
-      isReady: this.chunks.length > 0 && this.embeddings.size > 0,
+      embeddingsCount: this.vectorCount,
+      pagesCount: this.pageVersions.size,
+      lastUpdated: this.lastUpdated,
+      embedding: this.embeddingInfo,
+      vectorStore: this.vectorStore?.id ?? null,
+      isReady: this.chunks.length > 0 && this.vectorCount > 0,
     };
   }
 
   /**
-   * 청크에서 날짜 정보 추출
+   * 인덱스에 저장된 청크 (캘린더처럼 검색 없이 메타데이터만 필요한 경우에 사용)
    */
-  private extractDatesFromChunk(chunk: DocumentChunk): Date[] {
-    const dates: Date[] = [];
-    const content = chunk.content;
-    
-    // 한국어 날짜 형식 매칭 (예: 2025. 6. 27., 2025년 6월 27일)
-    const koreanDateRegex = /(\d{4})[년\.\s]*(\d{1,2})[월\.\s]*(\d{1,2})[일\.\s]*/g;
-    let match;
-    
-    while ((match = koreanDateRegex.exec(content)) !== null) {
-      const year = parseInt(match[1]);
-      const month = parseInt(match[2]) - 1; // JavaScript Date는 0-based month
-      const day = parseInt(match[3]);
-      
-      if (year >= 2020 && year <= 2030 && month >= 0 && month <= 11 && day >= 1 && day <= 31) {
-        dates.push(new Date(year, month, day));
-      }
-    }
-    
-    // ISO 날짜 형식 매칭 (예: 2025-06-27)
-    const isoDateRegex = /(\d{4})-(\d{2})-(\d{2})/g;
-    while ((match = isoDateRegex.exec(content)) !== null) {
-      const year = parseInt(match[1]);
-      const month = parseInt(match[2]) - 1;
-      const day = parseInt(match[3]);
-      
-      if (year >= 2020 && year <= 2030 && month >= 0 && month <= 11 && day >= 1 && day <= 31) {
-        dates.push(new Date(year, month, day));
-      }
-    }
-    
-    // 메타데이터에서 날짜 정보 추출
-    if (chunk.metadata.properties) {
-      for (const [key, value] of Object.entries(chunk.metadata.properties)) {
-        if (key.toLowerCase().includes('date') || key.includes('날짜') || key.includes('일정')) {
-          if (typeof value === 'string') {
-            const date = new Date(value);
-            if (!isNaN(date.getTime()) && date.getFullYear() >= 2020 && date.getFullYear() <= 2030) {
-              dates.push(date);
-            }
-          }
-        }
-      }
+  getChunks(): readonly DocumentChunk[] {
+    return this.chunks;
+  }
+}
+
+/**
+ * 청크의 날짜 범위 추출
+ *
+ * 날짜 속성(`key`, `key_end`)을 우선 사용하고, 날짜 속성이 없는 페이지만 본문의 날짜를 하루짜리 범위로 씁니다.
+ * 생성일/수정일(생성 일시/최종 편집 일시 속성 포함)은 일정과 무관하므로 제외합니다.
+ */
+export function extractDateRangesFromChunk(chunk: DocumentChunk): Array<{ start: Date; end: Date }> {
+  const ranges: Array<{ start: Date; end: Date }> = [];
+  const properties = chunk.metadata.properties || {};
+  const timestamps = chunk.metadata.timestampProperties || [];
+  
+  for (const [key, value] of Object.entries(properties)) {
+    if (key.endsWith('_end') || typeof value !== 'string' || timestamps.includes(key)) continue;
+    
+    const start = parseDateValue(value);
+    if (!start) continue;
+    
+    const endValue = properties[`${key}_end`];
+    const end = typeof endValue === 'string' ? parseDateValue(endValue) : null;
+    ranges.push({ start, end: end && end >= start ? end : start });
+  }
+  
+  if (ranges.length > 0) {
+    return ranges;
+  }
+  
+  const content = chunk.content
+    .split('\n')
+    .filter(line => !/^(생성일|마지막 수정)/.test(line) && !timestamps.some(name => line.startsWith(`- ${name}:`)))
+    .join('\n');
+  
+  // 한국어 날짜 형식 (예: 2025. 6. 27., 2025년 6월 27일)과 ISO 날짜 형식 (예: 2025-06-27)
+  const dateRegex = /(\d{4})(?:-(\d{2})-(\d{2})|[년.\s]+(\d{1,2})[월.\s]+(\d{1,2}))/g;
+  for (const match of content.matchAll(dateRegex)) {
+    const year = parseInt(match[1]);
+    const month = parseInt(match[2] ?? match[4]) - 1; // JavaScript Date는 0-based month
+    const day = parseInt(match[3] ?? match[5]);
+    const date = new Date(year, month, day);
+    
+    if (date.getMonth() === month && date.getDate() === day) {
+      ranges.push({ start: date, end: date });
     }
-    
-    return dates;
   }
-} 
\ No newline at end of file
+  
+  return ranges;
+}
+
+/**
+ * 인덱스 파일 경로 (RAG_DATA_PATH 환경 변수가 없으면 임시 디렉토리 사용)
+ */
+async function getDataPath(): Promise<string> {
+  if (process.env.RAG_DATA_PATH) {
+    return process.env.RAG_DATA_PATH;
+  }
+
+  const path = await import('path');
+  const os = await import('os');
+
+  // Vercel에서는 /tmp 디렉토리만 쓰기 가능
+  return path.join(os.tmpdir(), 'rag-data.json');
+}
+
+let sharedRAGSystem: Promise<RAGSystem> | null = null;
+
+/**
+ * 프로세스 전체에서 공유하는 RAG 시스템 (저장된 인덱스는 처음 한 번만 로드)
+ */
+export function getRAGSystem(): Promise<RAGSystem> {
+  if (!sharedRAGSystem) {
+    sharedRAGSystem = (async () => {
+      const ragSystem = new RAGSystem();
+      await ragSystem.loadFromLocalStorage();
+      return ragSystem;
+    })();
+  }
+  return sharedRAGSystem;
+}
+
+function toVectorRecord(chunk: DocumentChunk): VectorRecord {
+  return {
+    id: chunk.id,
+    vector: chunk.embedding!,
+    metadata: { pageId: chunk.metadata.pageId, source: chunk.metadata.source },
+  };
+}
+
+// 점수 내림차순 순위 (1부터 시작, 청크 ID -> 순위)
+function rankBy<T extends { chunk: DocumentChunk }>(items: T[], getScore: (item: T) => number): Map<string, number> {
+  return new Map(
+    [...items]
+      .sort((a, b) => getScore(b) - getScore(a))
+      .map((item, index) => [item.chunk.id, index + 1])
+  );
+}
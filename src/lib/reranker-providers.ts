@@ -0,0 +1,28 @@
+// 설정 페이지(클라이언트)에서도 쓰므로 모델 없이 재정렬 방식 정보만 둠
+
+export type RerankerId = 'none' | 'heuristic' | 'llm' | 'cross-encoder';
+
+export interface RerankerInfo {
+  id: RerankerId;
+  name: string;
+  description: string;
+}
+
+export const RERANKERS: RerankerInfo[] = [
+  { id: 'heuristic', name: '규칙 기반', description: '검색 점수, 질문 단어 포함 비율, 제목 일치로 빠르게 재정렬' },
+  { id: 'llm', name: 'LLM 평가', description: '채팅 모델이 후보마다 관련도를 평가 (정확하지만 요청이 한 번 더 필요)' },
+  { id: 'cross-encoder', name: '로컬 Cross-Encoder', description: '서버 CPU에서 실행하는 재정렬 모델 (CROSS_ENCODER_MODEL)' },
+  { id: 'none', name: '사용 안 함', description: '재정렬 없이 검색 점수 상위 5개 사용' },
+];
+
+export const DEFAULT_RERANKER: RerankerId = 'heuristic';
+
+// 재정렬 점수(0~1)가 이 값보다 낮은 후보는 답변 컨텍스트에서 제외
+export const DEFAULT_RELEVANCE_THRESHOLD = 0.3;
+
+/**
+ * 재정렬 방식 ID의 정보 (알 수 없는 값이면 규칙 기반)
+ */
+export function getRerankerInfo(id: unknown): RerankerInfo {
+  return RERANKERS.find(reranker => reranker.id === id) || RERANKERS[0];
+}
@@ -0,0 +1,223 @@
+import type { PreTrainedModel, PreTrainedTokenizer } from '@huggingface/transformers';
+import type { LLMProvider } from '@/lib/llm';
+import type { SearchResult } from '@/lib/rag';
+import { importTransformers } from '@/lib/embeddings';
+import { tokenize } from '@/lib/tokenizer';
+import { DEFAULT_RELEVANCE_THRESHOLD, RerankerId, getRerankerInfo } from '@/lib/reranker-providers';
+
+/**
+ * 검색 후보를 질문과의 관련도(0~1)로 다시 평가하는 재정렬기
+ */
+export interface Reranker {
+  id: RerankerId;
+  score(query: string, candidates: SearchResult[]): Promise<number[]>;
+}
+
+export interface RerankOptions {
+  threshold?: number; // 이 점수보다 낮은 후보는 제외 (가장 관련도가 높은 후보 하나는 항상 남김)
+  maxResults?: number;
+}
+
+// 재정렬 전에 가져올 후보 수
+export const RERANK_CANDIDATES = 30;
+
+// 재정렬하지 않을 때 답변에 쓰는 검색 결과 수
+const DEFAULT_TOP_K = 5;
+const DEFAULT_MAX_RESULTS = 8;
+
+// LLM에 보여 줄 후보 본문 길이
+const LLM_CANDIDATE_LENGTH = 400;
+
+const DEFAULT_CROSS_ENCODER_MODEL = 'Xenova/bge-reranker-base';
+const CROSS_ENCODER_BATCH_SIZE = 8;
+
+let crossEncoder: { model: string; loaded: Promise<{ tokenizer: PreTrainedTokenizer; model: PreTrainedModel }> } | null = null;
+
+/**
+ * 요청 설정의 재정렬 방식과 관련도 기준 (없으면 RERANKER 환경 변수, 그다음 규칙 기반)
+ */
+export function resolveRerankSettings(settings: Record<string, unknown>): { reranker: RerankerId; threshold: number } {
+  const reranker = getRerankerInfo(
+    typeof settings.reranker === 'string' && settings.reranker ? settings.reranker : process.env.RERANKER
+  ).id;
+  const threshold = typeof settings.relevanceThreshold === 'number' && Number.isFinite(settings.relevanceThreshold)
+    ? Math.min(Math.max(settings.relevanceThreshold, 0), 1)
+    : DEFAULT_RELEVANCE_THRESHOLD;
+
+  return { reranker, threshold };
+}
+
+/**
+ * 재정렬기 생성 (LLM 평가는 채팅에 쓰는 제공자를 그대로 사용)
+ */
+export function createReranker(id: RerankerId, llm?: LLMProvider): Reranker | null {
+  switch (id) {
+    case 'none':
+      return null;
+    case 'heuristic':
+      return createHeuristicReranker();
+    case 'llm':
+      if (!llm) throw new Error('LLM 재정렬에는 채팅 모델 제공자가 필요합니다.');
+      return createLLMReranker(llm);
+    case 'cross-encoder':
+      return createCrossEncoderReranker(process.env.CROSS_ENCODER_MODEL || DEFAULT_CROSS_ENCODER_MODEL);
+    default:
+      throw new Error(`지원하지 않는 재정렬 방식입니다: ${String(id)}`);
+  }
+}
+
+/**
+ * 후보를 재정렬하고 관련도 기준으로 자름
+ *
+ * 재정렬기가 없으면 검색 점수 순서 그대로 상위 5개를 쓰고, 재정렬에 실패하면 규칙 기반으로 대신합니다.
+ */
+export async function rerankResults(
+  reranker: Reranker | null,
+  query: string,
+  candidates: SearchResult[],
+  options: RerankOptions = {}
+): Promise<SearchResult[]> {
+  if (!reranker || candidates.length === 0) {
+    return candidates.slice(0, DEFAULT_TOP_K);
+  }
+
+  let scores: number[];
+  try {
+    scores = await reranker.score(query, candidates);
+  } catch (error) {
+    if (reranker.id === 'heuristic') throw error;
+    console.warn(`${getRerankerInfo(reranker.id).name} 재정렬 실패, 규칙 기반으로 전환:`, error);
+    scores = await createHeuristicReranker().score(query, candidates);
+  }
+
+  const threshold = options.threshold ?? DEFAULT_RELEVANCE_THRESHOLD;
+  const ranked = candidates
+    .map((result, index) => ({ ...result, rerankScore: scores[index] ?? 0 }))
+    .sort((a, b) => b.rerankScore - a.rerankScore);
+
+  return ranked
+    .filter((result, index) => index === 0 || result.rerankScore >= threshold)
+    .slice(0, options.maxResults ?? DEFAULT_MAX_RESULTS);
+}
+
+/**
+ * 검색 점수, 질문 토큰이 본문에 포함된 비율, 제목 일치를 섞은 점수
+ */
+function createHeuristicReranker(): Reranker {
+  return {
+    id: 'heuristic',
+
+    async score(query, candidates) {
+      const queryTokens = new Set(tokenize(query));
+      const maxScore = Math.max(...candidates.map(result => result.score), 0);
+
+      return candidates.map(result => {
+        const coverage = tokenCoverage(queryTokens, result.chunk.content);
+        const titleCoverage = tokenCoverage(queryTokens, result.chunk.metadata.title);
+        const retrieval = maxScore > 0 ? result.score / maxScore : 0;
+
+        return 0.5 * retrieval + 0.35 * coverage + 0.15 * Math.min(titleCoverage * 2, 1);
+      });
+    },
+  };
+}
+
+/**
+ * 채팅 모델이 후보마다 0~10점으로 관련도를 매김
+ */
+function createLLMReranker(llm: LLMProvider): Reranker {
+  return {
+    id: 'llm',
+
+    async score(query, candidates) {
+      const documents = candidates
+        .map((result, index) => `[${index + 1}] ${result.chunk.metadata.title}\n${result.chunk.content.slice(0, LLM_CANDIDATE_LENGTH)}`)
+        .join('\n\n');
+
+      const response = await llm.chat([
+        {
+          role: 'system',
+          content: `검색된 문서가 사용자의 질문에 답하는 데 얼마나 도움이 되는지 평가합니다.
+각 문서에 0(무관)부터 10(질문에 직접 답함)까지 점수를 매기고, 다음 형식의 JSON으로만 답하세요.
+{"scores": [{"index": 1, "score": 7}, {"index": 2, "score": 0}]}`,
+        },
+        { role: 'user', content: `질문: ${query}\n\n문서:\n${documents}` },
+      ], { temperature: 0, maxTokens: 30 + candidates.length * 20, responseFormat: 'json' });
+
+      const parsed = JSON.parse(response.content);
+      if (!Array.isArray(parsed?.scores)) {
+        throw new Error('LLM 재정렬 응답에 scores 배열이 없습니다.');
+      }
+
+      const scores = new Array<number>(candidates.length).fill(0);
+      for (const item of parsed.scores) {
+        const index = Number(item?.index) - 1;
+        const score = Number(item?.score);
+        if (index >= 0 && index < candidates.length && Number.isFinite(score)) {
+          scores[index] = Math.min(Math.max(score / 10, 0), 1);
+        }
+      }
+      return scores;
+    },
+  };
+}
+
+/**
+ * 질문과 본문을 함께 읽는 Cross-Encoder 모델 (transformers.js, 서버 CPU에서 실행)
+ */
+function createCrossEncoderReranker(modelName: string): Reranker {
+  return {
+    id: 'cross-encoder',
+
+    async score(query, candidates) {
+      const { tokenizer, model } = await loadCrossEncoder(modelName);
+      const scores: number[] = [];
+
+      for (let i = 0; i < candidates.length; i += CROSS_ENCODER_BATCH_SIZE) {
+        const batch = candidates.slice(i, i + CROSS_ENCODER_BATCH_SIZE).map(result => result.chunk.content);
+        const inputs = tokenizer(new Array<string>(batch.length).fill(query), {
+          text_pair: batch,
+          padding: true,
+          truncation: true,
+        });
+        const { logits } = await model(inputs);
+        // 모델 출력(logit)을 시그모이드로 0~1 점수로 변환
+        for (const logit of logits.tolist() as number[][]) {
+          scores.push(1 / (1 + Math.exp(-logit[0])));
+        }
+      }
+      return scores;
+    },
+  };
+}
+
+// 모델 로드는 오래 걸리므로 프로세스에서 한 번만 (모델이 바뀌면 다시 로드)
+function loadCrossEncoder(modelName: string) {
+  if (crossEncoder?.model !== modelName) {
+    const loaded = (async () => {
+      const { AutoModelForSequenceClassification, AutoTokenizer } = await importTransformers();
+      console.log(`로컬 재정렬 모델 로드 중: ${modelName}`);
+      const [tokenizer, model] = await Promise.all([
+        AutoTokenizer.from_pretrained(modelName),
+        AutoModelForSequenceClassification.from_pretrained(modelName, { dtype: 'q8' }),
+      ]);
+      return { tokenizer, model };
+    })();
+    // 실패한 로드는 캐시하지 않음
+    loaded.catch(() => { crossEncoder = null; });
+    crossEncoder = { model: modelName, loaded };
+  }
+  return crossEncoder.loaded;
+}
+
+// 질문 토큰 중 텍스트에 들어 있는 비율
+function tokenCoverage(queryTokens: Set<string>, text: string): number {
+  if (queryTokens.size === 0) return 0;
+
+  const tokens = new Set(tokenize(text));
+  let matched = 0;
+  for (const token of queryTokens) {
+    if (tokens.has(token)) matched++;
+  }
+  return matched / queryTokens.size;
+}
@@ -0,0 +1,203 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { WORKSPACE_HEADER } from '@/lib/workspace';
+
+/**
+ * 워크스페이스별로 서버에 보관하는 API 키
+ */
+export interface WorkspaceSecrets {
+  openaiApiKey?: string;
+  notionApiKey?: string;
+  anthropicApiKey?: string;
+  compatibleApiKey?: string; // OpenAI 호환 서버 (필요한 경우만)
+}
+
+export type SecretName = keyof WorkspaceSecrets;
+
+export const SECRET_NAMES: SecretName[] = ['openaiApiKey', 'notionApiKey', 'anthropicApiKey', 'compatibleApiKey'];
+
+/**
+ * 키가 어디에서 설정되었는지 (키 값 대신 끝 4자리만 노출)
+ */
+export interface SecretStatus {
+  source: 'workspace' | 'env' | null;
+  hint?: string;
+}
+
+// 워크스페이스에 키가 없을 때 사용할 환경 변수
+const ENV_NAMES: Record<SecretName, string> = {
+  openaiApiKey: 'OPENAI_API_KEY',
+  notionApiKey: 'NOTION_API_KEY',
+  anthropicApiKey: 'ANTHROPIC_API_KEY',
+  compatibleApiKey: 'LLM_API_KEY',
+};
+
+interface EncryptedRecord {
+  iv: string;
+  tag: string;
+  data: string;
+  updatedAt: string;
+}
+
+interface SecretFile {
+  version: number;
+  workspaces: Record<string, EncryptedRecord>;
+}
+
+const STORE_FORMAT_VERSION = 1;
+const WORKSPACE_ID = /^[0-9a-f-]{36}$/;
+
+/**
+ * 서버 키(SECRET_STORE_KEY)가 설정되어 워크스페이스에 키를 저장할 수 있는지
+ */
+export function isSecretStoreEnabled(): boolean {
+  return Boolean(process.env.SECRET_STORE_KEY);
+}
+
+/**
+ * 워크스페이스에 저장된 키와 환경 변수를 합친 키 (워크스페이스 값 우선)
+ */
+export function resolveSecrets(workspaceId?: string | null): WorkspaceSecrets {
+  const stored = workspaceId ? readWorkspaceSecrets(workspaceId) : {};
+  const secrets: WorkspaceSecrets = {};
+
+  for (const name of SECRET_NAMES) {
+    const value = stored[name] || process.env[ENV_NAMES[name]];
+    if (value) secrets[name] = value;
+  }
+
+  return secrets;
+}
+
+/**
+ * 요청 헤더의 워크스페이스 ID로 키 조회
+ */
+export function getRequestSecrets(request: Request): WorkspaceSecrets {
+  return resolveSecrets(request.headers.get(WORKSPACE_HEADER));
+}
+
+/**
+ * 키별 설정 상태
+ */
+export function getSecretStatus(workspaceId?: string | null): Record<SecretName, SecretStatus> {
+  const stored = workspaceId ? readWorkspaceSecrets(workspaceId) : {};
+
+  return Object.fromEntries(SECRET_NAMES.map(name => {
+    const envValue = process.env[ENV_NAMES[name]];
+    const status: SecretStatus = stored[name]
+      ? { source: 'workspace', hint: maskSecret(stored[name]) }
+      : envValue ? { source: 'env', hint: maskSecret(envValue) } : { source: null };
+    return [name, status];
+  })) as Record<SecretName, SecretStatus>;
+}
+
+/**
+ * 워크스페이스 키 저장 (빈 문자열은 해당 키 삭제, 생략한 키는 유지)
+ *
+ * 워크스페이스 ID가 없거나 저장된 적 없는 ID면 새 ID를 발급합니다.
+ */
+export function saveWorkspaceSecrets(workspaceId: string | null | undefined, updates: WorkspaceSecrets): string {
+  const key = getStoreKey();
+  const store = readStore();
+  const id = workspaceId && store.workspaces[workspaceId] ? workspaceId : randomUUID();
+  const secrets = store.workspaces[id] ? decryptRecord(key, id, store.workspaces[id]) : {};
+
+  for (const name of SECRET_NAMES) {
+    const value = updates[name];
+    if (value === undefined) continue;
+    if (value.trim()) {
+      secrets[name] = value.trim();
+    } else {
+      delete secrets[name];
+    }
+  }
+
+  store.workspaces[id] = encryptRecord(key, id, secrets);
+  writeStore(store);
+  return id;
+}
+
+/**
+ * 워크스페이스와 저장된 키 삭제
+ */
+export function deleteWorkspaceSecrets(workspaceId: string): boolean {
+  const store = readStore();
+  if (!store.workspaces[workspaceId]) return false;
+
+  delete store.workspaces[workspaceId];
+  writeStore(store);
+  return true;
+}
+
+function readWorkspaceSecrets(workspaceId: string): WorkspaceSecrets {
+  if (!WORKSPACE_ID.test(workspaceId) || !isSecretStoreEnabled()) return {};
+
+  const record = readStore().workspaces[workspaceId];
+  return record ? decryptRecord(getStoreKey(), workspaceId, record) : {};
+}
+
+// 환경 변수 값을 그대로 쓰지 않고 SHA-256으로 32바이트 키를 만듦 (어떤 길이의 문자열이든 사용 가능)
+function getStoreKey(): Buffer {
+  const secret = process.env.SECRET_STORE_KEY;
+  if (!secret) {
+    throw new Error('키를 저장하려면 SECRET_STORE_KEY 환경 변수가 필요합니다.');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+// 워크스페이스 ID를 추가 인증 데이터로 사용해 다른 워크스페이스의 레코드로 바꿔치기할 수 없도록 함
+function encryptRecord(key: Buffer, workspaceId: string, secrets: WorkspaceSecrets): EncryptedRecord {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(workspaceId));
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+function decryptRecord(key: Buffer, workspaceId: string, record: EncryptedRecord): WorkspaceSecrets {
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(record.iv, 'base64'));
+    decipher.setAAD(Buffer.from(workspaceId));
+    decipher.setAuthTag(Buffer.from(record.tag, 'base64'));
+    const data = Buffer.concat([decipher.update(Buffer.from(record.data, 'base64')), decipher.final()]);
+    return JSON.parse(data.toString('utf8'));
+  } catch {
+    throw new Error('저장된 키를 복호화할 수 없습니다. SECRET_STORE_KEY가 바뀌었는지 확인해주세요.');
+  }
+}
+
+function readStore(): SecretFile {
+  const storePath = getStorePath();
+  if (!fs.existsSync(storePath)) {
+    return { version: STORE_FORMAT_VERSION, workspaces: {} };
+  }
+
+  const data = JSON.parse(fs.readFileSync(storePath, 'utf-8'));
+  return { version: STORE_FORMAT_VERSION, workspaces: data.workspaces || {} };
+}
+
+function writeStore(store: SecretFile) {
+  const storePath = getStorePath();
+  // 쓰는 도중 다른 요청이 읽지 않도록 임시 파일에 쓴 뒤 교체 (소유자만 읽을 수 있도록)
+  fs.writeFileSync(`${storePath}.tmp`, JSON.stringify(store), { mode: 0o600 });
+  fs.renameSync(`${storePath}.tmp`, storePath);
+}
+
+/**
+ * 키 저장 파일 경로 (SECRET_STORE_PATH 환경 변수가 없으면 임시 디렉토리 사용)
+ */
+function getStorePath(): string {
+  return process.env.SECRET_STORE_PATH || path.join(os.tmpdir(), 'secret-store.json');
+}
+
+function maskSecret(value: string): string {
+  return `••••${value.slice(-4)}`;
+}
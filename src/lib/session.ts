@@ -0,0 +1,150 @@
+// 미들웨어(Edge 런타임)에서도 쓰므로 Node 모듈 없이 Web Crypto만 사용
+
+export type Role = 'admin' | 'member';
+
+/**
+ * 로그인한 사용자 (세션 쿠키에 서명해 저장)
+ */
+export interface SessionUser {
+  id: string; // 로컬 계정은 사용자 이름, OIDC는 `oidc:` + subject
+  name: string;
+  role: Role;
+  provider: 'local' | 'oidc';
+  version?: number; // 로컬 계정의 세션 버전 (계정을 바꾸거나 삭제하면 달라져 이전 세션이 무효화됨)
+}
+
+export const SESSION_COOKIE = 'notion-chat-session';
+export const SESSION_MAX_AGE = 7 * 24 * 60 * 60; // 초 단위 (7일)
+export const FEED_TOKEN_MAX_AGE = 180 * 24 * 60 * 60; // 캘린더 피드 토큰 (180일, 설정 페이지를 열 때마다 새로 발급)
+
+// 미들웨어가 확인한 사용자 정보를 API 라우트로 넘기는 요청 헤더
+export const USER_ID_HEADER = 'x-user-id';
+export const USER_ROLE_HEADER = 'x-user-role';
+export const USER_VERSION_HEADER = 'x-user-version';
+
+// OIDC 로그인 중 state, nonce, 돌아갈 경로를 보관하는 쿠키
+export const OIDC_STATE_COOKIE = 'notion-chat-oidc';
+
+interface SignedPayload {
+  kind: 'session' | 'feed' | 'state';
+  exp: number; // 만료 시각 (초)
+  [key: string]: unknown;
+}
+
+/**
+ * AUTH_SECRET이 설정되어 로그인이 필요한지
+ */
+export function isAuthEnabled(): boolean {
+  return Boolean(process.env.AUTH_SECRET);
+}
+
+/**
+ * 미들웨어가 확인한 요청 사용자의 역할 (로그인을 쓰지 않으면 모든 기능을 쓸 수 있도록 admin)
+ */
+export function getRequestRole(request: Request): Role | null {
+  if (!isAuthEnabled()) return 'admin';
+
+  const role = request.headers.get(USER_ROLE_HEADER);
+  return role === 'admin' || role === 'member' ? role : null;
+}
+
+/**
+ * 로그인 후 돌아갈 경로 (다른 사이트로 보내지 않도록 같은 사이트의 경로만 허용)
+ */
+export function safeRedirectPath(value: string | null | undefined): string {
+  return value && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\') ? value : '/';
+}
+
+/**
+ * 세션 쿠키 값 생성
+ */
+export function createSessionToken(user: SessionUser, maxAge: number = SESSION_MAX_AGE): Promise<string> {
+  return signPayload({ kind: 'session', exp: nowSeconds() + maxAge, user });
+}
+
+/**
+ * 세션 쿠키 검증 (서명이 틀리거나 만료되면 null)
+ */
+export async function verifySessionToken(token: string | undefined): Promise<SessionUser | null> {
+  const payload = await verifyPayload(token, 'session');
+  return payload ? payload.user as SessionUser : null;
+}
+
+/**
+ * 캘린더 앱이 로그인 없이 구독할 수 있는 .ics 피드 토큰 (발급한 사용자 ID와 세션 버전을 담음)
+ */
+export function createFeedToken(userId: string, version?: number, maxAge: number = FEED_TOKEN_MAX_AGE): Promise<string> {
+  return signPayload({ kind: 'feed', exp: nowSeconds() + maxAge, userId, version });
+}
+
+export async function verifyFeedToken(token: string | null): Promise<{ userId: string; version?: number } | null> {
+  const payload = await verifyPayload(token ?? undefined, 'feed');
+  return payload ? { userId: payload.userId as string, version: payload.version as number | undefined } : null;
+}
+
+/**
+ * 짧게 쓰고 버리는 서명 값 (OIDC 로그인의 state, nonce 보관용)
+ */
+export function createStateToken(data: Record<string, string>, maxAge: number = 10 * 60): Promise<string> {
+  return signPayload({ kind: 'state', exp: nowSeconds() + maxAge, ...data });
+}
+
+export async function verifyStateToken(token: string | undefined): Promise<Record<string, string> | null> {
+  const payload = await verifyPayload(token, 'state');
+  return payload as Record<string, string> | null;
+}
+
+async function signPayload(payload: SignedPayload): Promise<string> {
+  const body = encodeBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await hmac(body);
+  return `${body}.${encodeBase64Url(signature)}`;
+}
+
+async function verifyPayload(token: string | undefined, kind: SignedPayload['kind']): Promise<SignedPayload | null> {
+  if (!token || !isAuthEnabled()) return null;
+
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const key = await getSigningKey();
+    const valid = await crypto.subtle.verify('HMAC', key, decodeBase64Url(signature), new TextEncoder().encode(body));
+    if (!valid) return null;
+
+    const payload: SignedPayload = JSON.parse(new TextDecoder().decode(decodeBase64Url(body)));
+    if (payload.kind !== kind) return null;
+    // 만료 시각이 없는 이전 형식의 피드 토큰도 더는 받지 않음
+    if (typeof payload.exp !== 'number' || payload.exp < nowSeconds()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+async function hmac(data: string): Promise<Uint8Array> {
+  const key = await getSigningKey();
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data)));
+}
+
+function getSigningKey(): Promise<CryptoKey> {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET 환경 변수가 설정되지 않았습니다.');
+  }
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+function encodeBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
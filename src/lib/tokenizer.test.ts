@@ -0,0 +1,156 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { characterNgrams, findChunkBoundary, stripParticle, tokenize } from '@/lib/tokenizer';
+
+// 저장소에 포함된 인덱스 스냅샷의 실제 페이지 본문
+const snapshot: { chunks: Array<{ content: string }> } = JSON.parse(
+  fs.readFileSync(path.join(process.cwd(), 'data/rag-data.json'), 'utf-8')
+);
+const lines = snapshot.chunks.flatMap(chunk => chunk.content.split('\n'));
+
+// 스냅샷에서 `fragment`가 들어 있는 줄
+function sampleLine(fragment: string): string {
+  const line = lines.find(candidate => candidate.includes(fragment));
+  if (!line) throw new Error(`스냅샷에 없는 문장입니다: ${fragment}`);
+  return line;
+}
+
+describe('stripParticle', () => {
+  it('어절 끝의 조사를 뗀다', () => {
+    expect(stripParticle('사진을')).toBe('사진');
+    expect(stripParticle('눈바디의')).toBe('눈바디');
+    expect(stripParticle('점수로')).toBe('점수');
+    expect(stripParticle('진입장벽을')).toBe('진입장벽');
+  });
+
+  it('긴 조사를 먼저 뗀다', () => {
+    expect(stripParticle('앨범에서는')).toBe('앨범');
+    expect(stripParticle('사진으로부터')).toBe('사진');
+  });
+
+  it('어간이 한 글자만 남으면 떼지 않는다', () => {
+    expect(stripParticle('사진')).toBe('사진');
+    expect(stripParticle('회의')).toBe('회의');
+    expect(stripParticle('중에서')).toBe('중에서');
+  });
+
+  it('긴 조사를 뗄 수 없을 때 더 짧은 조사를 대신 떼지 않는다', () => {
+    // "장" + "으로"이지 "장으" + "로"가 아님
+    expect(stripParticle('장으로')).toBe('장으로');
+  });
+
+  it('조사처럼 보이는 글자로 끝나는 명사는 자르지 않는다', () => {
+    expect(stripParticle('난이도')).toBe('난이도');
+    expect(stripParticle('고양이')).toBe('고양이');
+    expect(stripParticle('바나나')).toBe('바나나');
+    expect(stripParticle('민주주의')).toBe('민주주의');
+  });
+
+  it('그런 명사 뒤에 붙은 조사는 뗀다', () => {
+    expect(stripParticle('난이도를')).toBe('난이도');
+    expect(stripParticle('고양이가')).toBe('고양이');
+  });
+});
+
+describe('characterNgrams', () => {
+  it('글자 단위 바이그램을 만든다', () => {
+    expect(characterNgrams('진입장벽')).toEqual(['진입', '입장', '장벽']);
+  });
+
+  it('n글자 이하의 단어는 n-gram을 만들지 않는다', () => {
+    expect(characterNgrams('사진')).toEqual([]);
+    expect(characterNgrams('앱')).toEqual([]);
+  });
+
+  it('n을 지정할 수 있다', () => {
+    expect(characterNgrams('눈바디', 3)).toEqual([]);
+    expect(characterNgrams('영어회화', 3)).toEqual(['영어회', '어회화']);
+  });
+});
+
+describe('tokenize', () => {
+  it('조사가 붙은 어절과 붙지 않은 어절이 같은 토큰을 만든다', () => {
+    const sentence = sampleLine('서로의 눈바디 사진을');
+    const tokens = tokenize(sentence);
+
+    expect(tokens).toContain('사진');
+    expect(tokens).toContain('눈바디');
+    expect(tokens).not.toContain('사진을');
+    expect(tokens).not.toContain('눈바디의');
+    expect(tokens.filter(token => token === '눈바디')).toHaveLength(2);
+  });
+
+  it('복합 명사의 부분 일치를 위해 바이그램을 포함한다', () => {
+    const tokens = tokenize(sampleLine('진입장벽을'));
+
+    expect(tokens).toContain('진입장벽');
+    expect(tokens).toEqual(expect.arrayContaining(['진입', '입장', '장벽']));
+  });
+
+  it('영문과 한글이 붙은 어절을 나누고 조사만 남으면 버린다', () => {
+    const tokens = tokenize(sampleLine('Snaptalk은 사진 한 장으로'));
+
+    expect(tokens[0]).toBe('snaptalk');
+    expect(tokens).not.toContain('은');
+    expect(tokenize('Next.js를 사용했습니다')).toEqual(expect.arrayContaining(['next', 'js']));
+    expect(tokenize('Next.js를 사용했습니다')).not.toContain('를');
+  });
+
+  it('영문 기술 이름은 소문자로 토큰화한다', () => {
+    expect(tokenize(sampleLine('Frontend: Next.js'))).toEqual(['frontend', 'next', 'js', 'react', 'typescript']);
+  });
+
+  it('조사처럼 끝나는 명사를 그대로 검색할 수 있다', () => {
+    const tokens = tokenize(sampleLine('난이도 선택'));
+
+    expect(tokens).toContain('난이도');
+    expect(tokens).toContain('선택');
+  });
+});
+
+describe('findChunkBoundary', () => {
+  const page = snapshot.chunks[0].content;
+
+  it('남은 텍스트가 범위 안이면 끝까지 자른다', () => {
+    expect(findChunkBoundary(page, 0, page.length + 10)).toBe(page.length);
+  });
+
+  it('문단 경계를 가장 먼저 찾는다', () => {
+    const paragraphEnd = page.indexOf('\n\n\n') + 3;
+    const boundary = findChunkBoundary(page, 0, paragraphEnd + 40);
+
+    expect(boundary).toBe(paragraphEnd);
+    expect(page.slice(boundary)).toMatch(/^내용:/);
+  });
+
+  it('문단 경계가 없으면 줄바꿈에서 자른다', () => {
+    const start = page.indexOf('## 주요 특징');
+    const boundary = findChunkBoundary(page, start, start + 40);
+
+    expect(page[boundary - 1]).toBe('\n');
+    expect(page.slice(boundary)).toMatch(/^• /);
+  });
+
+  it('한 줄 안에서는 문장 끝에서 자른다', () => {
+    const text = `${sampleLine('인바디보다 눈바디라는')} ${sampleLine('shaperank는 서로의')}`;
+    const firstSentenceEnd = text.indexOf('있습니다. ') + '있습니다. '.length;
+    const boundary = findChunkBoundary(text, 10, firstSentenceEnd + 20);
+
+    expect(boundary).toBe(firstSentenceEnd);
+    expect(text.slice(boundary)).toMatch(/^shaperank는/);
+  });
+
+  it('문장 끝이 없으면 공백에서 잘라 어절을 나누지 않는다', () => {
+    const text = sampleLine('사진 기반 문장 생성');
+    const boundary = findChunkBoundary(text, 5, 30);
+
+    expect(boundary).toBeLessThanOrEqual(30);
+    expect(text[boundary - 1]).toMatch(/\s/);
+    expect(text[boundary]).toMatch(/\S/);
+  });
+
+  it('자를 곳이 없으면 최대 위치에서 자른다', () => {
+    expect(findChunkBoundary('눈바디랭킹시스템'.repeat(10), 5, 20)).toBe(20);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * 한국어를 고려한 토큰화와 청크 경계 탐지
+ *
+ * 한국어는 조사가 명사에 붙어 있어("프로젝트의", "프로젝트를") 공백 기준 토큰화로는
+ * 같은 단어끼리 일치하지 않습니다. 어절 끝의 조사를 떼어 낸 어간과, 복합 명사의 부분 일치를 위한
+ * 글자 단위 바이그램을 함께 만듭니다.
+ */
+
+// 길이가 긴 조사부터 비교해야 "에서는"이 "는"보다 먼저 떨어짐
+const PARTICLES = [
+  '에서부터', '으로부터', '이라고는',
+  '에게서', '한테서', '으로서', '으로써', '에서는', '에서도', '으로는', '까지는', '부터는', '이라는', '이라고', '입니다',
+  '에서', '에게', '한테', '께서', '으로', '부터', '까지', '처럼', '보다', '마다', '이나', '이랑', '하고', '라는', '라고',
+  '은', '는', '이', '가', '을', '를', '의', '에', '와', '과', '도', '만', '로', '랑', '나',
+].sort((a, b) => b.length - a.length);
+
+// 마지막 글자가 조사처럼 보이지만 명사의 일부인 어절 ("난이도"의 "도", "고양이"의 "이")
+const PARTICLE_LIKE_ENDINGS = [
+  '난이도', '만족도', '완성도', '인지도', '중요도', '해상도', '고속도로', '고양이', '바나나',
+  '민주주의', '자본주의', '전문가', '번역가', '작곡가', '예술가',
+];
+
+const HANGUL = /^\p{Script=Hangul}+$/u;
+
+/**
+ * 조사를 떼어 낸 한국어 어절의 어간 (어간이 한 글자만 남으면 떼지 않음)
+ */
+export function stripParticle(word: string): string {
+  if (PARTICLE_LIKE_ENDINGS.some(ending => word.endsWith(ending))) return word;
+
+  // 가장 긴 조사만 비교 ("장으로"에서 "으로"를 뗄 수 없다고 "로"만 떼지 않도록)
+  const particle = PARTICLES.find(candidate => word.endsWith(candidate));
+  if (particle && word.length - particle.length >= 2) {
+    return word.slice(0, -particle.length);
+  }
+  return word;
+}
+
+/**
+ * 글자 단위 n-gram
+ */
+export function characterNgrams(word: string, n: number = 2): string[] {
+  const characters = Array.from(word);
+  if (characters.length <= n) return [];
+
+  const grams: string[] = [];
+  for (let i = 0; i <= characters.length - n; i++) {
+    grams.push(characters.slice(i, i + n).join(''));
+  }
+  return grams;
+}
+
+/**
+ * 텍스트를 단어 단위로 분리 (한글과 영문/숫자가 붙어 있으면 나눔: "Next.js를" -> next, js, 를)
+ */
+export function splitWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/(\p{Script=Hangul})(?=[a-z0-9])|([a-z0-9])(?=\p{Script=Hangul})/gu, '$1$2 ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 0);
+}
+
+/**
+ * 키워드 검색용 토큰화
+ *
+ * 한글 단어는 조사를 뗀 어간과 어간의 바이그램을, 그 밖의 단어는 소문자 그대로를 토큰으로 씁니다.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const word of splitWords(text)) {
+    if (!HANGUL.test(word)) {
+      tokens.push(word);
+      continue;
+    }
+
+    const stem = stripParticle(word);
+    // 조사만 남은 경우(예: "Next.js를"의 "를")는 버림
+    if (stem.length === 1 && PARTICLES.includes(stem)) continue;
+
+    tokens.push(stem, ...characterNgrams(stem));
+  }
+
+  return tokens;
+}
+
+/**
+ * `[minIndex, maxIndex]` 범위에서 청크를 자르기 가장 좋은 위치
+ *
+ * 문단 > 줄바꿈 > 문장 끝 > 공백 순으로 찾고, 어느 것도 없으면 maxIndex에서 자릅니다.
+ * 반환값은 잘린 앞부분의 끝(배타적) 위치이므로 단어 중간이 잘리지 않습니다.
+ */
+export function findChunkBoundary(text: string, minIndex: number, maxIndex: number): number {
+  if (maxIndex >= text.length) return text.length;
+
+  const window = text.slice(minIndex, maxIndex);
+  const patterns = [/\n\s*\n/g, /\n/g, /(?:[.!?。]|다\.)\s/g, /\s/g];
+
+  for (const pattern of patterns) {
+    let lastEnd = -1;
+    for (const match of window.matchAll(pattern)) {
+      lastEnd = (match.index ?? 0) + match[0].length;
+    }
+    if (lastEnd > 0) {
+      return minIndex + lastEnd;
+    }
+  }
+
+  return maxIndex;
+}
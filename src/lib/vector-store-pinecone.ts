@@ -0,0 +1,72 @@
+import { Pinecone } from '@pinecone-database/pinecone';
+import type { VectorStore } from '@/lib/vector-store';
+
+/**
+ * Pinecone 인덱스를 쓰는 저장소 (PINECONE_API_KEY, PINECONE_INDEX, 선택: PINECONE_NAMESPACE)
+ *
+ * 인덱스의 차원은 사용하는 임베딩 모델의 차원과 같아야 합니다.
+ */
+export function createPineconeStore(): VectorStore {
+  const { PINECONE_API_KEY, PINECONE_INDEX, PINECONE_NAMESPACE } = process.env;
+  if (!PINECONE_API_KEY || !PINECONE_INDEX) {
+    throw new Error('Pinecone을 사용하려면 PINECONE_API_KEY와 PINECONE_INDEX 환경 변수가 필요합니다.');
+  }
+
+  const namespace = PINECONE_NAMESPACE || 'notion-chatbot';
+  const index = new Pinecone({ apiKey: PINECONE_API_KEY }).index(PINECONE_INDEX).namespace(namespace);
+  const batchSize = 100; // Pinecone 요청 크기 제한 고려
+
+  return {
+    id: 'pinecone',
+
+    async upsert(records) {
+      for (let i = 0; i < records.length; i += batchSize) {
+        await index.upsert(records.slice(i, i + batchSize).map(record => ({
+          id: record.id,
+          values: record.vector,
+          metadata: { pageId: record.metadata.pageId, source: record.metadata.source || '' },
+        })));
+      }
+    },
+
+    async delete(ids) {
+      for (let i = 0; i < ids.length; i += batchSize) {
+        await index.deleteMany(ids.slice(i, i + batchSize));
+      }
+    },
+
+    async deleteByPageIds(pageIds) {
+      for (let i = 0; i < pageIds.length; i += batchSize) {
+        await index.deleteMany({ pageId: { $in: pageIds.slice(i, i + batchSize) } });
+      }
+    },
+
+    async query(vector, topK, filter) {
+      const conditions = Object.entries(filter || {})
+        .filter(([, values]) => values && values.length > 0)
+        .map(([field, values]) => ({ [field]: { $in: values } }));
+
+      const response = await index.query({
+        vector,
+        topK,
+        filter: conditions.length > 0 ? { $and: conditions } : undefined,
+      });
+      return response.matches.map(match => ({ id: match.id, score: match.score ?? 0 }));
+    },
+
+    async stats() {
+      const description = await index.describeIndexStats();
+      return {
+        count: description.namespaces?.[namespace]?.recordCount ?? 0,
+        dimension: description.dimension ?? null,
+      };
+    },
+
+    async clear() {
+      // 비어 있는 네임스페이스를 지우면 오류가 나므로 벡터가 있을 때만 삭제
+      if ((await this.stats()).count > 0) {
+        await index.deleteAll();
+      }
+    },
+  };
+}
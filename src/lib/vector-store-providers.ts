@@ -0,0 +1,24 @@
+// 설정 페이지(클라이언트)에서도 쓰므로 저장소 구현 없이 종류 정보만 둠
+
+export type VectorStoreId = 'memory' | 'file' | 'pinecone';
+
+export interface VectorStoreInfo {
+  id: VectorStoreId;
+  name: string;
+  description: string;
+}
+
+export const VECTOR_STORES: VectorStoreInfo[] = [
+  { id: 'file', name: '로컬 파일', description: '서버 파일에 저장 (VECTOR_STORE_PATH)' },
+  { id: 'memory', name: '메모리', description: '서버를 재시작하면 다시 임베딩 (개발용)' },
+  { id: 'pinecone', name: 'Pinecone', description: '대규모 워크스페이스용 (PINECONE_API_KEY, PINECONE_INDEX)' },
+];
+
+export const DEFAULT_VECTOR_STORE: VectorStoreId = 'file';
+
+/**
+ * 저장소 ID의 정보 (알 수 없는 값이면 로컬 파일)
+ */
+export function getVectorStoreInfo(id: unknown): VectorStoreInfo {
+  return VECTOR_STORES.find(store => store.id === id) || VECTOR_STORES[0];
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { createVectorStore } from '@/lib/vector-store';
+
+describe('MemoryVectorStore', () => {
+  it('페이지 ID로 그 페이지의 모든 청크 벡터를 지운다', async () => {
+    const store = createVectorStore('memory');
+    await store.upsert([
+      { id: 'a-0', vector: [1, 0], metadata: { pageId: 'a' } },
+      { id: 'a-1', vector: [1, 1], metadata: { pageId: 'a' } },
+      { id: 'b-0', vector: [0, 1], metadata: { pageId: 'b' } },
+    ]);
+
+    await store.deleteByPageIds(['a']);
+
+    expect((await store.stats()).count).toBe(1);
+    expect((await store.query([0, 1], 10)).map(match => match.id)).toEqual(['b-0']);
+  });
+});
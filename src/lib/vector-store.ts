@@ -0,0 +1,214 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_VECTOR_STORE, VectorStoreId, getVectorStoreInfo } from '@/lib/vector-store-providers';
+import { createPineconeStore } from '@/lib/vector-store-pinecone';
+
+/**
+ * 청크 벡터와 필터에 쓰는 메타데이터
+ */
+export interface VectorRecord {
+  id: string; // 청크 ID (`페이지ID-번호`)
+  vector: number[];
+  metadata: {
+    pageId: string;
+    source?: string;
+  };
+}
+
+/**
+ * 메타데이터 조건 (필드마다 값 목록 중 하나와 일치해야 함)
+ */
+export interface VectorFilter {
+  pageId?: string[];
+  source?: string[];
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number; // 코사인 유사도
+}
+
+export interface VectorStoreStats {
+  count: number;
+  dimension: number | null;
+}
+
+/**
+ * 청크 벡터 저장소 (메모리, 로컬 파일, Pinecone)
+ */
+export interface VectorStore {
+  id: VectorStoreId;
+  upsert(records: VectorRecord[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+  /** 페이지의 모든 청크 벡터 삭제 (인덱스가 모르는 청크까지 지움) */
+  deleteByPageIds(pageIds: string[]): Promise<void>;
+  query(vector: number[], topK: number, filter?: VectorFilter): Promise<VectorMatch[]>;
+  stats(): Promise<VectorStoreStats>;
+  clear(): Promise<void>;
+}
+
+/**
+ * 요청 설정의 저장소 종류 (없으면 VECTOR_STORE 환경 변수, 그다음 로컬 파일)
+ */
+export function resolveVectorStoreId(settings: Record<string, unknown>): VectorStoreId {
+  const value = typeof settings.vectorStore === 'string' && settings.vectorStore
+    ? settings.vectorStore
+    : process.env.VECTOR_STORE || DEFAULT_VECTOR_STORE;
+  return getVectorStoreInfo(value).id;
+}
+
+export function createVectorStore(id: VectorStoreId): VectorStore {
+  switch (id) {
+    case 'memory':
+      return new MemoryVectorStore();
+    case 'file':
+      return new FileVectorStore(getVectorStorePath());
+    case 'pinecone':
+      return createPineconeStore();
+    default:
+      throw new Error(`지원하지 않는 벡터 저장소입니다: ${String(id)}`);
+  }
+}
+
+/**
+ * 코사인 유사도 계산 (차원이 다른 벡터는 비교할 수 없으므로 예외 발생)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`임베딩 차원이 일치하지 않습니다: 쿼리 ${a.length}, 인덱스 ${b.length}`);
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * 프로세스 메모리에만 두는 저장소 (전체를 선형 탐색)
+ */
+class MemoryVectorStore implements VectorStore {
+  id: VectorStoreId = 'memory';
+  protected records = new Map<string, VectorRecord>();
+
+  async upsert(records: VectorRecord[]) {
+    for (const record of records) {
+      this.records.set(record.id, record);
+    }
+  }
+
+  async delete(ids: string[]) {
+    for (const id of ids) {
+      this.records.delete(id);
+    }
+  }
+
+  async deleteByPageIds(pageIds: string[]) {
+    const targets = new Set(pageIds);
+    for (const record of Array.from(this.records.values())) {
+      if (targets.has(record.metadata.pageId)) this.records.delete(record.id);
+    }
+  }
+
+  async query(vector: number[], topK: number, filter?: VectorFilter) {
+    const matches: VectorMatch[] = [];
+    for (const record of this.records.values()) {
+      if (!matchesFilter(record, filter)) continue;
+      matches.push({ id: record.id, score: cosineSimilarity(vector, record.vector) });
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  async stats() {
+    const first = this.records.values().next().value;
+    return { count: this.records.size, dimension: first ? first.vector.length : null };
+  }
+
+  async clear() {
+    this.records.clear();
+  }
+}
+
+/**
+ * 메모리 저장소를 변경할 때마다 파일에 기록하는 저장소
+ */
+class FileVectorStore extends MemoryVectorStore {
+  id: VectorStoreId = 'file';
+  private loaded = false;
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  async upsert(records: VectorRecord[]) {
+    this.load();
+    await super.upsert(records);
+    this.persist();
+  }
+
+  async delete(ids: string[]) {
+    this.load();
+    await super.delete(ids);
+    this.persist();
+  }
+
+  async deleteByPageIds(pageIds: string[]) {
+    this.load();
+    await super.deleteByPageIds(pageIds);
+    this.persist();
+  }
+
+  async query(vector: number[], topK: number, filter?: VectorFilter) {
+    this.load();
+    return super.query(vector, topK, filter);
+  }
+
+  async stats() {
+    this.load();
+    return super.stats();
+  }
+
+  async clear() {
+    this.loaded = true;
+    await super.clear();
+    this.persist();
+  }
+
+  // 처음 사용할 때 한 번만 파일에서 읽음
+  private load() {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (fs.existsSync(this.filePath)) {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      this.records = new Map((data.records || []).map((record: VectorRecord) => [record.id, record]));
+    }
+  }
+
+  private persist() {
+    // 쓰는 도중 다른 요청이 읽지 않도록 임시 파일에 쓴 뒤 교체
+    fs.writeFileSync(`${this.filePath}.tmp`, JSON.stringify({ records: Array.from(this.records.values()) }));
+    fs.renameSync(`${this.filePath}.tmp`, this.filePath);
+  }
+}
+
+function matchesFilter(record: VectorRecord, filter?: VectorFilter): boolean {
+  if (filter?.pageId?.length && !filter.pageId.includes(record.metadata.pageId)) return false;
+  if (filter?.source?.length && !filter.source.includes(record.metadata.source || '')) return false;
+  return true;
+}
+
+/**
+ * 벡터 파일 경로 (VECTOR_STORE_PATH 환경 변수가 없으면 임시 디렉토리 사용)
+ */
+function getVectorStorePath(): string {
+  return process.env.VECTOR_STORE_PATH || path.join(os.tmpdir(), 'rag-vectors.json');
+}
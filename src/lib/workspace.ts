@@ -0,0 +1,21 @@
+// API 키 대신 서버의 키 저장소를 가리키는 워크스페이스 ID를 전달하는 헤더
+export const WORKSPACE_HEADER = 'X-Workspace-Id';
+
+/**
+ * 저장된 설정의 워크스페이스 ID로 요청 헤더 구성 (ID가 없으면 서버 환경 변수의 키를 사용)
+ */
+export function getWorkspaceHeaders(settings: { workspaceId?: unknown }): Record<string, string> {
+  return typeof settings.workspaceId === 'string' && settings.workspaceId
+    ? { [WORKSPACE_HEADER]: settings.workspaceId }
+    : {};
+}
+
+// 서버 키 저장소로 옮겨 브라우저에서 보내지 않는 설정 항목
+const SECRET_SETTING_NAMES = ['openaiApiKey', 'notionApiKey', 'anthropicApiKey', 'compatibleApiKey'];
+
+/**
+ * API 요청에 함께 보낼 설정 (이전 버전에서 브라우저에 저장한 키는 제외)
+ */
+export function getPublicSettings(settings: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(settings).filter(([key]) => !SECRET_SETTING_NAMES.includes(key)));
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  Role,
+  SESSION_COOKIE,
+  USER_ID_HEADER,
+  USER_ROLE_HEADER,
+  USER_VERSION_HEADER,
+  isAuthEnabled,
+  verifyFeedToken,
+  verifySessionToken,
+} from '@/lib/session';
+
+// 로그인 없이 접근할 수 있는 경로
+const PUBLIC_PATHS = ['/login', '/api/auth/login', '/api/auth/logout', '/api/auth/session', '/api/auth/oidc', '/api/auth/mock-oidc'];
+
+// 설정 변경, 동기화, Notion 편집은 관리자만
+const ADMIN_PATHS = [
+  '/settings',
+  '/api/initialize-rag',
+  '/api/import-notion-export',
+  '/api/update-notion-data',
+  '/api/secrets',
+  '/api/notion-actions',
+  '/api/auth/users',
+];
+
+/**
+ * 로그인과 역할 확인 (AUTH_SECRET이 없으면 인증 없이 동작)
+ *
+ * 확인한 사용자는 x-user-id, x-user-role, x-user-version 요청 헤더로 API 라우트에 전달합니다.
+ * Edge 런타임에서는 계정 파일을 읽을 수 없으므로, 삭제되거나 역할이 바뀐 계정은 API 라우트의
+ * `authorizeRequest`가 다시 확인합니다.
+ */
+export async function middleware(request: NextRequest) {
+  if (!isAuthEnabled()) {
+    return NextResponse.next();
+  }
+
+  const { pathname, searchParams } = request.nextUrl;
+  const isApi = pathname.startsWith('/api/');
+
+  // 클라이언트가 보낸 사용자 헤더는 믿지 않음
+  const headers = new Headers(request.headers);
+  headers.delete(USER_ID_HEADER);
+  headers.delete(USER_ROLE_HEADER);
+  headers.delete(USER_VERSION_HEADER);
+  const next = (userId?: string, role?: Role, version?: number) => {
+    if (userId && role) {
+      headers.set(USER_ID_HEADER, userId);
+      headers.set(USER_ROLE_HEADER, role);
+    }
+    if (version !== undefined) {
+      headers.set(USER_VERSION_HEADER, String(version));
+    }
+    return NextResponse.next({ request: { headers } });
+  };
+
+  if (matchesPath(pathname, PUBLIC_PATHS)) {
+    return next();
+  }
+
+  // 캘린더 앱은 쿠키 없이 구독 URL의 피드 토큰으로 접근
+  if (pathname === '/api/calendar.ics') {
+    const feed = await verifyFeedToken(searchParams.get('token'));
+    if (feed) return next(feed.userId, 'member', feed.version);
+  }
+
+  const user = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (!user) {
+    if (isApi) {
+      return NextResponse.json({ error: '로그인이 필요합니다.' }, { status: 401 });
+    }
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${request.nextUrl.search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (matchesPath(pathname, ADMIN_PATHS) && user.role !== 'admin') {
+    if (isApi) {
+      return NextResponse.json({ error: '관리자만 사용할 수 있습니다.' }, { status: 403 });
+    }
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
+  return next(user.id, user.role, user.version);
+}
+
+function matchesPath(pathname: string, paths: string[]): boolean {
+  return paths.some(path => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+export const config = {
+  matcher: ['/', '/login', '/calendar/:path*', '/settings/:path*', '/api/:path*'],
+};